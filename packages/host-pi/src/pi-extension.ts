@@ -1,4 +1,4 @@
-import { readFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { readFileSync, existsSync } from "node:fs";
 import { join, resolve } from "node:path";
 import os from "node:os";
 import yaml from "js-yaml";
@@ -11,12 +11,6 @@ function w3rtDir() {
   return process.env.W3RT_DIR || join(os.homedir(), ".w3rt");
 }
 
-function w3rtTmpDir() {
-  const d = join(w3rtDir(), "tmp");
-  mkdirSync(d, { recursive: true });
-  return d;
-}
-
 const SOL_MINT = "So11111111111111111111111111111111111111112"; // wrapped SOL
 const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
@@ -62,30 +56,18 @@ function parseSwapIntent(text: string): {
   return { ok: true, amountSol: amount, output, slippageBps };
 }
 
-function buildSolanaSwapWorkflow(params: {
+// The swap template takes the swap as workflow inputs (see workflows/solana_swap_exact_in.yaml).
+function solanaSwapInputs(params: {
   amountSol: number;
   outputMint: string;
   slippageBps: number;
-}) {
-  const amountLamports = String(Math.round(params.amountSol * 1_000_000_000));
-
-  // Load template from repo workflows
-  const templatePath = resolve(process.cwd(), "workflows", "solana_swap_exact_in.yaml");
-  const wf = loadYamlFile<any>(templatePath);
-
-  // Patch quote stage params
-  const quote = wf?.stages?.find((s: any) => s?.name === "quote");
-  const act = quote?.actions?.find((a: any) => a?.tool === "solana_jupiter_quote");
-  if (!act) throw new Error("Template workflow missing solana_jupiter_quote action");
-
-  act.params = {
+}): Record<string, unknown> {
+  return {
     inputMint: SOL_MINT,
     outputMint: params.outputMint,
-    amount: amountLamports,
+    amount: String(Math.round(params.amountSol * 1_000_000_000)),
     slippageBps: params.slippageBps,
   };
-
-  return wf;
 }
 
 function loadTraceEvents(runId: string) {
@@ -231,22 +213,19 @@ export default function w3rtPiExtension(pi: any) {
         return;
       }
 
-      // Generate a temp workflow and run it
-      const wf = buildSolanaSwapWorkflow({
+      const templatePath = resolve(process.cwd(), "workflows", "solana_swap_exact_in.yaml");
+      const inputs = solanaSwapInputs({
         amountSol: intent.amountSol!,
         outputMint,
         slippageBps,
       });
 
-      const tmpPath = join(w3rtTmpDir(), `w3rt_${Date.now()}.yaml`);
-      writeFileSync(tmpPath, yaml.dump(wf), "utf-8");
-
       const approve = async (prompt: string) => {
         if (ctx?.ui?.confirm) return await ctx.ui.confirm("w3rt approval", prompt);
         return false;
       };
 
-      const { runId, summary, ctx: runCtx } = await runWorkflowFromFile(tmpPath, { approve });
+      const { runId, summary, ctx: runCtx } = await runWorkflowFromFile(templatePath, { approve, inputs });
 
       ctx?.ui?.notify?.(`runId: ${runId}`, "info");
       if (summary?.signature) ctx?.ui?.notify?.(`signature: ${summary.signature}`, "info");
@@ -0,0 +1,137 @@
+import type { PolicyConfig, PolicyRule } from "./types.js";
+
+/**
+ * Change control for policy edits: when `loosenDelaySeconds` > 0, edits that loosen the active policy
+ * are queued for that long before they take effect. Tightening edits apply immediately.
+ * The delay is read from the policy that is currently active, so shortening it is itself a loosening.
+ */
+export interface PolicyChangeControl {
+  loosenDelaySeconds?: number;
+}
+
+export interface PolicyLoosening {
+  path: string;
+  from: unknown;
+  to: unknown;
+  message: string;
+}
+
+const CONFIRMATION_STRICTNESS: Record<string, number> = { never: 0, large: 1, always: 2 };
+
+export function loosenDelaySeconds(cfg: Pick<PolicyConfig, "changeControl"> | null | undefined): number {
+  const d = Number(cfg?.changeControl?.loosenDelaySeconds ?? 0);
+  return Number.isFinite(d) && d > 0 ? d : 0;
+}
+
+// A limit that is unset (or <= 0 where the engine treats that as "off") does not constrain anything.
+function limitOf(v: unknown, zeroDisables: boolean): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return Infinity;
+  if (zeroDisables && v <= 0) return Infinity;
+  return v;
+}
+
+function ruleKey(r: PolicyRule): string {
+  return JSON.stringify({ condition: r.condition, match: r.match ?? null, action: r.action });
+}
+
+/**
+ * Lists every way `to` is more permissive than `from`. An empty result means the change only tightens
+ * (or is a no-op). Rules are compared by name: removing or editing an existing rule counts as loosening.
+ */
+export function policyLoosenings(from: PolicyConfig, to: PolicyConfig): PolicyLoosening[] {
+  const out: PolicyLoosening[] = [];
+  const push = (path: string, a: unknown, b: unknown, message: string) => out.push({ path, from: a, to: b, message });
+
+  // Gates that are on when true.
+  const flags: Array<[string, unknown, unknown]> = [
+    ["networks.mainnet.enabled", from.networks?.mainnet?.enabled, to.networks?.mainnet?.enabled],
+    ["networks.testnet.enabled", from.networks?.testnet?.enabled, to.networks?.testnet?.enabled],
+  ];
+  for (const [path, a, b] of flags) {
+    if (a !== true && b === true) push(path, a, b, `${path} turned on`);
+  }
+  const gates: Array<[string, unknown, unknown]> = [
+    ["networks.mainnet.requireApproval", from.networks?.mainnet?.requireApproval, to.networks?.mainnet?.requireApproval],
+    ["networks.mainnet.requireSimulation", from.networks?.mainnet?.requireSimulation, to.networks?.mainnet?.requireSimulation],
+    ["networks.mainnet.requireKnownAmountUsd", from.networks?.mainnet?.requireKnownAmountUsd, to.networks?.mainnet?.requireKnownAmountUsd],
+    ["networks.testnet.requireApproval", from.networks?.testnet?.requireApproval, to.networks?.testnet?.requireApproval],
+    [
+      "transactions.requireSimulatedSlippageOnMainnet",
+      from.transactions?.requireSimulatedSlippageOnMainnet,
+      to.transactions?.requireSimulatedSlippageOnMainnet,
+    ],
+  ];
+  for (const [path, a, b] of gates) {
+    if (a === true && b !== true) push(path, a, b, `${path} disabled`);
+  }
+
+  // Upper limits: raising or removing them loosens.
+  const caps: Array<[string, unknown, unknown, boolean]> = [
+    ["networks.mainnet.maxDailyVolumeUsd", from.networks?.mainnet?.maxDailyVolumeUsd, to.networks?.mainnet?.maxDailyVolumeUsd, true],
+    ["transactions.maxSingleAmountUsd", from.transactions?.maxSingleAmountUsd, to.transactions?.maxSingleAmountUsd, false],
+    ["transactions.maxSlippageBps", from.transactions?.maxSlippageBps, to.transactions?.maxSlippageBps, false],
+    ["transactions.maxTxPerMinute", from.transactions?.maxTxPerMinute, to.transactions?.maxTxPerMinute, true],
+    ["transactions.maxSingleSol", from.transactions?.maxSingleSol, to.transactions?.maxSingleSol, false],
+  ];
+  for (const [path, a, b, zeroDisables] of caps) {
+    if (limitOf(b, zeroDisables) > limitOf(a, zeroDisables)) push(path, a, b, `${path} raised`);
+  }
+
+  // Lower bounds: shortening them loosens.
+  const floors: Array<[string, unknown, unknown]> = [
+    ["transactions.cooldownSeconds", from.transactions?.cooldownSeconds, to.transactions?.cooldownSeconds],
+    ["changeControl.loosenDelaySeconds", from.changeControl?.loosenDelaySeconds, to.changeControl?.loosenDelaySeconds],
+  ];
+  for (const [path, a, b] of floors) {
+    const fa = typeof a === "number" && a > 0 ? a : 0;
+    const fb = typeof b === "number" && b > 0 ? b : 0;
+    if (fb < fa) push(path, a, b, `${path} lowered`);
+  }
+
+  const ca = CONFIRMATION_STRICTNESS[from.transactions?.requireConfirmation ?? "large"] ?? 1;
+  const cb = CONFIRMATION_STRICTNESS[to.transactions?.requireConfirmation ?? "large"] ?? 1;
+  if (cb < ca) {
+    push("transactions.requireConfirmation", from.transactions?.requireConfirmation, to.transactions?.requireConfirmation, "confirmation mode relaxed");
+  }
+
+  // Per-mint and per-destination transfer caps.
+  for (const [mint, cap] of Object.entries(from.transactions?.maxAmountByMint ?? {})) {
+    const next = to.transactions?.maxAmountByMint?.[mint];
+    const path = `transactions.maxAmountByMint.${mint}`;
+    if (limitOf(next, false) > limitOf(cap, false)) push(path, cap, next, `${path} raised`);
+  }
+  for (const [dest, caps] of Object.entries(from.transactions?.maxAmountByDestination ?? {})) {
+    for (const [mint, cap] of Object.entries(caps ?? {})) {
+      const next = to.transactions?.maxAmountByDestination?.[dest]?.[mint];
+      const path = `transactions.maxAmountByDestination.${dest}.${mint}`;
+      if (limitOf(next, false) > limitOf(cap, false)) push(path, cap, next, `${path} raised`);
+    }
+  }
+
+  // Allowlists: an empty/unset list allows everything, so adding entries or clearing the list loosens.
+  for (const key of ["solanaPrograms", "suiPackages", "evmContracts", "tokenMints", "actions", "destinations"] as const) {
+    const a = from.allowlist?.[key] ?? [];
+    const b = to.allowlist?.[key] ?? [];
+    const path = `allowlist.${key}`;
+    if (a.length && !b.length) {
+      push(path, a, b, `${path} cleared (no longer restricts)`);
+    } else if (a.length) {
+      const added = b.filter((x) => !a.includes(x));
+      if (added.length) push(path, a, b, `${path} adds ${added.join(", ")}`);
+    }
+  }
+
+  const removedDenied = (from.denylist?.destinations ?? []).filter((d) => !(to.denylist?.destinations ?? []).includes(d));
+  if (removedDenied.length) {
+    push("denylist.destinations", from.denylist?.destinations, to.denylist?.destinations, `denylist.destinations drops ${removedDenied.join(", ")}`);
+  }
+
+  const toRules = new Map((to.rules ?? []).map((r) => [r.name, r]));
+  for (const r of from.rules ?? []) {
+    const next = toRules.get(r.name);
+    if (!next) push(`rules.${r.name}`, r, undefined, `rule ${r.name} removed`);
+    else if (ruleKey(next) !== ruleKey(r)) push(`rules.${r.name}`, r, next, `rule ${r.name} changed`);
+  }
+
+  return out;
+}
@@ -0,0 +1,14 @@
+// Properties a condition may never read, even when present on the context.
+const FORBIDDEN_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+// Get value by dot path from context, for expression and structured rules alike. Only own properties are visible,
+// so conditions cannot reach prototypes.
+export function getByPath(obj: any, path: string): any {
+  let cur = obj;
+  for (const p of path.split(".")) {
+    if (cur == null || typeof cur !== "object" || FORBIDDEN_KEYS.has(p)) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(cur, p)) return undefined;
+    cur = cur[p];
+  }
+  return cur;
+}
@@ -1,18 +1,196 @@
-import type { PolicyConfig, PolicyContext, PolicyDecision } from "./types.js";
-import { evaluateRules } from "./rules.js";
+import type {
+  PolicyConfig,
+  PolicyContext,
+  PolicyDecision,
+  PolicyEvaluationMode,
+  PolicyViolation,
+} from "./types.js";
+import { evaluateRule, evaluateRules, type RuleEvalResult } from "./rules.js";
+
+export interface DecideOptions {
+  // "first" (default): stop at the first blocking/confirming gate.
+  // "all": walk every gate and report each violation in `violations`.
+  mode?: PolicyEvaluationMode;
+}
+
+const SEVERITY: Record<PolicyViolation["decision"], number> = { warn: 1, confirm: 2, block: 3 };
+
+function toDecision(v: PolicyViolation, violations?: PolicyViolation[]): PolicyDecision {
+  const extra = violations ? { violations } : {};
+  switch (v.decision) {
+    case "block":
+      return { decision: "block", code: v.code, message: v.message, reasons: v.reasons, ...extra };
+    case "confirm":
+      return {
+        decision: "confirm",
+        code: v.code,
+        message: v.message,
+        confirmationKey: v.confirmationKey ?? v.code.toLowerCase(),
+        reasons: v.reasons,
+        ...extra,
+      };
+    case "warn":
+      return { decision: "warn", code: v.code, message: v.message, reasons: v.reasons, ...extra };
+  }
+}
+
+function ruleViolation(r: RuleEvalResult): PolicyViolation | null {
+  if (!r.matched || !r.action || r.action === "allow") return null;
+  const name = r.ruleName;
+  const message = r.message ?? `Rule matched: ${name}`;
+  const fallback = r.action === "block" ? "BLOCKED" : r.action === "confirm" ? "CONFIRM" : "WARN";
+  return {
+    decision: r.action,
+    code: `RULE_${name?.toUpperCase() ?? fallback}`,
+    message,
+    reasons: [`rule:${name}`],
+    ...(r.action === "confirm" ? { confirmationKey: `rule_${name ?? "confirm"}` } : {}),
+  };
+}
 
 export class PolicyEngine {
   constructor(public readonly config: PolicyConfig) {}
 
-  decide(ctx: PolicyContext): PolicyDecision {
-    const reasons: string[] = [];
+  decide(ctx: PolicyContext, opts: DecideOptions = {}): PolicyDecision {
+    const d = opts.mode === "all" ? this.evaluateAll(ctx) : this.evaluateFirst(ctx);
+    return this.applyConfirmationMode(d, ctx);
+  }
 
-    // 1) network gates
-    if (ctx.network === "mainnet") {
-      if (!this.config.networks.mainnet.enabled) {
-        return { decision: "block", code: "MAINNET_DISABLED", message: "Mainnet disabled", reasons: ["networks.mainnet.enabled=false"] };
+  // Convenience for UIs that want every violation at once.
+  decideAll(ctx: PolicyContext): PolicyDecision {
+    return this.decide(ctx, { mode: "all" });
+  }
+
+  // Only the transfer gates (destination lists, per-mint / per-destination caps). For refusing a transfer before
+  // its transaction is built, when program ids, simulation and broadcast history are not known yet.
+  decideTransfer(ctx: PolicyContext, opts: DecideOptions = {}): PolicyDecision {
+    const violations = [...this.transferViolations(ctx)];
+    const extra = opts.mode === "all" ? violations : undefined;
+    // transfer violations all block, so the first one is the decision
+    if (violations.length) return toDecision(violations[0], extra);
+    return { decision: "allow", reasons: this.allowReasons(ctx), ...(extra ? { violations: extra } : {}) };
+  }
+
+  private evaluateFirst(ctx: PolicyContext): PolicyDecision {
+    // Downgraded limit hits (warn) are held back so later block gates still apply.
+    let firstWarn: PolicyViolation | undefined;
+    for (const v of this.violations(ctx, "first")) {
+      if (v.decision === "warn") {
+        firstWarn ??= v;
+        continue;
+      }
+      return toDecision(v);
+    }
+    if (firstWarn) return toDecision(firstWarn);
+    return { decision: "allow", reasons: this.allowReasons(ctx) };
+  }
+
+  private evaluateAll(ctx: PolicyContext): PolicyDecision {
+    const violations = [...this.violations(ctx, "all")];
+    if (!violations.length) return { decision: "allow", reasons: this.allowReasons(ctx), violations };
+
+    // Most severe wins; ties keep gate order.
+    let worst = violations[0];
+    for (const v of violations) {
+      if (SEVERITY[v.decision] > SEVERITY[worst.decision]) worst = v;
+    }
+    return toDecision(worst, violations);
+  }
+
+  private allowReasons(ctx: PolicyContext): string[] {
+    return ctx.network === "mainnet" ? ["network=mainnet"] : [];
+  }
+
+  // transactions.requireConfirmation:
+  // - "always": every broadcast that is not blocked needs explicit confirmation
+  // - "large":  size/slippage limits ask for confirmation (default)
+  // - "never":  size/slippage limits only warn (see limitExceeded)
+  private applyConfirmationMode(d: PolicyDecision, ctx: PolicyContext): PolicyDecision {
+    if (this.config.transactions.requireConfirmation !== "always") return d;
+    if (ctx.sideEffect !== "broadcast") return d;
+    if (d.decision !== "allow" && d.decision !== "warn") return d;
+
+    return {
+      decision: "confirm",
+      code: "CONFIRMATION_REQUIRED",
+      message: d.decision === "warn" ? d.message : "Policy requires confirmation for every broadcast",
+      confirmationKey: "always_confirm",
+      reasons: ["transactions.requireConfirmation=always", ...(d.reasons ?? [])],
+      ...(d.violations ? { violations: d.violations } : {}),
+    };
+  }
+
+  // Size/slippage limit hit: confirm normally, downgraded to warn when requireConfirmation=never.
+  private limitExceeded(v: PolicyViolation): PolicyViolation {
+    if (this.config.transactions.requireConfirmation !== "never") return v;
+    return {
+      decision: "warn",
+      code: v.code,
+      message: v.message,
+      reasons: [...(v.reasons ?? []), "transactions.requireConfirmation=never"],
+    };
+  }
+
+  // Transfer caps are hard limits (block), unlike the confirm-able size limits in gate 6.
+  private *transferViolations(ctx: PolicyContext): Generator<PolicyViolation> {
+    const allowed = this.config.allowlist.destinations ?? [];
+    const denied = this.config.denylist?.destinations ?? [];
+    const dest = ctx.destination;
+
+    if (!dest) {
+      // Fail-closed, same as PROGRAMS_UNKNOWN.
+      if (allowed.length) {
+        yield {
+          decision: "block",
+          code: "DESTINATION_UNKNOWN",
+          message: "Cannot determine the transfer destination. Refusing because allowlist.destinations is set.",
+          reasons: ["allowlist.destinations set", "destination missing"],
+        };
       }
-      reasons.push("network=mainnet");
+    } else if (denied.includes(dest)) {
+      yield {
+        decision: "block",
+        code: "DESTINATION_DENIED",
+        message: `Transfer destination is denylisted: ${dest}`,
+        reasons: [`denylist.destinations includes ${dest}`],
+      };
+    } else if (allowed.length && !allowed.includes(dest)) {
+      yield {
+        decision: "block",
+        code: "DESTINATION_NOT_ALLOWED",
+        message: `Transfer destination not allowed: ${dest}`,
+        reasons: [`allowlist.destinations excludes ${dest}`],
+      };
+    }
+
+    if (typeof ctx.tokenAmount !== "number" || !ctx.mint) return;
+
+    const mintCap = this.config.transactions.maxAmountByMint?.[ctx.mint];
+    if (typeof mintCap === "number" && ctx.tokenAmount > mintCap) {
+      yield {
+        decision: "block",
+        code: "MINT_AMOUNT_EXCEEDED",
+        message: `Transfer of ${ctx.tokenAmount} ${ctx.mint} exceeds the per-transaction cap of ${mintCap}`,
+        reasons: [`transactions.maxAmountByMint.${ctx.mint}=${mintCap}`, `tokenAmount=${ctx.tokenAmount}`],
+      };
+    }
+
+    const destCap = dest ? this.config.transactions.maxAmountByDestination?.[dest]?.[ctx.mint] : undefined;
+    if (typeof destCap === "number" && ctx.tokenAmount > destCap) {
+      yield {
+        decision: "block",
+        code: "DESTINATION_AMOUNT_EXCEEDED",
+        message: `Transfer of ${ctx.tokenAmount} ${ctx.mint} to ${dest} exceeds its cap of ${destCap}`,
+        reasons: [`transactions.maxAmountByDestination.${dest}.${ctx.mint}=${destCap}`, `tokenAmount=${ctx.tokenAmount}`],
+      };
+    }
+  }
+
+  // Gates in evaluation order. Lazily consumed, so "first" mode stops computing at the first hit.
+  private *violations(ctx: PolicyContext, mode: PolicyEvaluationMode): Generator<PolicyViolation> {
+    // 1) network gates
+    if (ctx.network === "mainnet" && !this.config.networks.mainnet.enabled) {
+      yield { decision: "block", code: "MAINNET_DISABLED", message: "Mainnet disabled", reasons: ["networks.mainnet.enabled=false"] };
     }
 
     // 2) mainnet simulation hard gate (for side-effect actions)
@@ -22,7 +200,7 @@ export class PolicyEngine {
       ctx.sideEffect === "broadcast" &&
       ctx.simulationOk !== true
     ) {
-      return {
+      yield {
         decision: "block",
         code: "SIMULATION_REQUIRED",
         message: "Simulation required before broadcasting on mainnet",
@@ -37,7 +215,7 @@ export class PolicyEngine {
     // 3) allowlist by action
     const allowedActions = this.config.allowlist.actions ?? [];
     if (allowedActions.length && !allowedActions.includes(ctx.action)) {
-      return {
+      yield {
         decision: "block",
         code: "ACTION_NOT_ALLOWED",
         message: `Action not allowed: ${ctx.action}`,
@@ -51,27 +229,32 @@ export class PolicyEngine {
       if (allowedPrograms.length) {
         // Fail-closed: if we cannot determine programIds, do not broadcast.
         if (ctx.programIdsKnown !== true) {
-          return {
+          yield {
             decision: "block",
             code: "PROGRAMS_UNKNOWN",
             message: "Cannot determine Solana program ids for this transaction (ALT lookup failed or missing). Refusing to broadcast.",
             reasons: ["allowlist.solanaPrograms set", "programIdsKnown!=true"],
           };
-        }
-
-        const used = ctx.programIds ?? [];
-        const notAllowed = used.filter((p) => !allowedPrograms.includes(p));
-        if (notAllowed.length) {
-          return {
-            decision: "block",
-            code: "PROGRAM_NOT_ALLOWED",
-            message: `Solana program not allowed: ${notAllowed[0]}`,
-            reasons: ["allowlist.solanaPrograms set", `programId not allowed: ${notAllowed[0]}`],
-          };
+        } else {
+          const used = ctx.programIds ?? [];
+          const notAllowed = used.filter((p) => !allowedPrograms.includes(p));
+          if (notAllowed.length) {
+            yield {
+              decision: "block",
+              code: "PROGRAM_NOT_ALLOWED",
+              message: `Solana program not allowed: ${notAllowed[0]}`,
+              reasons: ["allowlist.solanaPrograms set", ...notAllowed.map((p) => `programId not allowed: ${p}`)],
+            };
+          }
         }
       }
     }
 
+    // 4b) transfer recipients and per-mint / per-destination caps
+    if (ctx.action === "transfer" || ctx.destination) {
+      yield* this.transferViolations(ctx);
+    }
+
     // 5) conservative runtime rate limits (best-effort)
     if (ctx.sideEffect === "broadcast") {
       const cooldown = this.config.transactions.cooldownSeconds;
@@ -82,7 +265,7 @@ export class PolicyEngine {
         ctx.secondsSinceLastBroadcast >= 0 &&
         ctx.secondsSinceLastBroadcast < cooldown
       ) {
-        return {
+        yield {
           decision: "block",
           code: "COOLDOWN_ACTIVE",
           message: `Cooldown active: wait ${Math.ceil(cooldown - ctx.secondsSinceLastBroadcast)}s before broadcasting again`,
@@ -97,7 +280,7 @@ export class PolicyEngine {
         typeof ctx.broadcastsLastMinute === "number" &&
         ctx.broadcastsLastMinute >= maxPerMin
       ) {
-        return {
+        yield {
           decision: "block",
           code: "RATE_LIMIT",
           message: `Rate limit exceeded: ${ctx.broadcastsLastMinute} broadcasts in last minute (max ${maxPerMin})`,
@@ -106,27 +289,68 @@ export class PolicyEngine {
       }
     }
 
+    // 5b) rolling daily volume budget (mainnet broadcasts)
+    const maxDailyVolumeUsd = this.config.networks.mainnet.maxDailyVolumeUsd;
+    if (
+      ctx.network === "mainnet" &&
+      ctx.sideEffect === "broadcast" &&
+      typeof maxDailyVolumeUsd === "number" &&
+      maxDailyVolumeUsd > 0 &&
+      typeof ctx.volumeUsdLast24h === "number"
+    ) {
+      if (ctx.volumeUsdLast24h >= maxDailyVolumeUsd) {
+        yield {
+          decision: "block",
+          code: "DAILY_VOLUME_EXHAUSTED",
+          message: `Daily volume budget exhausted: $${ctx.volumeUsdLast24h.toFixed(2)} of $${maxDailyVolumeUsd.toFixed(2)} used in last 24h`,
+          reasons: ["networks.mainnet.maxDailyVolumeUsd", `volumeUsdLast24h=${ctx.volumeUsdLast24h}`],
+        };
+      } else if (typeof ctx.amountUsd !== "number") {
+        // A broadcast of unknown USD size (e.g. a native SOL transfer) is not counted; opt in to refuse it instead.
+        if (this.config.networks.mainnet.requireKnownAmountUsd === true) {
+          yield {
+            decision: "block",
+            code: "DAILY_VOLUME_AMOUNT_UNKNOWN",
+            message: "Cannot determine the USD size of this broadcast. Refusing because networks.mainnet.requireKnownAmountUsd is set.",
+            reasons: ["networks.mainnet.requireKnownAmountUsd=true", "amountUsd missing"],
+          };
+        }
+      } else if (ctx.volumeUsdLast24h + ctx.amountUsd > maxDailyVolumeUsd) {
+        const remaining = maxDailyVolumeUsd - ctx.volumeUsdLast24h;
+        yield {
+          decision: "block",
+          code: "DAILY_VOLUME_EXCEEDED",
+          message: `Daily volume budget exceeded: $${ctx.amountUsd.toFixed(2)} requested, $${remaining.toFixed(2)} remaining`,
+          reasons: [
+            "networks.mainnet.maxDailyVolumeUsd",
+            `volumeUsdLast24h=${ctx.volumeUsdLast24h}`,
+            `amountUsd=${ctx.amountUsd}`,
+          ],
+        };
+      }
+    }
+
     // 6) basic limits
     if (typeof ctx.amountSol === "number" && typeof this.config.transactions.maxSingleSol === "number") {
       if (ctx.amountSol > this.config.transactions.maxSingleSol) {
-        return {
+        yield this.limitExceeded({
           decision: "confirm",
           code: "AMOUNT_SOL_LARGE",
           message: `Large SOL amount: ${ctx.amountSol.toFixed(4)} SOL`,
           confirmationKey: "amount_sol_large",
           reasons: ["transactions.maxSingleSol", `amountSol=${ctx.amountSol}`],
-        };
+        });
       }
     }
 
     if (typeof ctx.amountUsd === "number" && ctx.amountUsd > this.config.transactions.maxSingleAmountUsd) {
-      return {
+      yield this.limitExceeded({
         decision: "confirm",
         code: "AMOUNT_LARGE",
         message: `Large amount: $${ctx.amountUsd.toFixed(2)}`,
         confirmationKey: "amount_large",
         reasons: ["transactions.maxSingleAmountUsd", `amountUsd=${ctx.amountUsd}`],
-      };
+      });
     }
 
     // Prefer simulation-derived slippage if available (more reality-based than requested).
@@ -140,7 +364,7 @@ export class PolicyEngine {
       ctx.action === "swap" &&
       typeof ctx.simulatedSlippageBps !== "number"
     ) {
-      return {
+      yield {
         decision: "block",
         code: "SIMULATED_SLIPPAGE_REQUIRED",
         message: "Mainnet swap requires simulation-derived slippage estimate before broadcasting",
@@ -152,47 +376,28 @@ export class PolicyEngine {
     const slippageLabel = typeof ctx.simulatedSlippageBps === "number" ? "Simulated slippage" : "Requested slippage";
 
     if (typeof slippageToCheck === "number" && slippageToCheck > this.config.transactions.maxSlippageBps) {
-      return {
+      yield this.limitExceeded({
         decision: "confirm",
         code: typeof ctx.simulatedSlippageBps === "number" ? "SIMULATED_SLIPPAGE_HIGH" : "SLIPPAGE_HIGH",
         message: `${slippageLabel}: ${(slippageToCheck / 100).toFixed(2)}%`,
         confirmationKey: "slippage_high",
         reasons: ["transactions.maxSlippageBps", `${slippageLabel}=${slippageToCheck}`],
-      };
+      });
     }
 
     // 7) Custom rules DSL evaluation
-    if (this.config.rules && this.config.rules.length > 0) {
-      const ruleResult = evaluateRules(this.config.rules, ctx);
-      if (ruleResult && ruleResult.matched) {
-        const message = ruleResult.message ?? `Rule matched: ${ruleResult.ruleName}`;
-        switch (ruleResult.action) {
-          case "block":
-            return {
-              decision: "block",
-              code: `RULE_${ruleResult.ruleName?.toUpperCase() ?? "BLOCKED"}`,
-              message,
-              reasons: [`rule:${ruleResult.ruleName}`],
-            };
-          case "confirm":
-            return {
-              decision: "confirm",
-              code: `RULE_${ruleResult.ruleName?.toUpperCase() ?? "CONFIRM"}`,
-              message,
-              confirmationKey: `rule_${ruleResult.ruleName ?? "confirm"}`,
-              reasons: [`rule:${ruleResult.ruleName}`],
-            };
-          case "warn":
-            return {
-              decision: "warn",
-              code: `RULE_${ruleResult.ruleName?.toUpperCase() ?? "WARN"}`,
-              message,
-              reasons: [`rule:${ruleResult.ruleName}`],
-            };
+    const rules = this.config.rules ?? [];
+    if (rules.length > 0) {
+      if (mode === "all") {
+        for (const rule of rules) {
+          const v = ruleViolation(evaluateRule(rule, ctx));
+          if (v) yield v;
         }
+      } else {
+        const ruleResult = evaluateRules(rules, ctx);
+        const v = ruleResult ? ruleViolation(ruleResult) : null;
+        if (v) yield v;
       }
     }
-
-    return { decision: "allow", reasons };
   }
 }
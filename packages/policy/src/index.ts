@@ -2,3 +2,5 @@ export * from "./types.js";
 export * from "./engine.js";
 export * from "./rules.js";
 export * from "./spec.js";
+export * from "./structuredRules.js";
+export * from "./changeControl.js";
@@ -1,4 +1,6 @@
 import type { PolicyAction, PolicyRule, PolicyContext } from "./types.js";
+import { evaluateStructuredCondition, fieldType, type RuleValidationError } from "./structuredRules.js";
+import { getByPath } from "./contextPath.js";
 
 export interface RuleEvalResult {
   matched: boolean;
@@ -7,19 +9,66 @@ export interface RuleEvalResult {
   ruleName?: string;
 }
 
+// Thrown for malformed condition strings; `position` is a 0-based character offset.
+export class RuleParseError extends Error {
+  position: number;
+  expected: string;
+  found: string;
+
+  constructor(position: number, expected: string, found: string) {
+    super(`Parse error at position ${position}: expected ${expected} but found ${found}`);
+    this.name = "RuleParseError";
+    this.position = position;
+    this.expected = expected;
+    this.found = found;
+  }
+}
+
+// Thrown when evaluating a condition exceeds MAX_EVALUATION_STEPS.
+export class RuleEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleEvaluationError";
+  }
+}
+
+// Bounds on conditions: nesting and size are checked when parsing/validating,
+// steps are counted during evaluation (any()/all() multiply the cost by the list length).
+export const MAX_CONDITION_DEPTH = 32;
+export const MAX_CONDITION_NODES = 256;
+export const MAX_EVALUATION_STEPS = 10_000;
+
 // Token type for lexer
 type Token =
-  | { type: "ident"; value: string }
-  | { type: "number"; value: number }
-  | { type: "string"; value: string }
-  | { type: "bool"; value: boolean }
-  | { type: "op"; value: string }
-  | { type: "lparen" }
-  | { type: "rparen" }
-  | { type: "and" }
-  | { type: "or" }
-  | { type: "not" }
-  | { type: "eof" };
+  | { type: "ident"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "bool"; value: boolean; pos: number }
+  | { type: "null"; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "lparen"; pos: number }
+  | { type: "rparen"; pos: number }
+  | { type: "lbracket"; pos: number }
+  | { type: "rbracket"; pos: number }
+  | { type: "comma"; pos: number }
+  | { type: "arrow"; pos: number }
+  | { type: "and"; pos: number }
+  | { type: "or"; pos: number }
+  | { type: "not"; pos: number }
+  | { type: "in"; pos: number }
+  | { type: "eof"; pos: number };
+
+// Parsed condition expression
+export type RuleExpr =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "list"; items: RuleExpr[] }
+  | { kind: "path"; path: string; pos: number }
+  | { kind: "unary"; op: "!" | "-"; arg: RuleExpr }
+  | { kind: "binary"; op: string; left: RuleExpr; right: RuleExpr }
+  | { kind: "call"; name: string; args: RuleExpr[]; pos: number }
+  | { kind: "lambda"; param: string; body: RuleExpr };
+
+const SINGLE_CHAR_OPS = new Set([">", "<", "+", "-", "*", "/", "%"]);
 
 // Tokenize condition string
 function tokenize(expr: string): Token[] {
@@ -28,6 +77,7 @@ function tokenize(expr: string): Token[] {
 
   while (i < expr.length) {
     const c = expr[i];
+    const pos = i;
 
     // Skip whitespace
     if (/\s/.test(c)) {
@@ -35,63 +85,45 @@ function tokenize(expr: string): Token[] {
       continue;
     }
 
-    // Parentheses
-    if (c === "(") {
-      tokens.push({ type: "lparen" });
-      i++;
-      continue;
-    }
-    if (c === ")") {
-      tokens.push({ type: "rparen" });
+    // Punctuation
+    if (c === "(" || c === ")" || c === "[" || c === "]" || c === ",") {
+      const type = ({ "(": "lparen", ")": "rparen", "[": "lbracket", "]": "rbracket", ",": "comma" } as const)[c];
+      tokens.push({ type, pos });
       i++;
       continue;
     }
 
-    // Operators (==, !=, >=, <=, >, <)
-    if (c === "=" && expr[i + 1] === "=") {
-      tokens.push({ type: "op", value: "==" });
+    // Two-char operators (==, !=, >=, <=, =>, &&, ||)
+    const two = expr.slice(i, i + 2);
+    if (two === "==" || two === "!=" || two === ">=" || two === "<=") {
+      tokens.push({ type: "op", value: two, pos });
       i += 2;
       continue;
     }
-    if (c === "!" && expr[i + 1] === "=") {
-      tokens.push({ type: "op", value: "!=" });
+    if (two === "=>") {
+      tokens.push({ type: "arrow", pos });
       i += 2;
       continue;
     }
-    if (c === ">" && expr[i + 1] === "=") {
-      tokens.push({ type: "op", value: ">=" });
+    if (two === "&&") {
+      tokens.push({ type: "and", pos });
       i += 2;
       continue;
     }
-    if (c === "<" && expr[i + 1] === "=") {
-      tokens.push({ type: "op", value: "<=" });
+    if (two === "||") {
+      tokens.push({ type: "or", pos });
       i += 2;
       continue;
     }
-    if (c === ">") {
-      tokens.push({ type: "op", value: ">" });
-      i++;
-      continue;
-    }
-    if (c === "<") {
-      tokens.push({ type: "op", value: "<" });
-      i++;
-      continue;
-    }
 
-    // Logical operators
-    if (expr.slice(i, i + 2) === "&&") {
-      tokens.push({ type: "and" });
-      i += 2;
-      continue;
-    }
-    if (expr.slice(i, i + 2) === "||") {
-      tokens.push({ type: "or" });
-      i += 2;
+    // Single-char comparison / arithmetic operators
+    if (SINGLE_CHAR_OPS.has(c)) {
+      tokens.push({ type: "op", value: c, pos });
+      i++;
       continue;
     }
     if (c === "!") {
-      tokens.push({ type: "not" });
+      tokens.push({ type: "not", pos });
       i++;
       continue;
     }
@@ -110,20 +142,23 @@ function tokenize(expr: string): Token[] {
         }
         i++;
       }
+      if (i >= expr.length) throw new RuleParseError(i, `closing ${quote}`, "end of input");
       i++; // Skip closing quote
-      tokens.push({ type: "string", value });
+      tokens.push({ type: "string", value, pos });
       continue;
     }
 
     // Numbers
-    if (/[0-9]/.test(c) || (c === "-" && /[0-9]/.test(expr[i + 1]))) {
+    if (/[0-9]/.test(c)) {
       let numStr = c;
       i++;
-      while (i < expr.length && /[0-9.]/.test(expr[i])) {
-        numStr += expr[i];
+      while (i < expr.length && /[0-9._]/.test(expr[i])) {
+        if (expr[i] !== "_") numStr += expr[i];
         i++;
       }
-      tokens.push({ type: "number", value: parseFloat(numStr) });
+      const value = Number(numStr);
+      if (!Number.isFinite(value)) throw new RuleParseError(pos, "number", `'${numStr}'`);
+      tokens.push({ type: "number", value, pos });
       continue;
     }
 
@@ -138,183 +173,498 @@ function tokenize(expr: string): Token[] {
 
       // Check for keywords
       if (ident === "true") {
-        tokens.push({ type: "bool", value: true });
+        tokens.push({ type: "bool", value: true, pos });
       } else if (ident === "false") {
-        tokens.push({ type: "bool", value: false });
+        tokens.push({ type: "bool", value: false, pos });
+      } else if (ident === "null") {
+        tokens.push({ type: "null", pos });
       } else if (ident === "and" || ident === "AND") {
-        tokens.push({ type: "and" });
+        tokens.push({ type: "and", pos });
       } else if (ident === "or" || ident === "OR") {
-        tokens.push({ type: "or" });
+        tokens.push({ type: "or", pos });
       } else if (ident === "not" || ident === "NOT") {
-        tokens.push({ type: "not" });
+        tokens.push({ type: "not", pos });
+      } else if (ident === "in" || ident === "IN") {
+        tokens.push({ type: "in", pos });
       } else {
-        tokens.push({ type: "ident", value: ident });
+        tokens.push({ type: "ident", value: ident, pos });
       }
       continue;
     }
 
-    // Unknown character - skip
-    i++;
+    throw new RuleParseError(pos, "expression", `'${c}'`);
   }
 
-  tokens.push({ type: "eof" });
+  tokens.push({ type: "eof", pos: expr.length });
   return tokens;
 }
 
-// Get value by dot path from context
-function getByPath(obj: any, path: string): any {
-  const parts = path.split(".");
-  let cur = obj;
-  for (const p of parts) {
-    if (cur == null) return undefined;
-    cur = cur[p];
+function describeToken(t: Token): string {
+  switch (t.type) {
+    case "eof":
+      return "end of input";
+    case "ident":
+      return `identifier '${t.value}'`;
+    case "number":
+      return `number ${t.value}`;
+    case "string":
+      return `string ${JSON.stringify(t.value)}`;
+    case "bool":
+      return String(t.value);
+    case "op":
+      return `'${t.value}'`;
+    default:
+      return `'${{ null: "null", lparen: "(", rparen: ")", lbracket: "[", rbracket: "]", comma: ",", arrow: "=>", and: "&&", or: "||", not: "!", in: "in" }[t.type]}'`;
   }
-  return cur;
 }
 
-// Simple recursive descent parser for expressions
+// Functions callable from conditions: name -> arity. `any`/`all` take `(list, x => expr)`.
+export const RULE_FUNCTIONS: Record<string, number> = { len: 1, any: 2, all: 2 };
+
+const COMPARISON_OPS = new Set(["==", "!=", ">", ">=", "<", "<="]);
+// Word operators that are plain identifiers when not in operator position
+const WORD_OPS = new Set(["contains", "startsWith", "endsWith"]);
+
+// Recursive descent parser producing a RuleExpr
 class Parser {
   private pos = 0;
+  private depth = 0;
   private tokens: Token[];
-  private ctx: Record<string, any>;
 
-  constructor(tokens: Token[], ctx: Record<string, any>) {
+  constructor(tokens: Token[]) {
     this.tokens = tokens;
-    this.ctx = ctx;
   }
 
-  private peek(): Token {
-    return this.tokens[this.pos] ?? { type: "eof" };
+  private peek(offset = 0): Token {
+    return this.tokens[this.pos + offset] ?? this.tokens[this.tokens.length - 1];
   }
 
   private advance(): Token {
-    return this.tokens[this.pos++] ?? { type: "eof" };
+    const t = this.peek();
+    if (t.type !== "eof") this.pos++;
+    return t;
   }
 
-  // expression: orExpr
-  parse(): boolean {
+  // Guards every recursive descent so deeply nested input fails with a parse error instead of overflowing the stack.
+  private nested<T>(f: () => T): T {
+    if (++this.depth > MAX_CONDITION_DEPTH) {
+      this.depth--;
+      const t = this.peek();
+      throw new RuleParseError(t.pos, `at most ${MAX_CONDITION_DEPTH} levels of nesting`, describeToken(t));
+    }
+    try {
+      return f();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expect<T extends Token["type"]>(type: T, expected: string): Extract<Token, { type: T }> {
+    const t = this.peek();
+    if (t.type !== type) throw new RuleParseError(t.pos, expected, describeToken(t));
+    this.advance();
+    return t as Extract<Token, { type: T }>;
+  }
+
+  // expression: orExpr EOF
+  parse(): RuleExpr {
     const result = this.orExpr();
+    const t = this.peek();
+    if (t.type !== "eof") throw new RuleParseError(t.pos, "end of expression", describeToken(t));
     return result;
   }
 
   // orExpr: andExpr (('||' | 'or') andExpr)*
-  private orExpr(): boolean {
-    let left = this.andExpr();
-    while (this.peek().type === "or") {
-      this.advance();
-      const right = this.andExpr();
-      left = left || right;
-    }
-    return left;
+  private orExpr(): RuleExpr {
+    return this.nested(() => {
+      let left = this.andExpr();
+      while (this.peek().type === "or") {
+        this.advance();
+        left = { kind: "binary", op: "||", left, right: this.andExpr() };
+      }
+      return left;
+    });
   }
 
   // andExpr: notExpr (('&&' | 'and') notExpr)*
-  private andExpr(): boolean {
+  private andExpr(): RuleExpr {
     let left = this.notExpr();
     while (this.peek().type === "and") {
       this.advance();
-      const right = this.notExpr();
-      left = left && right;
+      left = { kind: "binary", op: "&&", left, right: this.notExpr() };
     }
     return left;
   }
 
-  // notExpr: ('!' | 'not')? comparison
-  private notExpr(): boolean {
+  // notExpr: ('!' | 'not') notExpr | comparison
+  private notExpr(): RuleExpr {
     if (this.peek().type === "not") {
       this.advance();
-      return !this.comparison();
+      return { kind: "unary", op: "!", arg: this.nested(() => this.notExpr()) };
     }
     return this.comparison();
   }
 
-  // comparison: primary (op primary)?
-  private comparison(): boolean {
-    const left = this.primary();
+  // comparison: additive ((cmpOp | 'in' | 'not' 'in' | 'contains' | 'startsWith' | 'endsWith') additive)?
+  private comparison(): RuleExpr {
+    const left = this.additive();
 
     const t = this.peek();
-    if (t.type === "op") {
+    if (t.type === "op" && COMPARISON_OPS.has(t.value)) {
+      this.advance();
+      return { kind: "binary", op: t.value, left, right: this.additive() };
+    }
+    if (t.type === "in") {
+      this.advance();
+      return { kind: "binary", op: "in", left, right: this.additive() };
+    }
+    if (t.type === "not" && this.peek(1).type === "in") {
+      this.advance();
+      this.advance();
+      return { kind: "binary", op: "not in", left, right: this.additive() };
+    }
+    if (t.type === "ident" && WORD_OPS.has(t.value)) {
+      this.advance();
+      return { kind: "binary", op: t.value, left, right: this.additive() };
+    }
+    return left;
+  }
+
+  // additive: multiplicative (('+' | '-') multiplicative)*
+  private additive(): RuleExpr {
+    let left = this.multiplicative();
+    for (let t = this.peek(); t.type === "op" && (t.value === "+" || t.value === "-"); t = this.peek()) {
       this.advance();
-      const right = this.primary();
-      return this.compare(left, t.value, right);
+      left = { kind: "binary", op: t.value, left, right: this.multiplicative() };
     }
+    return left;
+  }
 
-    // Boolean coercion if no operator
-    return Boolean(left);
+  // multiplicative: unary (('*' | '/' | '%') unary)*
+  private multiplicative(): RuleExpr {
+    let left = this.unary();
+    for (let t = this.peek(); t.type === "op" && (t.value === "*" || t.value === "/" || t.value === "%"); t = this.peek()) {
+      this.advance();
+      left = { kind: "binary", op: t.value, left, right: this.unary() };
+    }
+    return left;
   }
 
-  // primary: '(' expression ')' | literal | identifier
-  private primary(): any {
+  // unary: '-' unary | primary
+  private unary(): RuleExpr {
     const t = this.peek();
-
-    if (t.type === "lparen") {
+    if (t.type === "op" && t.value === "-") {
       this.advance();
-      const result = this.orExpr();
-      if (this.peek().type === "rparen") {
+      return { kind: "unary", op: "-", arg: this.nested(() => this.unary()) };
+    }
+    return this.primary();
+  }
+
+  // primary: '(' expression ')' | '[' list ']' | literal | call | identifier
+  private primary(): RuleExpr {
+    const t = this.peek();
+
+    switch (t.type) {
+      case "lparen": {
         this.advance();
+        const result = this.orExpr();
+        this.expect("rparen", "')'");
+        return result;
       }
-      return result;
+      case "lbracket": {
+        this.advance();
+        const items: RuleExpr[] = [];
+        if (this.peek().type !== "rbracket") {
+          items.push(this.orExpr());
+          while (this.peek().type === "comma") {
+            this.advance();
+            items.push(this.orExpr());
+          }
+        }
+        this.expect("rbracket", "',' or ']'");
+        return { kind: "list", items };
+      }
+      case "number":
+      case "string":
+      case "bool":
+        this.advance();
+        return { kind: "literal", value: t.value };
+      case "null":
+        this.advance();
+        return { kind: "literal", value: null };
+      case "ident":
+        this.advance();
+        if (this.peek().type === "lparen") return this.call(t);
+        return { kind: "path", path: t.value, pos: t.pos };
+      default:
+        throw new RuleParseError(t.pos, "value, identifier or '('", describeToken(t));
     }
+  }
 
-    if (t.type === "number") {
-      this.advance();
-      return t.value;
+  // call: ident '(' (arg (',' arg)*)? ')'   where arg: ident '=>' expression | expression
+  private call(name: Extract<Token, { type: "ident" }>): RuleExpr {
+    const arity = RULE_FUNCTIONS[name.value];
+    if (arity === undefined) {
+      throw new RuleParseError(name.pos, `one of ${Object.keys(RULE_FUNCTIONS).join(", ")}`, `function '${name.value}'`);
     }
+    this.expect("lparen", "'('");
 
-    if (t.type === "string") {
-      this.advance();
-      return t.value;
+    const args: RuleExpr[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.arg());
+      while (this.peek().type === "comma") {
+        this.advance();
+        args.push(this.arg());
+      }
+    }
+    const close = this.peek();
+    if (close.type !== "rparen") throw new RuleParseError(close.pos, "',' or ')'", describeToken(close));
+    if (args.length !== arity) {
+      throw new RuleParseError(close.pos, `${arity} argument(s) to ${name.value}()`, `${args.length}`);
     }
+    this.advance();
 
-    if (t.type === "bool") {
-      this.advance();
-      return t.value;
+    if (name.value === "any" || name.value === "all") {
+      if (args[0].kind === "lambda") throw new RuleParseError(name.pos, "list as first argument", "lambda");
+      if (args[1].kind !== "lambda") throw new RuleParseError(name.pos, "lambda (x => ...) as second argument", args[1].kind);
+    } else if (args.some((a) => a.kind === "lambda")) {
+      throw new RuleParseError(name.pos, `non-lambda arguments to ${name.value}()`, "lambda");
     }
+    return { kind: "call", name: name.value, args, pos: name.pos };
+  }
 
-    if (t.type === "ident") {
+  private arg(): RuleExpr {
+    const t = this.peek();
+    if (t.type === "ident" && this.peek(1).type === "arrow") {
+      if (t.value.includes(".")) throw new RuleParseError(t.pos, "lambda parameter name", `'${t.value}'`);
       this.advance();
-      return getByPath(this.ctx, t.value);
+      this.advance();
+      return { kind: "lambda", param: t.value, body: this.orExpr() };
     }
+    return this.orExpr();
+  }
+}
 
-    // Default
-    this.advance();
-    return undefined;
+// Parse a condition string; throws RuleParseError with position and expected token.
+export function parseCondition(condition: string): RuleExpr {
+  return new Parser(tokenize(condition)).parse();
+}
+
+function countNodes(e: RuleExpr): number {
+  switch (e.kind) {
+    case "list":
+      return 1 + e.items.reduce((n, x) => n + countNodes(x), 0);
+    case "unary":
+      return 1 + countNodes(e.arg);
+    case "binary":
+      return 1 + countNodes(e.left) + countNodes(e.right);
+    case "call":
+      return 1 + e.args.reduce((n, x) => n + countNodes(x), 0);
+    case "lambda":
+      return 1 + countNodes(e.body);
+    default:
+      return 1;
   }
+}
 
-  private compare(left: any, op: string, right: any): boolean {
-    switch (op) {
-      case "==":
-        return left === right;
-      case "!=":
-        return left !== right;
-      case ">":
-        return Number(left) > Number(right);
-      case ">=":
-        return Number(left) >= Number(right);
-      case "<":
-        return Number(left) < Number(right);
-      case "<=":
-        return Number(left) <= Number(right);
-      default:
-        return false;
+// Identifiers must be PolicyContext fields (see POLICY_CONTEXT_FIELDS), `metrics.<path>`, or a lambda parameter.
+function unknownIdentifiers(e: RuleExpr, scope: Set<string>, out: Array<{ path: string; pos: number }>) {
+  switch (e.kind) {
+    case "path": {
+      const root = e.path.split(".")[0];
+      if (scope.has(root)) return;
+      const type = fieldType(e.path);
+      if (!type || (type !== "any" && e.path.includes("."))) out.push({ path: e.path, pos: e.pos });
+      return;
     }
+    case "list":
+      e.items.forEach((x) => unknownIdentifiers(x, scope, out));
+      return;
+    case "unary":
+      unknownIdentifiers(e.arg, scope, out);
+      return;
+    case "binary":
+      unknownIdentifiers(e.left, scope, out);
+      unknownIdentifiers(e.right, scope, out);
+      return;
+    case "call":
+      e.args.forEach((x) => unknownIdentifiers(x, scope, out));
+      return;
+    case "lambda":
+      unknownIdentifiers(e.body, new Set([...scope, e.param]), out);
+      return;
   }
 }
 
-// Evaluate a condition expression against context
-export function evaluateCondition(condition: string, ctx: Record<string, any>): boolean {
+// Compile-time check of a condition string: parse errors, size bound and unknown identifiers.
+export function validateCondition(condition: string, path = "condition"): RuleValidationError[] {
+  if (typeof condition !== "string" || !condition.trim()) return [{ path, message: "must be a non-empty string" }];
+
+  let expr: RuleExpr;
   try {
-    const tokens = tokenize(condition);
-    const parser = new Parser(tokens, ctx);
-    return parser.parse();
-  } catch {
-    return false;
+    expr = parseCondition(condition);
+  } catch (e: any) {
+    if (!(e instanceof RuleParseError)) throw e;
+    return [{ path, message: e.message }];
   }
+
+  const errors: RuleValidationError[] = [];
+  const nodes = countNodes(expr);
+  if (nodes > MAX_CONDITION_NODES) errors.push({ path, message: `condition has ${nodes} terms (max ${MAX_CONDITION_NODES})` });
+
+  const unknown: Array<{ path: string; pos: number }> = [];
+  unknownIdentifiers(expr, new Set(), unknown);
+  for (const u of unknown) errors.push({ path, message: `unknown identifier '${u.path}' at position ${u.pos}` });
+  return errors;
+}
+
+const RULE_ACTIONS: PolicyAction[] = ["allow", "warn", "confirm", "block"];
+
+// Validates PolicyConfig.rules. `condition` is only checked for rules without a compiled `match`.
+export function validatePolicyRules(rules: PolicyRule[] | undefined, path = "rules"): RuleValidationError[] {
+  if (rules === undefined || rules === null) return [];
+  if (!Array.isArray(rules)) return [{ path, message: "must be an array" }];
+
+  const errors: RuleValidationError[] = [];
+  rules.forEach((r, i) => {
+    const p = `${path}[${i}]`;
+    if (!r || typeof r !== "object") {
+      errors.push({ path: p, message: "must be an object" });
+      return;
+    }
+    if (typeof r.name !== "string" || !r.name) errors.push({ path: `${p}.name`, message: "must be a non-empty string" });
+    if (!RULE_ACTIONS.includes(r.action)) errors.push({ path: `${p}.action`, message: `must be one of: ${RULE_ACTIONS.join(", ")}` });
+    if (!r.match) errors.push(...validateCondition(r.condition, `${p}.condition`));
+  });
+  return errors;
+}
+
+function compare(left: any, op: string, right: any): boolean {
+  switch (op) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case ">":
+      return Number(left) > Number(right);
+    case ">=":
+      return Number(left) >= Number(right);
+    case "<":
+      return Number(left) < Number(right);
+    case "<=":
+      return Number(left) <= Number(right);
+    default:
+      return false;
+  }
+}
+
+function contains(haystack: any, needle: any): boolean {
+  if (Array.isArray(haystack)) return haystack.includes(needle);
+  if (typeof haystack === "string" && typeof needle === "string") return haystack.includes(needle);
+  return false;
+}
+
+// Lambda parameters shadow context fields of the same name.
+function evalExpr(e: RuleExpr, ctx: Record<string, any>, budget: { steps: number }): any {
+  if (++budget.steps > MAX_EVALUATION_STEPS) {
+    throw new RuleEvaluationError(`Condition exceeded ${MAX_EVALUATION_STEPS} evaluation steps`);
+  }
+  switch (e.kind) {
+    case "literal":
+      return e.value;
+    case "list":
+      return e.items.map((x) => evalExpr(x, ctx, budget));
+    case "path":
+      return getByPath(ctx, e.path);
+    case "unary":
+      return e.op === "!" ? !evalExpr(e.arg, ctx, budget) : -Number(evalExpr(e.arg, ctx, budget));
+    case "binary": {
+      if (e.op === "&&") return Boolean(evalExpr(e.left, ctx, budget)) && Boolean(evalExpr(e.right, ctx, budget));
+      if (e.op === "||") return Boolean(evalExpr(e.left, ctx, budget)) || Boolean(evalExpr(e.right, ctx, budget));
+
+      const l = evalExpr(e.left, ctx, budget);
+      const r = evalExpr(e.right, ctx, budget);
+      switch (e.op) {
+        case "+":
+          return Number(l) + Number(r);
+        case "-":
+          return Number(l) - Number(r);
+        case "*":
+          return Number(l) * Number(r);
+        case "/":
+          return Number(l) / Number(r);
+        case "%":
+          return Number(l) % Number(r);
+        case "in":
+          return contains(r, l);
+        case "not in":
+          // A missing value is neither in nor outside a list.
+          return l !== undefined && l !== null && (Array.isArray(r) || typeof r === "string") && !contains(r, l);
+        case "contains":
+          return contains(l, r);
+        case "startsWith":
+          return typeof l === "string" && typeof r === "string" && l.startsWith(r);
+        case "endsWith":
+          return typeof l === "string" && typeof r === "string" && l.endsWith(r);
+        default:
+          return compare(l, e.op, r);
+      }
+    }
+    case "call": {
+      if (e.name === "len") {
+        const v = evalExpr(e.args[0], ctx, budget);
+        return Array.isArray(v) || typeof v === "string" ? v.length : 0;
+      }
+      const list = evalExpr(e.args[0], ctx, budget);
+      const fn = e.args[1] as Extract<RuleExpr, { kind: "lambda" }>;
+      if (!Array.isArray(list)) return false;
+      const test = (item: any) => Boolean(evalExpr(fn.body, { ...ctx, [fn.param]: item }, budget));
+      // all() over an empty list is vacuously true.
+      return e.name === "any" ? list.some(test) : list.every(test);
+    }
+    case "lambda":
+      return undefined;
+  }
+}
+
+// Evaluate a parsed condition against context
+export function evaluateExpr(expr: RuleExpr, ctx: Record<string, any>): boolean {
+  return Boolean(evalExpr(expr, ctx, { steps: 0 }));
+}
+
+const parsedCache = new Map<string, RuleExpr>();
+
+// Evaluate a condition expression against context.
+// Throws RuleParseError for malformed conditions and RuleEvaluationError when over budget;
+// missing fields simply don't match.
+export function evaluateCondition(condition: string, ctx: Record<string, any>): boolean {
+  let expr = parsedCache.get(condition);
+  if (!expr) {
+    expr = parseCondition(condition);
+    if (parsedCache.size >= 500) parsedCache.clear();
+    parsedCache.set(condition, expr);
+  }
+  return evaluateExpr(expr, ctx);
 }
 
 // Evaluate a single rule against context
+// A rule whose condition does not parse, or exceeds the evaluation budget, fails closed (block)
+// rather than silently not matching. Policies are validated on load (validatePolicyRules), so this is a backstop.
 export function evaluateRule(rule: PolicyRule, ctx: PolicyContext): RuleEvalResult {
-  const matched = evaluateCondition(rule.condition, ctx as Record<string, any>);
+  let matched: boolean;
+  try {
+    matched = rule.match
+      ? evaluateStructuredCondition(rule.match, ctx)
+      : evaluateCondition(rule.condition, ctx as Record<string, any>);
+  } catch (e: any) {
+    if (!(e instanceof RuleParseError) && !(e instanceof RuleEvaluationError)) throw e;
+    return {
+      matched: true,
+      action: "block",
+      message: `Rule '${rule.name}' has an invalid condition: ${e.message}`,
+      ruleName: rule.name,
+    };
+  }
 
   if (matched) {
     return {
@@ -1,4 +1,6 @@
 import type { PolicyConfig } from "./types.js";
+import { validatePolicyRules } from "./rules.js";
+import { compileStructuredRules, validateStructuredRules, type RuleValidationError, type StructuredRuleV1 } from "./structuredRules.js";
 
 export type PolicySpecVersion = 1;
 
@@ -12,12 +14,15 @@ export interface PolicySpecV1 {
   networks: PolicyConfig["networks"];
   transactions: PolicyConfig["transactions"];
   allowlist: PolicyConfig["allowlist"];
+  denylist?: PolicyConfig["denylist"];
 
   /**
-   * Reserved for future structured rules (no code strings).
-   * For now we keep it empty and rely on the existing engine gates.
+   * Structured rules (no code strings), evaluated after the built-in gates.
+   * See StructuredRuleV1 for the format.
    */
-  rules?: Array<Record<string, unknown>>;
+  rules?: StructuredRuleV1[];
+
+  changeControl?: PolicyConfig["changeControl"];
 }
 
 export type PolicySpec = PolicySpecV1;
@@ -30,11 +35,38 @@ export function policyConfigFromSpec(spec: PolicySpec): PolicyConfig {
     networks: spec.networks,
     transactions: spec.transactions,
     allowlist: spec.allowlist,
-    // keep legacy string-rule DSL empty for now
-    rules: [],
+    ...(spec.denylist ? { denylist: spec.denylist } : {}),
+    rules: compileStructuredRules(spec.rules),
+    ...(spec.changeControl ? { changeControl: spec.changeControl } : {}),
   };
 }
 
+// Path-addressed validation errors for the parts of a spec the engine cannot compile.
+export function validatePolicySpec(spec: PolicySpec): RuleValidationError[] {
+  if (spec?.policySpecVersion !== 1) {
+    return [{ path: "policySpecVersion", message: `unsupported version: ${(spec as any)?.policySpecVersion}` }];
+  }
+  const errors = validateStructuredRules(spec.rules);
+  errors.push(...validateChangeControl(spec.changeControl));
+  return errors;
+}
+
+// Same checks for a legacy PolicyConfig, whose rules use `condition` strings.
+export function validatePolicyConfig(cfg: PolicyConfig): RuleValidationError[] {
+  if (!cfg || typeof cfg !== "object") return [{ path: "$", message: "policy must be an object" }];
+  const errors = validatePolicyRules(cfg.rules);
+  errors.push(...validateChangeControl(cfg.changeControl));
+  return errors;
+}
+
+function validateChangeControl(cc: PolicyConfig["changeControl"]): RuleValidationError[] {
+  const delay = cc?.loosenDelaySeconds;
+  if (delay !== undefined && !(typeof delay === "number" && Number.isFinite(delay) && delay >= 0)) {
+    return [{ path: "changeControl.loosenDelaySeconds", message: "must be a non-negative number" }];
+  }
+  return [];
+}
+
 export function defaultPolicySpec(): PolicySpecV1 {
   return {
     policySpecVersion: 1,
@@ -0,0 +1,279 @@
+import type { PolicyAction, PolicyContext, PolicyRule } from "./types.js";
+import { getByPath } from "./contextPath.js";
+
+/**
+ * Structured (code-free) rule format used by PolicySpecV1.rules.
+ *
+ * Example:
+ *   { name: "big_swap", all: [{ field: "amountUsd", op: ">", value: 50 }, { field: "action", op: "==", value: "swap" }], action: "confirm" }
+ *
+ * Missing context fields never match a comparison; use `{ field, op: "exists" }` to test presence.
+ */
+export type RuleOp = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "not_in" | "contains" | "exists";
+
+export type RuleLeaf = { field: string; op: RuleOp; value?: unknown };
+
+export type RuleCondition = { all: RuleCondition[] } | { any: RuleCondition[] } | { not: RuleCondition } | RuleLeaf;
+
+export type StructuredRuleV1 = RuleCondition & {
+  name?: string;
+  action: PolicyAction;
+  message?: string;
+};
+
+export interface RuleValidationError {
+  path: string;
+  message: string;
+}
+
+export type ContextFieldType = "string" | "number" | "boolean" | "string[]" | "any";
+
+// Fields a structured rule may reference (mirrors PolicyContext). `metrics.*` paths are untyped.
+export const POLICY_CONTEXT_FIELDS: Record<string, ContextFieldType> = {
+  chain: "string",
+  network: "string",
+  action: "string",
+  sideEffect: "string",
+  simulationOk: "boolean",
+  amountUsd: "number",
+  slippageBps: "number",
+  simulatedSlippageBps: "number",
+  programIds: "string[]",
+  programIdsKnown: "boolean",
+  tokenMints: "string[]",
+  secondsSinceLastBroadcast: "number",
+  broadcastsLastMinute: "number",
+  volumeUsdLast24h: "number",
+  amountSol: "number",
+  amountLamports: "number",
+  destination: "string",
+  mint: "string",
+  tokenAmount: "number",
+};
+
+const RULE_OPS: RuleOp[] = ["==", "!=", ">", ">=", "<", "<=", "in", "not_in", "contains", "exists"];
+const RULE_ACTIONS: PolicyAction[] = ["allow", "warn", "confirm", "block"];
+const MAX_DEPTH = 16;
+
+export function fieldType(field: string): ContextFieldType | undefined {
+  if (field === "metrics" || field.startsWith("metrics.")) return "any";
+  return POLICY_CONTEXT_FIELDS[field];
+}
+
+function isScalarOf(type: ContextFieldType, v: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof v === "string";
+    case "number":
+      return typeof v === "number" && Number.isFinite(v);
+    case "boolean":
+      return typeof v === "boolean";
+    case "any":
+      return typeof v === "string" || typeof v === "boolean" || (typeof v === "number" && Number.isFinite(v));
+    default:
+      return false;
+  }
+}
+
+function validateLeaf(c: any, path: string, errors: RuleValidationError[]) {
+  if (typeof c.field !== "string" || !c.field) {
+    errors.push({ path: `${path}.field`, message: "must be a non-empty string" });
+    return;
+  }
+  const type = fieldType(c.field);
+  if (!type) {
+    errors.push({ path: `${path}.field`, message: `unknown field '${c.field}'` });
+    return;
+  }
+  if (!RULE_OPS.includes(c.op)) {
+    errors.push({ path: `${path}.op`, message: `must be one of: ${RULE_OPS.join(", ")}` });
+    return;
+  }
+
+  const op = c.op as RuleOp;
+  const value = c.value;
+  const scalarType = type === "string[]" ? "string" : type;
+
+  switch (op) {
+    case "exists":
+      if (value !== undefined && typeof value !== "boolean") {
+        errors.push({ path: `${path}.value`, message: "must be a boolean when present" });
+      }
+      return;
+    case ">":
+    case ">=":
+    case "<":
+    case "<=":
+      if (type !== "number" && type !== "any") {
+        errors.push({ path: `${path}.op`, message: `'${op}' requires a numeric field, '${c.field}' is ${type}` });
+      } else if (!isScalarOf("number", value)) {
+        errors.push({ path: `${path}.value`, message: "must be a finite number" });
+      }
+      return;
+    case "==":
+    case "!=":
+      if (type === "string[]") {
+        errors.push({ path: `${path}.op`, message: `'${op}' is not supported on list field '${c.field}' (use contains)` });
+      } else if (!isScalarOf(type, value)) {
+        errors.push({ path: `${path}.value`, message: `must be a ${type === "any" ? "scalar" : type}` });
+      }
+      return;
+    case "in":
+    case "not_in":
+      if (type === "string[]") {
+        errors.push({ path: `${path}.op`, message: `'${op}' is not supported on list field '${c.field}' (use contains)` });
+      } else if (!Array.isArray(value) || value.length === 0) {
+        errors.push({ path: `${path}.value`, message: "must be a non-empty array" });
+      } else {
+        value.forEach((v: unknown, i: number) => {
+          if (!isScalarOf(scalarType, v)) errors.push({ path: `${path}.value[${i}]`, message: `must be a ${scalarType === "any" ? "scalar" : scalarType}` });
+        });
+      }
+      return;
+    case "contains":
+      if (type !== "string[]" && type !== "any") {
+        errors.push({ path: `${path}.op`, message: `'contains' requires a list field, '${c.field}' is ${type}` });
+      } else if (!isScalarOf(scalarType, value)) {
+        errors.push({ path: `${path}.value`, message: `must be a ${scalarType === "any" ? "scalar" : scalarType}` });
+      }
+      return;
+  }
+}
+
+function validateCondition(c: any, path: string, depth: number, errors: RuleValidationError[]) {
+  if (!c || typeof c !== "object" || Array.isArray(c)) {
+    errors.push({ path, message: "condition must be an object" });
+    return;
+  }
+  if (depth > MAX_DEPTH) {
+    errors.push({ path, message: `condition nested deeper than ${MAX_DEPTH}` });
+    return;
+  }
+
+  const kinds = ["all", "any", "not", "field"].filter((k) => k in c);
+  if (kinds.length !== 1) {
+    errors.push({ path, message: "condition must have exactly one of: all, any, not, field" });
+    return;
+  }
+
+  const kind = kinds[0];
+  if (kind === "all" || kind === "any") {
+    const xs = c[kind];
+    if (!Array.isArray(xs) || xs.length === 0) {
+      errors.push({ path: `${path}.${kind}`, message: "must be a non-empty array" });
+      return;
+    }
+    xs.forEach((x: any, i: number) => validateCondition(x, `${path}.${kind}[${i}]`, depth + 1, errors));
+    return;
+  }
+  if (kind === "not") {
+    validateCondition(c.not, `${path}.not`, depth + 1, errors);
+    return;
+  }
+  validateLeaf(c, path, errors);
+}
+
+export function validateStructuredRules(rules: unknown, basePath = "rules"): RuleValidationError[] {
+  const errors: RuleValidationError[] = [];
+  if (rules === undefined) return errors;
+  if (!Array.isArray(rules)) return [{ path: basePath, message: "must be an array" }];
+
+  const names = new Set<string>();
+  rules.forEach((r: any, i: number) => {
+    const path = `${basePath}[${i}]`;
+    if (!r || typeof r !== "object" || Array.isArray(r)) {
+      errors.push({ path, message: "rule must be an object" });
+      return;
+    }
+    if (!RULE_ACTIONS.includes(r.action)) {
+      errors.push({ path: `${path}.action`, message: `must be one of: ${RULE_ACTIONS.join(", ")}` });
+    }
+    if (r.name !== undefined) {
+      if (typeof r.name !== "string" || !/^[A-Za-z0-9_]+$/.test(r.name)) {
+        errors.push({ path: `${path}.name`, message: "must match [A-Za-z0-9_]+" });
+      } else if (names.has(r.name)) {
+        errors.push({ path: `${path}.name`, message: `duplicate rule name '${r.name}'` });
+      } else {
+        names.add(r.name);
+      }
+    }
+    if (r.message !== undefined && typeof r.message !== "string") {
+      errors.push({ path: `${path}.message`, message: "must be a string" });
+    }
+
+    const { name: _n, action: _a, message: _m, ...cond } = r;
+    validateCondition(cond, path, 0, errors);
+  });
+  return errors;
+}
+
+export function formatPolicyErrors(errors: RuleValidationError[]): string {
+  return errors.map((e) => `${e.path}: ${e.message}`).join("; ");
+}
+
+function conditionOf(rule: StructuredRuleV1): RuleCondition {
+  const { name: _n, action: _a, message: _m, ...cond } = rule as any;
+  return cond as RuleCondition;
+}
+
+// Human-readable rendering, stored as PolicyRule.condition for display/audit.
+export function describeCondition(c: RuleCondition): string {
+  if ("all" in c) return c.all.map((x) => `(${describeCondition(x)})`).join(" && ");
+  if ("any" in c) return c.any.map((x) => `(${describeCondition(x)})`).join(" || ");
+  if ("not" in c) return `!(${describeCondition(c.not)})`;
+  if (c.op === "exists") return c.value === false ? `!exists(${c.field})` : `exists(${c.field})`;
+  return `${c.field} ${c.op} ${JSON.stringify(c.value)}`;
+}
+
+// Throws with every validation error (path: message) if the rules are invalid.
+export function compileStructuredRules(rules: unknown): PolicyRule[] {
+  const errors = validateStructuredRules(rules);
+  if (errors.length) throw new Error(`Invalid policy rules: ${formatPolicyErrors(errors)}`);
+
+  return ((rules as StructuredRuleV1[] | undefined) ?? []).map((r, i) => {
+    const match = conditionOf(r);
+    return {
+      name: r.name ?? `rule_${i}`,
+      condition: describeCondition(match),
+      match,
+      action: r.action,
+      message: r.message,
+    };
+  });
+}
+
+function evaluateLeaf(c: RuleLeaf, ctx: PolicyContext): boolean {
+  const v = getByPath(ctx, c.field);
+  if (c.op === "exists") return (v !== undefined && v !== null) === (c.value !== false);
+  if (v === undefined || v === null) return false;
+
+  switch (c.op) {
+    case "==":
+      return v === c.value;
+    case "!=":
+      return v !== c.value;
+    case ">":
+      return typeof v === "number" && v > (c.value as number);
+    case ">=":
+      return typeof v === "number" && v >= (c.value as number);
+    case "<":
+      return typeof v === "number" && v < (c.value as number);
+    case "<=":
+      return typeof v === "number" && v <= (c.value as number);
+    case "in":
+      return Array.isArray(c.value) && c.value.includes(v);
+    case "not_in":
+      return Array.isArray(c.value) && !c.value.includes(v);
+    case "contains":
+      return Array.isArray(v) && v.includes(c.value);
+    default:
+      return false;
+  }
+}
+
+export function evaluateStructuredCondition(c: RuleCondition, ctx: PolicyContext): boolean {
+  if ("all" in c) return c.all.every((x) => evaluateStructuredCondition(x, ctx));
+  if ("any" in c) return c.any.some((x) => evaluateStructuredCondition(x, ctx));
+  if ("not" in c) return !evaluateStructuredCondition(c.not, ctx);
+  return evaluateLeaf(c, ctx);
+}
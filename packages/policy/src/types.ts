@@ -1,3 +1,6 @@
+import type { RuleCondition } from "./structuredRules.js";
+import type { PolicyChangeControl } from "./changeControl.js";
+
 export type NetworkName = "mainnet" | "testnet";
 
 export type PolicyAction = "allow" | "warn" | "confirm" | "block";
@@ -9,6 +12,8 @@ export interface PolicyConfig {
       requireApproval: boolean;
       requireSimulation: boolean;
       maxDailyVolumeUsd: number;
+      // If enabled, block mainnet broadcasts whose USD size is unknown while the daily budget is set.
+      requireKnownAmountUsd?: boolean;
     };
     testnet: {
       enabled: boolean;
@@ -29,6 +34,11 @@ export interface PolicyConfig {
 
     // If enabled, require a simulation-derived slippage estimate for mainnet swap broadcasts.
     requireSimulatedSlippageOnMainnet?: boolean;
+
+    // Hard per-transfer caps in UI units, keyed by mint ("SOL" for native SOL).
+    maxAmountByMint?: Record<string, number>;
+    // Hard per-transfer caps for specific recipients: destination -> mint -> max UI amount.
+    maxAmountByDestination?: Record<string, Record<string, number>>;
   };
   allowlist: {
     solanaPrograms?: string[];
@@ -36,23 +46,52 @@ export interface PolicyConfig {
     evmContracts?: string[];
     tokenMints?: string[];
     actions?: string[];
+    // Transfer recipients; when set, transfers to any other address are blocked.
+    destinations?: string[];
+  };
+  denylist?: {
+    destinations?: string[];
   };
   rules: PolicyRule[];
+
+  // Not used by the engine; governs how edits to this policy are applied (see changeControl.ts).
+  changeControl?: PolicyChangeControl;
 }
 
 export interface PolicyRule {
   name: string;
-  // MVP: keep as string, but must be sandboxed (TODO). Prefer JSON DSL later.
+  // String grammar from rules.ts; checked on load by validatePolicyRules and evaluated with bounded cost.
   condition: string;
+  // Structured condition compiled from PolicySpecV1.rules; evaluated instead of `condition` when set.
+  match?: RuleCondition;
   action: PolicyAction;
   message?: string;
 }
 
+// "first" stops at the first blocking/confirming gate; "all" walks every gate.
+export type PolicyEvaluationMode = "first" | "all";
+
+export interface PolicyViolation {
+  decision: Exclude<PolicyAction, "allow">;
+  code: string;
+  message: string;
+  confirmationKey?: string;
+  reasons?: string[];
+}
+
+// `violations` is only populated when evaluating with mode "all".
 export type PolicyDecision =
-  | { decision: "allow"; reasons?: string[] }
-  | { decision: "warn"; code: string; message: string; reasons?: string[] }
-  | { decision: "confirm"; code: string; message: string; confirmationKey: string; reasons?: string[] }
-  | { decision: "block"; code: string; message: string; reasons?: string[] };
+  | { decision: "allow"; reasons?: string[]; violations?: PolicyViolation[] }
+  | { decision: "warn"; code: string; message: string; reasons?: string[]; violations?: PolicyViolation[] }
+  | {
+      decision: "confirm";
+      code: string;
+      message: string;
+      confirmationKey: string;
+      reasons?: string[];
+      violations?: PolicyViolation[];
+    }
+  | { decision: "block"; code: string; message: string; reasons?: string[]; violations?: PolicyViolation[] };
 
 export interface PolicyContext {
   chain: string;
@@ -81,7 +120,15 @@ export interface PolicyContext {
   secondsSinceLastBroadcast?: number;
   broadcastsLastMinute?: number;
 
+  // Rolling 24h USD volume already broadcast by the signing wallet (computed by runtime ledger)
+  volumeUsdLast24h?: number;
+
   // Deterministic size context for Solana
   amountSol?: number;
   amountLamports?: number;
+
+  // Transfer context: recipient address, mint ("SOL" for native) and amount in UI units of that mint
+  destination?: string;
+  mint?: string;
+  tokenAmount?: number;
 }
@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import { loosenDelaySeconds, policyLoosenings } from "../src/changeControl.js";
+import type { PolicyConfig } from "../src/types.js";
+
+function baseConfig(): PolicyConfig {
+  return {
+    networks: {
+      mainnet: { enabled: true, requireApproval: true, requireSimulation: true, maxDailyVolumeUsd: 500 },
+      testnet: { enabled: true, requireApproval: false },
+    },
+    transactions: { maxSingleAmountUsd: 100, maxSlippageBps: 100, requireConfirmation: "large", cooldownSeconds: 10 },
+    allowlist: { actions: ["swap", "transfer"], solanaPrograms: ["JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4"] },
+    rules: [{ name: "big", condition: "amountUsd > 50", action: "confirm" }],
+    changeControl: { loosenDelaySeconds: 3600 },
+  };
+}
+
+describe("policyLoosenings", () => {
+  test("tightening edits are not loosenings", () => {
+    const to = baseConfig();
+    to.transactions.maxSingleAmountUsd = 50;
+    to.networks.mainnet.maxDailyVolumeUsd = 100;
+    to.transactions.requireConfirmation = "always";
+    to.transactions.cooldownSeconds = 30;
+    to.allowlist.actions = ["swap"];
+    to.rules.push({ name: "no_evm", condition: "chain == 'evm'", action: "block" });
+    to.changeControl = { loosenDelaySeconds: 7200 };
+
+    expect(policyLoosenings(baseConfig(), to)).toEqual([]);
+  });
+
+  test("reports each loosening by path", () => {
+    const to = baseConfig();
+    to.transactions.maxSingleAmountUsd = 1000;
+    to.networks.mainnet.requireSimulation = false;
+    to.networks.mainnet.maxDailyVolumeUsd = 0;
+    to.transactions.requireConfirmation = "never";
+    delete to.transactions.cooldownSeconds;
+    to.allowlist.actions = ["swap", "transfer", "bridge"];
+    to.allowlist.solanaPrograms = [];
+    to.rules = [];
+    to.changeControl = undefined;
+
+    expect(policyLoosenings(baseConfig(), to).map((l) => l.path)).toEqual([
+      "networks.mainnet.requireSimulation",
+      "networks.mainnet.maxDailyVolumeUsd",
+      "transactions.maxSingleAmountUsd",
+      "transactions.cooldownSeconds",
+      "changeControl.loosenDelaySeconds",
+      "transactions.requireConfirmation",
+      "allowlist.solanaPrograms",
+      "allowlist.actions",
+      "rules.big",
+    ]);
+  });
+
+  test("editing an existing rule counts as loosening", () => {
+    const to = baseConfig();
+    to.rules[0] = { ...to.rules[0], condition: "amountUsd > 5000" };
+    expect(policyLoosenings(baseConfig(), to)).toEqual([
+      { path: "rules.big", from: baseConfig().rules[0], to: to.rules[0], message: "rule big changed" },
+    ]);
+  });
+
+  test("transfer caps and destination lists", () => {
+    const from = baseConfig();
+    from.transactions.maxAmountByMint = { SOL: 2 };
+    from.transactions.maxAmountByDestination = { Dest1: { SOL: 1 } };
+    from.allowlist.destinations = ["Dest1"];
+    from.denylist = { destinations: ["Bad1"] };
+
+    const to = baseConfig();
+    to.transactions.maxAmountByMint = { SOL: 5 };
+    to.transactions.maxAmountByDestination = { Dest1: { SOL: 0.5 } };
+    to.allowlist.destinations = ["Dest1", "Dest2"];
+    to.denylist = { destinations: [] };
+
+    expect(policyLoosenings(from, to).map((l) => l.message)).toEqual([
+      "transactions.maxAmountByMint.SOL raised",
+      "allowlist.destinations adds Dest2",
+      "denylist.destinations drops Bad1",
+    ]);
+  });
+
+  test("loosenDelaySeconds reads the active policy", () => {
+    expect(loosenDelaySeconds(baseConfig())).toBe(3600);
+    expect(loosenDelaySeconds({})).toBe(0);
+    expect(loosenDelaySeconds({ changeControl: { loosenDelaySeconds: -5 } })).toBe(0);
+  });
+});
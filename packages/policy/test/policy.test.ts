@@ -74,4 +74,288 @@ describe("PolicyEngine", () => {
     // @ts-expect-error narrowing
     expect(d.code).toBe("PROGRAM_NOT_ALLOWED");
   });
+
+  test("blocks mainnet broadcast once daily volume budget is exhausted", () => {
+    const e = new PolicyEngine(baseConfig);
+    const d = e.decide({
+      chain: "solana",
+      network: "mainnet",
+      action: "swap",
+      sideEffect: "broadcast",
+      simulationOk: true,
+      programIdsKnown: true,
+      programIds: ["11111111111111111111111111111111"],
+      volumeUsdLast24h: 500,
+    });
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("DAILY_VOLUME_EXHAUSTED");
+  });
+
+  test("blocks when broadcast would push rolling volume over the daily budget", () => {
+    const e = new PolicyEngine(baseConfig);
+    const d = e.decide({
+      chain: "solana",
+      network: "mainnet",
+      action: "swap",
+      sideEffect: "broadcast",
+      simulationOk: true,
+      programIdsKnown: true,
+      programIds: ["11111111111111111111111111111111"],
+      volumeUsdLast24h: 450,
+      amountUsd: 60,
+    });
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("DAILY_VOLUME_EXCEEDED");
+  });
+
+  test("allows broadcast within remaining daily budget", () => {
+    const e = new PolicyEngine(baseConfig);
+    const d = e.decide({
+      chain: "solana",
+      network: "mainnet",
+      action: "swap",
+      sideEffect: "broadcast",
+      simulationOk: true,
+      programIdsKnown: true,
+      programIds: ["11111111111111111111111111111111"],
+      volumeUsdLast24h: 400,
+      amountUsd: 50,
+    });
+    expect(d.decision).toBe("allow");
+  });
+
+  test("does not block a mainnet broadcast of unknown USD size unless requireKnownAmountUsd is set", () => {
+    const unknownSize = {
+      chain: "solana",
+      network: "mainnet",
+      action: "swap",
+      sideEffect: "broadcast",
+      simulationOk: true,
+      programIdsKnown: true,
+      programIds: ["11111111111111111111111111111111"],
+      volumeUsdLast24h: 0,
+    } as const;
+
+    expect(new PolicyEngine(baseConfig).decide(unknownSize).decision).toBe("allow");
+
+    const strict = new PolicyEngine({
+      ...baseConfig,
+      networks: { ...baseConfig.networks, mainnet: { ...baseConfig.networks.mainnet, requireKnownAmountUsd: true } },
+    });
+    const blocked = strict.decide(unknownSize);
+    expect(blocked.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(blocked.code).toBe("DAILY_VOLUME_AMOUNT_UNKNOWN");
+  });
+
+  test("daily volume budget does not apply off mainnet", () => {
+    const e = new PolicyEngine(baseConfig);
+    const d = e.decide({
+      chain: "solana",
+      network: "testnet",
+      action: "swap",
+      sideEffect: "broadcast",
+      programIdsKnown: true,
+      programIds: ["11111111111111111111111111111111"],
+      volumeUsdLast24h: 10_000,
+    });
+    expect(d.decision).toBe("allow");
+  });
+});
+
+describe("PolicyEngine transactions.requireConfirmation", () => {
+  const withMode = (requireConfirmation: PolicyConfig["transactions"]["requireConfirmation"]): PolicyConfig => ({
+    ...baseConfig,
+    transactions: { ...baseConfig.transactions, requireConfirmation },
+  });
+
+  const okBroadcast = {
+    chain: "solana",
+    network: "mainnet" as const,
+    action: "swap",
+    sideEffect: "broadcast" as const,
+    simulationOk: true,
+    programIdsKnown: true,
+    programIds: ["11111111111111111111111111111111"],
+  };
+
+  test("large: confirms oversized amount and allows small broadcasts", () => {
+    const e = new PolicyEngine(withMode("large"));
+    const big = e.decide({ ...okBroadcast, amountUsd: 900 });
+    expect(big.decision).toBe("confirm");
+    // @ts-expect-error narrowing
+    expect(big.code).toBe("AMOUNT_LARGE");
+
+    expect(e.decide({ ...okBroadcast, amountUsd: 10 }).decision).toBe("allow");
+  });
+
+  test("always: forces confirm on every broadcast", () => {
+    const e = new PolicyEngine(withMode("always"));
+    const d = e.decide({ ...okBroadcast, amountUsd: 10 });
+    expect(d.decision).toBe("confirm");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("CONFIRMATION_REQUIRED");
+  });
+
+  test("always: does not affect non-broadcast actions", () => {
+    const e = new PolicyEngine(withMode("always"));
+    const d = e.decide({ ...okBroadcast, sideEffect: "none" });
+    expect(d.decision).toBe("allow");
+  });
+
+  test("always: keeps blocks as blocks", () => {
+    const e = new PolicyEngine(withMode("always"));
+    const d = e.decide({ ...okBroadcast, simulationOk: false });
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("SIMULATION_REQUIRED");
+  });
+
+  test("never: downgrades amount and slippage confirms to warn", () => {
+    const e = new PolicyEngine(withMode("never"));
+    const amount = e.decide({ ...okBroadcast, amountUsd: 900 });
+    expect(amount.decision).toBe("warn");
+    // @ts-expect-error narrowing
+    expect(amount.code).toBe("AMOUNT_LARGE");
+
+    const slip = e.decide({ ...okBroadcast, slippageBps: 300 });
+    expect(slip.decision).toBe("warn");
+    // @ts-expect-error narrowing
+    expect(slip.code).toBe("SLIPPAGE_HIGH");
+  });
+
+  test("never: still respects blocks behind a downgraded limit", () => {
+    const e = new PolicyEngine({
+      ...withMode("never"),
+      rules: [{ name: "no_big", condition: "amountUsd > 800", action: "block" }],
+    });
+    const d = e.decide({ ...okBroadcast, amountUsd: 900 });
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("RULE_NO_BIG");
+  });
+});
+
+describe("PolicyEngine evaluation mode all", () => {
+  const config: PolicyConfig = {
+    ...baseConfig,
+    transactions: { ...baseConfig.transactions, maxSingleAmountUsd: 100 },
+    rules: [{ name: "warn_big", condition: "amountUsd > 50", action: "warn", message: "big" }],
+  };
+
+  const ctx = {
+    chain: "solana",
+    network: "mainnet" as const,
+    action: "swap",
+    sideEffect: "broadcast" as const,
+    simulationOk: true,
+    programIdsKnown: true,
+    programIds: ["11111111111111111111111111111111"],
+    amountUsd: 900,
+    slippageBps: 300,
+  };
+
+  test("first mode reports only the first gate", () => {
+    const d = new PolicyEngine(config).decide(ctx);
+    expect(d.decision).toBe("confirm");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("AMOUNT_LARGE");
+    expect(d.violations).toBeUndefined();
+  });
+
+  test("lists every violation with its code", () => {
+    const d = new PolicyEngine(config).decideAll(ctx);
+    expect(d.decision).toBe("confirm");
+    expect(d.violations?.map((v) => v.code)).toEqual(["AMOUNT_LARGE", "SLIPPAGE_HIGH", "RULE_WARN_BIG"]);
+    expect(d.violations?.every((v) => (v.reasons ?? []).length > 0)).toBe(true);
+  });
+
+  test("aggregated decision takes the most severe action", () => {
+    const d = new PolicyEngine(config).decide(
+      { ...ctx, simulationOk: false, programIds: ["BadProgram111111111111111111111111111111111"] },
+      { mode: "all" }
+    );
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("SIMULATION_REQUIRED");
+    expect(d.violations?.map((v) => v.code)).toEqual([
+      "SIMULATION_REQUIRED",
+      "PROGRAM_NOT_ALLOWED",
+      "AMOUNT_LARGE",
+      "SLIPPAGE_HIGH",
+      "RULE_WARN_BIG",
+    ]);
+  });
+
+  test("allow carries an empty violation list", () => {
+    const d = new PolicyEngine(config).decideAll({ ...ctx, amountUsd: 10, slippageBps: 10 });
+    expect(d.decision).toBe("allow");
+    expect(d.violations).toEqual([]);
+  });
+});
+
+describe("PolicyEngine transfer destinations and per-mint caps", () => {
+  const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+  const TREASURY = "Treasury11111111111111111111111111111111111";
+  const EXCHANGE = "Exchange11111111111111111111111111111111111";
+
+  const config: PolicyConfig = {
+    ...baseConfig,
+    transactions: {
+      ...baseConfig.transactions,
+      maxAmountByMint: { SOL: 2, [USDC]: 500 },
+      maxAmountByDestination: { [EXCHANGE]: { [USDC]: 100 } },
+    },
+    allowlist: { actions: ["transfer"], destinations: [TREASURY, EXCHANGE] },
+    denylist: { destinations: ["Scam111111111111111111111111111111111111111"] },
+  };
+
+  const ctx = {
+    chain: "solana",
+    network: "testnet" as const,
+    action: "transfer",
+    sideEffect: "none" as const,
+    destination: TREASURY,
+    mint: USDC,
+    tokenAmount: 400,
+  };
+
+  const code = (d: any) => (d.decision === "allow" ? "allow" : d.code);
+
+  test("allows transfers within caps to allowlisted destinations", () => {
+    expect(new PolicyEngine(config).decide(ctx).decision).toBe("allow");
+  });
+
+  test("blocks per-mint and per-destination cap overruns", () => {
+    const e = new PolicyEngine(config);
+    expect(code(e.decide({ ...ctx, tokenAmount: 501 }))).toBe("MINT_AMOUNT_EXCEEDED");
+    expect(code(e.decide({ ...ctx, mint: "SOL", tokenAmount: 2.5 }))).toBe("MINT_AMOUNT_EXCEEDED");
+    expect(code(e.decide({ ...ctx, destination: EXCHANGE, tokenAmount: 150 }))).toBe("DESTINATION_AMOUNT_EXCEEDED");
+    expect(code(e.decide({ ...ctx, destination: EXCHANGE, tokenAmount: 90 }))).toBe("allow");
+  });
+
+  test("enforces destination allow and deny lists", () => {
+    const e = new PolicyEngine(config);
+    expect(code(e.decide({ ...ctx, destination: "Scam111111111111111111111111111111111111111" }))).toBe("DESTINATION_DENIED");
+    expect(code(e.decide({ ...ctx, destination: "Other11111111111111111111111111111111111111" }))).toBe("DESTINATION_NOT_ALLOWED");
+    expect(code(e.decide({ ...ctx, destination: undefined }))).toBe("DESTINATION_UNKNOWN");
+  });
+
+  test("caps are hard limits even when confirmation is disabled", () => {
+    const e = new PolicyEngine({ ...config, transactions: { ...config.transactions, requireConfirmation: "never" } });
+    expect(e.decide({ ...ctx, tokenAmount: 600 }).decision).toBe("block");
+  });
+
+  test("decideTransfer applies only the transfer gates", () => {
+    const e = new PolicyEngine({ ...config, allowlist: { ...config.allowlist, solanaPrograms: ["11111111111111111111111111111111"] } });
+    // program ids are not known before the transaction is built
+    expect(code(e.decide(ctx))).toBe("PROGRAMS_UNKNOWN");
+    expect(code(e.decideTransfer(ctx))).toBe("allow");
+    expect(code(e.decideTransfer({ ...ctx, tokenAmount: 501 }))).toBe("MINT_AMOUNT_EXCEEDED");
+
+    const all = e.decideTransfer({ ...ctx, destination: EXCHANGE, tokenAmount: 501 }, { mode: "all" });
+    expect(all.violations?.map((v) => v.code)).toEqual(["MINT_AMOUNT_EXCEEDED", "DESTINATION_AMOUNT_EXCEEDED"]);
+  });
 });
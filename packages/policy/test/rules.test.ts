@@ -1,5 +1,14 @@
 import { describe, test, expect } from "bun:test";
-import { evaluateCondition, evaluateRule, evaluateRules } from "../src/rules.js";
+import {
+  evaluateCondition,
+  evaluateRule,
+  evaluateRules,
+  parseCondition,
+  RuleEvaluationError,
+  RuleParseError,
+  validateCondition,
+  validatePolicyRules,
+} from "../src/rules.js";
 import type { PolicyRule, PolicyContext } from "../src/types.js";
 
 describe("evaluateCondition", () => {
@@ -69,6 +78,71 @@ describe("evaluateCondition", () => {
   });
 });
 
+describe("evaluateCondition extended grammar", () => {
+  const stables = '["EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"]';
+
+  test("in / not in lists", () => {
+    expect(evaluateCondition("action in ['swap', 'transfer']", { action: "swap" })).toBe(true);
+    expect(evaluateCondition("action not in ['swap', 'transfer']", { action: "swap" })).toBe(false);
+    expect(evaluateCondition("action not in ['swap']", { action: "quote" })).toBe(true);
+    expect(evaluateCondition("missing not in ['swap']", {})).toBe(false);
+  });
+
+  test("contains / startsWith", () => {
+    expect(evaluateCondition("programIds contains 'abc'", { programIds: ["abc", "def"] })).toBe(true);
+    expect(evaluateCondition("programIds contains 'xyz'", { programIds: ["abc"] })).toBe(false);
+    expect(evaluateCondition("mint startsWith 'Es9'", { mint: "Es9vMFrz" })).toBe(true);
+    expect(evaluateCondition("mint startsWith 'Es9'", {})).toBe(false);
+  });
+
+  test("arithmetic with precedence", () => {
+    expect(evaluateCondition("amountUsd * 2 > limit", { amountUsd: 60, limit: 100 })).toBe(true);
+    expect(evaluateCondition("a + b * 2 == 7", { a: 1, b: 3 })).toBe(true);
+    expect(evaluateCondition("(a + b) * 2 == 8", { a: 1, b: 3 })).toBe(true);
+    expect(evaluateCondition("a - 1 == -2", { a: -1 })).toBe(true);
+    expect(evaluateCondition("a % 3 == 1", { a: 10 })).toBe(true);
+  });
+
+  test("len()", () => {
+    expect(evaluateCondition("len(programIds) > 2", { programIds: ["a", "b", "c"] })).toBe(true);
+    expect(evaluateCondition("len(programIds) == 0", {})).toBe(true);
+  });
+
+  test("any() / all() with lambdas", () => {
+    const ctx = { tokenMints: ["EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", "So11111111111111111111111111111111111111112"] };
+    expect(evaluateCondition(`any(tokenMints, m => m not in ${stables})`, ctx)).toBe(true);
+    expect(evaluateCondition(`all(tokenMints, m => m in ${stables})`, ctx)).toBe(false);
+    expect(evaluateCondition("any(tokenMints, m => m == 'nope')", ctx)).toBe(false);
+    expect(evaluateCondition("any(pools, p => p.tvl < limit)", { pools: [{ tvl: 5 }, { tvl: 50 }], limit: 10 })).toBe(true);
+  });
+
+  test("parse errors report position and expected token", () => {
+    const cases: Array<[string, number, string]> = [
+      ["amount > ", 9, "value, identifier or '('"],
+      ["(amount > 1", 11, "')'"],
+      ["amount > 1 1", 11, "end of expression"],
+      ["action in ['a' 'b']", 15, "',' or ']'"],
+      ["size(x) > 1", 0, "one of len, any, all"],
+      ["any(xs) ", 6, "2 argument(s) to any()"],
+      ["any(xs, 1)", 0, "lambda (x => ...) as second argument"],
+      ["amount $ 3", 7, "expression"],
+      ["name == 'abc", 12, "closing '"],
+    ];
+    for (const [expr, position, expected] of cases) {
+      let err: unknown;
+      try {
+        parseCondition(expr);
+      } catch (e) {
+        err = e;
+      }
+      expect(err).toBeInstanceOf(RuleParseError);
+      expect((err as RuleParseError).position).toBe(position);
+      expect((err as RuleParseError).expected).toBe(expected);
+    }
+    expect(() => evaluateCondition("amount >", { amount: 1 })).toThrow("Parse error at position 8: expected value, identifier or '(' but found end of input");
+  });
+});
+
 describe("evaluateRule", () => {
   test("matches rule and returns action", () => {
     const rule: PolicyRule = {
@@ -87,6 +161,15 @@ describe("evaluateRule", () => {
     expect(result.ruleName).toBe("large_amount");
   });
 
+  test("invalid condition fails closed", () => {
+    const rule: PolicyRule = { name: "broken", condition: "amountUsd >", action: "warn" };
+    const result = evaluateRule(rule, { amountUsd: 1 } as any as PolicyContext);
+
+    expect(result.matched).toBe(true);
+    expect(result.action).toBe("block");
+    expect(result.message).toContain("Rule 'broken' has an invalid condition: Parse error at position 11");
+  });
+
   test("does not match rule", () => {
     const rule: PolicyRule = {
       name: "large_amount",
@@ -147,3 +230,50 @@ describe("evaluateRules", () => {
     expect(result).toBe(null);
   });
 });
+
+describe("condition validation and sandboxing", () => {
+  test("reports unknown identifiers with their position", () => {
+    expect(validateCondition("amountUSD > 5 && chain == 'solana'")).toEqual([
+      { path: "condition", message: "unknown identifier 'amountUSD' at position 0" },
+    ]);
+    expect(validateCondition("amountUsd.value > 5")[0].message).toContain("unknown identifier 'amountUsd.value'");
+  });
+
+  test("accepts context fields, metrics paths and lambda parameters", () => {
+    expect(validateCondition("metrics.solend_main.borrow_utilization_bps > 9000")).toEqual([]);
+    expect(validateCondition("any(tokenMints, m => m.length > 0 && m != mint)")).toEqual([]);
+    expect(validateCondition("any(tokenMints, m => x == m)")[0].message).toContain("'x'");
+  });
+
+  test("bounds nesting depth at parse time", () => {
+    const deep = "(".repeat(40) + "amountUsd > 1" + ")".repeat(40);
+    expect(() => parseCondition(deep)).toThrow(RuleParseError);
+    expect(validateCondition(deep)[0].message).toContain("levels of nesting");
+  });
+
+  test("validatePolicyRules addresses errors by rule path", () => {
+    const errors = validatePolicyRules([
+      { name: "ok", condition: "amountUsd > 1", action: "warn" },
+      { name: "bad", condition: "amountUsd >", action: "explode" as any },
+    ]);
+    expect(errors.map((e) => e.path)).toEqual(["rules[1].action", "rules[1].condition"]);
+    expect(errors[1].message).toContain("Parse error at position 11");
+  });
+
+  test("evaluation is bounded and fails closed when over budget", () => {
+    const ctx = { programIds: Array.from({ length: 40 }, (_, i) => `p${i}`) };
+    const condition = "any(programIds, a => any(programIds, b => any(programIds, c => a == b && b == c && c == 'none')))";
+    expect(() => evaluateCondition(condition, ctx)).toThrow(RuleEvaluationError);
+
+    const result = evaluateRule({ name: "costly", condition, action: "warn" }, ctx as any as PolicyContext);
+    expect(result.action).toBe("block");
+    expect(result.message).toContain("evaluation steps");
+  });
+
+  test("conditions cannot read inherited properties", () => {
+    expect(evaluateCondition("constructor.name == 'Object'", {})).toBe(false);
+    expect(evaluateCondition("action.constructor.name == 'String'", { action: "swap" })).toBe(false);
+    expect(evaluateCondition("metrics.__proto__.constructor.name == 'Object'", { metrics: {} })).toBe(false);
+    expect(evaluateCondition("metrics.a.b == 1", { metrics: { a: { b: 1 } } })).toBe(true);
+  });
+});
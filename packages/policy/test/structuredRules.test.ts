@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import {
+  compileStructuredRules,
+  evaluateStructuredCondition,
+  validateStructuredRules,
+} from "../src/structuredRules.js";
+import { PolicyEngine } from "../src/engine.js";
+import { defaultPolicySpec, policyConfigFromSpec, validatePolicySpec } from "../src/spec.js";
+import type { PolicyContext } from "../src/types.js";
+
+const ctx: PolicyContext = {
+  chain: "solana",
+  network: "testnet",
+  action: "swap",
+  sideEffect: "broadcast",
+  amountUsd: 120,
+  tokenMints: ["So11111111111111111111111111111111111111112"],
+  metrics: { meteora_dlmm_sol_usdc: { liquidity_usd: 250_000 } },
+};
+
+describe("validateStructuredRules", () => {
+  test("accepts a valid nested rule", () => {
+    const errors = validateStructuredRules([
+      {
+        name: "big_swap",
+        all: [
+          { field: "amountUsd", op: ">", value: 50 },
+          { any: [{ field: "action", op: "in", value: ["swap", "transfer"] }, { not: { field: "simulationOk", op: "exists" } }] },
+        ],
+        action: "confirm",
+      },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  test("reports errors with paths", () => {
+    const errors = validateStructuredRules([
+      { all: [{ field: "amountUsd", op: ">", value: "50" }, { field: "nope", op: "==", value: 1 }], action: "confirm" },
+      { field: "chain", op: "<", value: 3, action: "explode" },
+      { field: "programIds", op: "==", value: "x", action: "block" },
+    ]);
+    expect(errors).toEqual([
+      { path: "rules[0].all[0].value", message: "must be a finite number" },
+      { path: "rules[0].all[1].field", message: "unknown field 'nope'" },
+      { path: "rules[1].action", message: "must be one of: allow, warn, confirm, block" },
+      { path: "rules[1].op", message: "'<' requires a numeric field, 'chain' is string" },
+      { path: "rules[2].op", message: "'==' is not supported on list field 'programIds' (use contains)" },
+    ]);
+  });
+
+  test("rejects rules without exactly one condition kind", () => {
+    const errors = validateStructuredRules([{ action: "block" }, { all: [], any: [], action: "block" }]);
+    expect(errors.map((e) => e.path)).toEqual(["rules[0]", "rules[1]"]);
+  });
+});
+
+describe("evaluateStructuredCondition", () => {
+  test("comparisons, membership and list contains", () => {
+    expect(evaluateStructuredCondition({ field: "amountUsd", op: ">", value: 100 }, ctx)).toBe(true);
+    expect(evaluateStructuredCondition({ field: "action", op: "not_in", value: ["swap"] }, ctx)).toBe(false);
+    expect(
+      evaluateStructuredCondition({ field: "tokenMints", op: "contains", value: "So11111111111111111111111111111111111111112" }, ctx)
+    ).toBe(true);
+  });
+
+  test("metrics paths and missing fields", () => {
+    expect(evaluateStructuredCondition({ field: "metrics.meteora_dlmm_sol_usdc.liquidity_usd", op: "<", value: 500_000 }, ctx)).toBe(true);
+    expect(evaluateStructuredCondition({ field: "slippageBps", op: "<", value: 10 }, ctx)).toBe(false);
+    expect(evaluateStructuredCondition({ field: "slippageBps", op: "exists", value: false }, ctx)).toBe(true);
+  });
+
+  test("cannot read prototype properties", () => {
+    expect(evaluateStructuredCondition({ field: "metrics.constructor.name", op: "==", value: "Object" }, ctx)).toBe(false);
+    expect(evaluateStructuredCondition({ field: "metrics.__proto__", op: "exists" }, ctx)).toBe(false);
+    expect(evaluateStructuredCondition({ field: "metrics.toString", op: "exists" }, ctx)).toBe(false);
+  });
+
+  test("all / any / not", () => {
+    expect(
+      evaluateStructuredCondition(
+        { all: [{ field: "chain", op: "==", value: "solana" }, { not: { field: "amountUsd", op: "<", value: 10 } }] },
+        ctx
+      )
+    ).toBe(true);
+    expect(
+      evaluateStructuredCondition({ any: [{ field: "chain", op: "==", value: "evm" }, { field: "amountUsd", op: ">", value: 1000 }] }, ctx)
+    ).toBe(false);
+  });
+});
+
+describe("PolicySpecV1.rules", () => {
+  test("compiles into engine rules", () => {
+    const spec = defaultPolicySpec();
+    spec.allowlist = {};
+    spec.rules = [{ name: "big_swap", all: [{ field: "amountUsd", op: ">", value: 50 }], action: "block", message: "too big" }];
+
+    const d = new PolicyEngine(policyConfigFromSpec(spec)).decide({ ...ctx, amountUsd: 80 });
+    expect(d.decision).toBe("block");
+    // @ts-expect-error narrowing
+    expect(d.code).toBe("RULE_BIG_SWAP");
+    // @ts-expect-error narrowing
+    expect(d.message).toBe("too big");
+  });
+
+  test("round-trips through JSON serialization", () => {
+    const spec = defaultPolicySpec();
+    spec.rules = [{ field: "amountUsd", op: ">=", value: 10, action: "warn" }];
+    const again = JSON.parse(JSON.stringify(spec));
+    expect(again).toEqual(spec);
+
+    const [rule] = policyConfigFromSpec(again).rules;
+    expect(rule.name).toBe("rule_0");
+    expect(rule.condition).toBe("amountUsd >= 10");
+  });
+
+  test("invalid rules are refused with paths", () => {
+    const spec = defaultPolicySpec();
+    spec.rules = [{ field: "amountUsd", op: ">", value: "a lot", action: "block" } as any];
+    expect(validatePolicySpec(spec)).toEqual([{ path: "rules[0].value", message: "must be a finite number" }]);
+    expect(() => policyConfigFromSpec(spec)).toThrow("rules[0].value: must be a finite number");
+    expect(() => compileStructuredRules("nope")).toThrow("rules: must be an array");
+  });
+});
@@ -0,0 +1,176 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { withFileLock, writeFileAtomic } from "./fileLock.js";
+
+// Out-of-band approvals for engine runs (daemon, scheduler): an approval stage with no in-process approver parks
+// the run in `needs_approval` and records a request here; `w3rt approve` or POST /v1/approvals/decide grants or
+// denies it, and the waiting run picks the decision up. Requests past `approval.timeout` expire.
+//
+// approvals.json is shared by the daemon, `w3rt approve` and every waiting run, so changes go through
+// `updateApprovals`, which holds a lock file for the read-modify-write. A parked run lives only in the process that
+// started it: once that process is gone (e.g. the daemon restarted) its request is closed as cancelled.
+
+export type ApprovalStatus = "pending" | "approved" | "denied" | "expired" | "cancelled";
+
+export type ApprovalRequest = {
+  runId: string;
+  stage: string;
+  workflow: string;
+  requestedAt: number;
+  expiresAt?: number;
+  status: ApprovalStatus;
+  resolvedAt?: number;
+  // who decided, e.g. "cli" or "daemon"
+  by?: string;
+  reason?: string;
+  // process of the waiting run
+  pid?: number;
+};
+
+export type ApprovalState = { approvals: ApprovalRequest[] };
+
+const MAX_RESOLVED = 200;
+const POLL_MS = 500;
+
+export function approvalsPath(w3rtDir: string) {
+  return join(w3rtDir, "approvals.json");
+}
+
+export function loadApprovals(statePath: string): ApprovalState {
+  try {
+    const j = JSON.parse(readFileSync(statePath, "utf-8"));
+    const approvals = Array.isArray(j?.approvals)
+      ? j.approvals.filter((a: any) => typeof a?.runId === "string" && typeof a?.stage === "string" && typeof a?.status === "string")
+      : [];
+    return { approvals };
+  } catch {
+    return { approvals: [] };
+  }
+}
+
+// Keeps every pending request plus the most recent resolved ones (audit trail). Written to a temp file and renamed,
+// so readers never see a half-written file.
+export function saveApprovals(statePath: string, st: ApprovalState) {
+  const pending = st.approvals.filter((a) => a.status === "pending");
+  const resolved = st.approvals.filter((a) => a.status !== "pending").slice(-MAX_RESOLVED);
+  writeFileAtomic(statePath, JSON.stringify({ approvals: [...resolved, ...pending] }, null, 2));
+}
+
+function processAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM: it exists but belongs to someone else
+    return e?.code === "EPERM";
+  }
+}
+
+// Pending requests whose run's process has exited; nothing is waiting for their decision any more.
+function orphaned(a: ApprovalRequest) {
+  return a.status === "pending" && a.pid !== undefined && a.pid !== process.pid && !processAlive(a.pid);
+}
+
+// Cancels orphaned requests. `startup` also cancels those recorded under this process's id, which a restarted
+// process can be given again (e.g. pid 1 in a container) before it has parked any run of its own.
+export function cancelOrphanedApprovals(st: ApprovalState, nowMs = Date.now(), opts: { startup?: boolean } = {}): ApprovalRequest[] {
+  const gone = st.approvals.filter((a) => orphaned(a) || (opts.startup && a.status === "pending" && a.pid === process.pid));
+  for (const a of gone) resolveApproval(a, "cancelled", nowMs, { reason: "run process exited" });
+  return gone;
+}
+
+// Loads, changes and saves the state under the lock, cancelling orphaned requests first. The changes of `fn` are not
+// saved if it throws.
+export function updateApprovals<T>(statePath: string, fn: (st: ApprovalState) => T, nowMs = Date.now()): T {
+  return withFileLock(`${statePath}.lock`, () => {
+    const st = loadApprovals(statePath);
+    if (cancelOrphanedApprovals(st, nowMs).length) saveApprovals(statePath, st);
+    const out = fn(st);
+    saveApprovals(statePath, st);
+    return out;
+  });
+}
+
+export function findApproval(st: ApprovalState, runId: string, stage: string): ApprovalRequest | undefined {
+  return st.approvals.filter((a) => a.runId === runId && a.stage === stage).pop();
+}
+
+// Pending requests that have not expired yet and still have a run waiting, oldest first.
+export function listPendingApprovals(st: ApprovalState, nowMs = Date.now()): ApprovalRequest[] {
+  return st.approvals
+    .filter((a) => a.status === "pending" && (a.expiresAt === undefined || a.expiresAt > nowMs) && !orphaned(a))
+    .sort((a, b) => a.requestedAt - b.requestedAt);
+}
+
+export function requestApproval(
+  st: ApprovalState,
+  req: Pick<ApprovalRequest, "runId" | "stage" | "workflow" | "expiresAt">,
+  nowMs = Date.now()
+): ApprovalRequest {
+  const a: ApprovalRequest = { ...req, requestedAt: nowMs, status: "pending", pid: process.pid };
+  st.approvals.push(a);
+  return a;
+}
+
+// Grants or denies a pending request; throws if there is none or it already expired.
+export function decideApproval(
+  st: ApprovalState,
+  runId: string,
+  stage: string,
+  decision: { approved: boolean; by: string; reason?: string },
+  nowMs = Date.now()
+): ApprovalRequest {
+  const a = findApproval(st, runId, stage);
+  if (!a) throw new Error(`No approval requested for stage '${stage}' of run ${runId}`);
+  if (a.status === "pending" && a.expiresAt !== undefined && a.expiresAt <= nowMs) {
+    throw new Error(`Approval for stage '${stage}' of run ${runId} expired`);
+  }
+  if (a.status !== "pending") throw new Error(`Approval for stage '${stage}' of run ${runId} is already ${a.status}`);
+  resolveApproval(a, decision.approved ? "approved" : "denied", nowMs, decision);
+  return a;
+}
+
+export function resolveApproval(
+  a: ApprovalRequest,
+  status: Exclude<ApprovalStatus, "pending">,
+  nowMs = Date.now(),
+  opts: { by?: string; reason?: string } = {}
+) {
+  a.status = status;
+  a.resolvedAt = nowMs;
+  if (opts.by) a.by = opts.by;
+  if (opts.reason) a.reason = opts.reason;
+}
+
+// Polls the state file until the request is decided. Rejects with the signal's reason when it aborts
+// (the engine aborts the run when `approval.timeout` passes).
+export function waitForApproval(
+  statePath: string,
+  runId: string,
+  stage: string,
+  signal: AbortSignal,
+  pollMs = POLL_MS
+): Promise<ApprovalRequest> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const check = () => {
+      const a = findApproval(loadApprovals(statePath), runId, stage);
+      if (a && a.status !== "pending") {
+        done();
+        resolve(a);
+      }
+    };
+    const onAbort = () => {
+      done();
+      reject(signal.reason);
+    };
+    const timer = setInterval(check, pollMs);
+    const done = () => {
+      clearInterval(timer);
+      signal.removeEventListener("abort", onAbort);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    check();
+  });
+}
@@ -0,0 +1,30 @@
+import { join } from "node:path";
+import os from "node:os";
+
+import { approvalsPath, decideApproval, listPendingApprovals, loadApprovals, updateApprovals, type ApprovalRequest } from "./approvals.js";
+
+function w3rtDir() {
+  return process.env.W3RT_DIR || join(os.homedir(), ".w3rt");
+}
+
+export function approvalList(): ApprovalRequest[] {
+  const approvals = listPendingApprovals(loadApprovals(approvalsPath(w3rtDir())));
+  if (!approvals.length) {
+    console.log("No runs waiting for approval.");
+    return approvals;
+  }
+  for (const a of approvals) {
+    const expires = a.expiresAt !== undefined ? `expires ${new Date(a.expiresAt).toISOString()}` : "no timeout";
+    console.log(`${a.runId}  ${a.stage}  ${a.workflow}  requested ${new Date(a.requestedAt).toISOString()}  ${expires}`);
+  }
+  return approvals;
+}
+
+// Grants (or with `deny`, rejects) a parked run's approval stage; the waiting run picks it up.
+export function approveRun(runId: string, stage: string, opts: { deny?: boolean; reason?: string } = {}): ApprovalRequest {
+  const a = updateApprovals(approvalsPath(w3rtDir()), (st) =>
+    decideApproval(st, runId, stage, { approved: !opts.deny, by: "cli", reason: opts.reason })
+  );
+  console.log(`${a.status} ${a.stage} of run ${a.runId}`);
+  return a;
+}
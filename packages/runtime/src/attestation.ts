@@ -0,0 +1,46 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import crypto from "node:crypto";
+
+// Runtime attestation key: an ed25519 key that signs what the runtime records about its runs (memory records).
+// It is deliberately not the trading keypair, so attestations can be verified and the key rotated without touching
+// funds. Created on first use as PKCS8 PEM in ~/.w3rt/attestation_key.pem (override with W3RT_ATTESTATION_KEY_PATH).
+
+export const ATTESTATION_ALG = "ed25519" as const;
+
+export function attestationKeyPath(w3rtDir: string) {
+  return process.env.W3RT_ATTESTATION_KEY_PATH || join(w3rtDir, "attestation_key.pem");
+}
+
+export function loadAttestationKey(w3rtDir: string): crypto.KeyObject {
+  const p = attestationKeyPath(w3rtDir);
+  if (!existsSync(p)) {
+    const { privateKey } = crypto.generateKeyPairSync("ed25519");
+    mkdirSync(dirname(p), { recursive: true });
+    writeFileSync(p, privateKey.export({ type: "pkcs8", format: "pem" }), { mode: 0o600 });
+  }
+  const key = crypto.createPrivateKey(readFileSync(p, "utf-8"));
+  if (key.asymmetricKeyType !== "ed25519") throw new Error(`Attestation key ${p} is not an ed25519 key`);
+  return key;
+}
+
+// Raw 32-byte public key, hex.
+export function attestationPublicKeyHex(key: crypto.KeyObject): string {
+  const jwk = crypto.createPublicKey(key).export({ format: "jwk" });
+  return Buffer.from(String(jwk.x), "base64url").toString("hex");
+}
+
+export function signAttestation(key: crypto.KeyObject, message: string): string {
+  return crypto.sign(null, Buffer.from(message), key).toString("hex");
+}
+
+// False for a wrong signature; throws only on a malformed public key.
+export function verifyAttestation(publicKeyHex: string, message: string, signatureHex: string): boolean {
+  if (!/^[0-9a-f]{64}$/i.test(publicKeyHex)) throw new Error("public key must be 32 bytes of hex");
+  const publicKey = crypto.createPublicKey({
+    key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKeyHex, "hex").toString("base64url") },
+    format: "jwk",
+  });
+  if (!/^[0-9a-f]{128}$/i.test(signatureHex)) return false;
+  return crypto.verify(null, Buffer.from(message), publicKey, Buffer.from(signatureHex, "hex"));
+}
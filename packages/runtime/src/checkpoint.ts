@@ -0,0 +1,86 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import crypto from "node:crypto";
+
+// Durable run checkpoints for `w3rt resume`. Written to runs/<runId>/checkpoint.json after every completed action,
+// so a run that dies part-way can continue from where it stopped instead of starting over.
+//
+// `completed` holds action keys (`<stepId>#<index>`, e.g. "execute#0" or "poll[2]#0"); a resumed run skips those
+// and starts from the restored context. Before a broadcast the action is recorded as `pending`, with the
+// transaction id when the tool can compute it up front; on resume a pending broadcast is looked up on chain
+// rather than sent again. A `use` action is the unit of resumption: a sub-workflow that did not finish runs again
+// from its start, so the results of broadcasts it already made are kept in `sent` and reused instead of re-sent.
+
+export type RunStatus = "running" | "failed" | "finished";
+
+export type PendingBroadcast = {
+  key: string;
+  tool: string;
+  // e.g. the Solana signature of the transaction about to be sent
+  txId?: string;
+  ts: number;
+};
+
+export type RunCheckpoint = {
+  version: 1;
+  runId: string;
+  workflowPath: string;
+  // sha256 of the workflow file; resuming against a changed file is refused
+  workflowSha256: string;
+  inputs: Record<string, unknown>;
+  status: RunStatus;
+  completed: string[];
+  // `when` outcomes by step id, so a resumed run takes the same branches
+  decisions: Record<string, boolean>;
+  pending?: PendingBroadcast;
+  // results of finished broadcast actions by key, including those inside sub-workflows ("prepare#0/execute#0")
+  sent: Record<string, unknown>;
+  // run context without `__` keys
+  ctx: Record<string, any>;
+  // tool results the broadcast policy gate reads (see policyInputs.ts)
+  policyInputs?: Record<string, any>;
+  error?: string;
+  updatedAt: number;
+};
+
+export function checkpointPath(w3rtDir: string, runId: string) {
+  return join(w3rtDir, "runs", runId, "checkpoint.json");
+}
+
+// `approval` marks a granted approval stage, so a resumed run does not ask again.
+export function actionKey(stepId: string, index: number | "approval") {
+  return `${stepId}#${index}`;
+}
+
+export function fileSha256(path: string) {
+  return crypto.createHash("sha256").update(readFileSync(path)).digest("hex");
+}
+
+export function loadCheckpoint(w3rtDir: string, runId: string): RunCheckpoint | null {
+  const p = checkpointPath(w3rtDir, runId);
+  if (!existsSync(p)) return null;
+  const j = JSON.parse(readFileSync(p, "utf-8"));
+  if (j?.version !== 1 || !Array.isArray(j.completed) || !j.sent || typeof j.workflowPath !== "string") {
+    throw new Error(`Invalid checkpoint: ${p}`);
+  }
+  return j as RunCheckpoint;
+}
+
+// Written to a temp file and renamed, so a crash mid-write leaves the previous checkpoint intact.
+export function saveCheckpoint(w3rtDir: string, cp: RunCheckpoint) {
+  const p = checkpointPath(w3rtDir, cp.runId);
+  mkdirSync(dirname(p), { recursive: true });
+  cp.updatedAt = Date.now();
+  writeFileSync(`${p}.tmp`, JSON.stringify(cp, null, 2));
+  renameSync(`${p}.tmp`, p);
+}
+
+// The part of a run context that survives a restart: no `__` keys (host handles, signals, policy engines).
+export function checkpointContext(ctx: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(ctx)) {
+    if (k.startsWith("__") || typeof v === "function") continue;
+    out[k] = v;
+  }
+  return JSON.parse(JSON.stringify(out, (_k, v) => (typeof v === "bigint" ? v.toString() : v)));
+}
@@ -4,10 +4,21 @@ import { readFileSync } from "node:fs";
 import { join, resolve } from "node:path";
 import readline from "node:readline";
 
-import { runWorkflowFromFile } from "./run.js";
-import { printRunTrace } from "./trace_cmd.js";
+import { resumeWorkflowRun, runWorkflowFromFile } from "./run.js";
+import { exportRunTrace, printRunTrace, reindexTraces, verifyRunTrace } from "./trace_cmd.js";
 import { replayDry } from "./replay_cmd.js";
-import { policySuggestFromRun } from "./policy_cmd.js";
+import {
+  policyDiff,
+  policyHistoryList,
+  policyPendingCancel,
+  policyPendingList,
+  policyRollback,
+  policySuggestFromRun,
+  policyTestFromRuns,
+} from "./policy_cmd.js";
+import { scheduleList } from "./schedule_cmd.js";
+import { approvalList, approveRun } from "./approve_cmd.js";
+import { memoryKey, memoryVerify } from "./memory_cmd.js";
 import { startDaemon } from "./daemon.js";
 
 function confirm(prompt: string): Promise<boolean> {
@@ -20,12 +31,29 @@ function confirm(prompt: string): Promise<boolean> {
   });
 }
 
+// Collects repeated `--input name=value` flags.
+function parseInputArgs(args: string[]): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] !== "--input") continue;
+    const kv = args[i + 1] ?? "";
+    const eq = kv.indexOf("=");
+    if (eq <= 0) {
+      console.error(`Invalid --input '${kv}' (expected name=value)`);
+      process.exit(2);
+    }
+    inputs[kv.slice(0, eq)] = kv.slice(eq + 1);
+    i++;
+  }
+  return inputs;
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
   if (args.length === 0 || args[0] === "--help" || args[0] === "help") {
     console.log(
-      "w3rt - Web3 AI Runtime (scaffold)\n\nCommands:\n  w3rt run <workflow.yml>\n  w3rt trace <runId>\n  w3rt replay --dry <runId>\n  w3rt policy show\n  w3rt policy suggest --from-run <runId>\n  w3rt daemon [--port <p>]\n"
+      "w3rt - Web3 AI Runtime (scaffold)\n\nCommands:\n  w3rt run <workflow.yml> [--input name=value ...]\n  w3rt resume <runId>\n  w3rt approvals\n  w3rt approve <runId> <stage> [--deny] [--reason <text>]\n  w3rt trace <runId>\n  w3rt trace verify <runId>\n  w3rt trace reindex\n  w3rt trace export <runId> --format otlp|chrome [--out <file>]\n  w3rt replay --dry <runId>\n  w3rt policy show\n  w3rt policy suggest --from-run <runId>\n  w3rt policy test --policy <file> --from-runs <since> [--json]\n  w3rt policy history\n  w3rt policy diff <fromRev> [toRev]\n  w3rt policy rollback <rev>\n  w3rt policy pending\n  w3rt policy cancel <changeId>\n  w3rt schedule list [--json]\n  w3rt memory key\n  w3rt memory verify <runId|record.json> [--key <publicKeyHex>]\n  w3rt daemon [--port <p>]\n"
     );
     process.exit(0);
   }
@@ -46,6 +74,60 @@ async function main() {
     return;
   }
 
+  if (args[0] === "policy" && args[1] === "test") {
+    const policyIdx = args.findIndex((a) => a === "--policy");
+    const sinceIdx = args.findIndex((a) => a === "--from-runs");
+    const policyFile = policyIdx !== -1 ? args[policyIdx + 1] : undefined;
+    const since = sinceIdx !== -1 ? args[sinceIdx + 1] : undefined;
+    if (!policyFile || !since) {
+      console.error("Usage: w3rt policy test --policy <file> --from-runs <since> (e.g. 24h, 7d, 2026-01-01)");
+      process.exit(1);
+    }
+    policyTestFromRuns(policyFile, since, { json: args.includes("--json") });
+    return;
+  }
+
+  if (args[0] === "policy" && args[1] === "history") {
+    policyHistoryList();
+    return;
+  }
+
+  if (args[0] === "policy" && args[1] === "diff" && args[2]) {
+    policyDiff(args[2], args[3]);
+    return;
+  }
+
+  if (args[0] === "policy" && args[1] === "rollback" && args[2]) {
+    policyRollback(args[2]);
+    return;
+  }
+
+  if (args[0] === "policy" && args[1] === "pending") {
+    policyPendingList();
+    return;
+  }
+
+  if (args[0] === "policy" && args[1] === "cancel" && args[2]) {
+    policyPendingCancel(args[2]);
+    return;
+  }
+
+  if (args[0] === "schedule" && args[1] === "list") {
+    scheduleList({ json: args.includes("--json") });
+    return;
+  }
+
+  if (args[0] === "memory" && args[1] === "key") {
+    memoryKey();
+    return;
+  }
+
+  if (args[0] === "memory" && args[1] === "verify" && args[2]) {
+    const keyIdx = args.findIndex((a) => a === "--key");
+    if (!memoryVerify(args[2], { key: keyIdx !== -1 ? args[keyIdx + 1] : undefined }).ok) process.exit(1);
+    return;
+  }
+
   if (args[0] === "daemon") {
     const portIdx = args.findIndex((a) => a === "--port");
     const port = portIdx !== -1 ? Number(args[portIdx + 1]) : undefined;
@@ -53,9 +135,17 @@ async function main() {
     return;
   }
 
-  if (args[0] === "run" && args[1]) {
-    const wfPath = resolve(process.cwd(), args[1]);
-    const { runId, summary } = await runWorkflowFromFile(wfPath, { approve: confirm });
+  if ((args[0] === "run" || args[0] === "resume") && args[1]) {
+    let result: Awaited<ReturnType<typeof runWorkflowFromFile>>;
+    try {
+      result = args[0] === "run"
+        ? await runWorkflowFromFile(resolve(process.cwd(), args[1]), { approve: confirm, inputs: parseInputArgs(args.slice(2)) })
+        : await resumeWorkflowRun(args[1], { approve: confirm });
+    } catch (e: any) {
+      if (e?.runId) console.error(`runId: ${e.runId} (continue with: w3rt resume ${e.runId})`);
+      throw e;
+    }
+    const { runId, summary } = result;
     console.log(`runId: ${runId}`);
     console.log(`trace: ~/.w3rt/runs/${runId}/trace.jsonl`);
 
@@ -69,6 +159,35 @@ async function main() {
     return;
   }
 
+  if (args[0] === "approvals") {
+    approvalList();
+    return;
+  }
+
+  if (args[0] === "approve" && args[1] && args[2]) {
+    const reasonIdx = args.findIndex((a) => a === "--reason");
+    approveRun(args[1], args[2], { deny: args.includes("--deny"), reason: reasonIdx !== -1 ? args[reasonIdx + 1] : undefined });
+    return;
+  }
+
+  if (args[0] === "trace" && args[1] === "reindex") {
+    reindexTraces();
+    return;
+  }
+
+  if (args[0] === "trace" && args[1] === "export" && args[2]) {
+    const formatIdx = args.findIndex((a) => a === "--format");
+    const outIdx = args.findIndex((a) => a === "--out");
+    const out = exportRunTrace(args[2], formatIdx !== -1 ? args[formatIdx + 1] : "otlp", { out: outIdx !== -1 ? args[outIdx + 1] : undefined });
+    if (!out) process.exit(1);
+    return;
+  }
+
+  if (args[0] === "trace" && args[1] === "verify" && args[2]) {
+    if (!verifyRunTrace(args[2]).ok) process.exit(1);
+    return;
+  }
+
   if (args[0] === "trace" && args[1]) {
     printRunTrace(args[1]);
     return;
@@ -21,10 +21,63 @@ import {
 import { SolanaDriver, EvmDriver, type ChainDriver } from "./driver/index.js";
 import { computeArtifactHash, canonicalizeObject } from "./artifactHash.js";
 import { writeMemoryRecord } from "./memoryRecords.js";
+import { transferPolicyFieldsFromParams } from "./transferPolicy.js";
+import { stablecoinAmountUsd } from "./policyInputs.js";
+import { appendVolume, volumeLedgerPath, volumeWalletId, walletVolumeUsd } from "./volumeLedger.js";
+import { createScheduler, discoverWorkflows } from "./scheduler.js";
+import { runWorkflow } from "./runner.js";
+import {
+  approvalsPath,
+  cancelOrphanedApprovals,
+  decideApproval,
+  findApproval,
+  listPendingApprovals,
+  loadApprovals,
+  updateApprovals,
+  type ApprovalRequest,
+} from "./approvals.js";
+import {
+  evaluatePolicyAgainstHistory,
+  parseSince,
+  policyConfigFromDocument,
+  policyEngineFromDocument,
+  validPolicyConfigFromDocument,
+} from "./policyWhatIf.js";
+import {
+  diffPolicyDocuments,
+  loadPolicyHistory,
+  loadPolicyRevision,
+  policyRevisionId,
+  recordPolicyRevision,
+  type PolicyRevisionSource,
+} from "./policyHistory.js";
+import {
+  cancelPendingPolicyChange,
+  duePolicyChanges,
+  listPendingPolicyChanges,
+  loadPendingPolicyChanges,
+  pendingPolicyPath,
+  queuePolicyChange,
+  resolvePolicyChange,
+  updatePendingPolicyChanges,
+  type PendingPolicyChange,
+} from "./policyTimelock.js";
+import { writeFileAtomic } from "./fileLock.js";
 
 import { defaultRegistry, jupiterAdapter, meteoraDlmmAdapter, solendAdapter } from "@w3rt/adapters";
-import { PolicyEngine, type PolicyConfig, defaultPolicySpec, policyConfigFromSpec, type PolicySpec } from "@w3rt/policy";
-import { TraceStore } from "@w3rt/trace";
+import {
+  PolicyEngine,
+  type PolicyConfig,
+  defaultPolicySpec,
+  policyConfigFromSpec,
+  validatePolicyConfig,
+  validatePolicySpec,
+  loosenDelaySeconds,
+  policyLoosenings,
+  type PolicySpec,
+} from "@w3rt/policy";
+import { TraceQuery, TraceStore, type TraceEventType, type TraceFilter, type TraceFollowOptions } from "@w3rt/trace";
+import { resolveInputs } from "@w3rt/workflow";
 
 import { loadSolanaKeypair, resolveSolanaRpc } from "./run.js";
 
@@ -295,6 +348,33 @@ function inferNetworkFromRpcUrl(rpcUrl: string): Prepared["network"] {
   return "unknown";
 }
 
+// USD size of a prepared broadcast: a stablecoin transfer (UI amount) or a swap selling one (`amount` in base units).
+function preparedAmountUsd(item: Prepared, network: Prepared["network"]): number | undefined {
+  const net = network === "mainnet" ? "mainnet" : "testnet";
+  const p = item.params ?? {};
+  if (normalizePolicyAction(item.action) === "transfer") return stablecoinAmountUsd(p.tokenMint, p.amount, net);
+  if (p.inputMint != null && p.amount != null) return stablecoinAmountUsd(p.inputMint, Number(p.amount) / 1_000_000, net);
+  return undefined;
+}
+
+// Daily volume budget state for sending a prepared item, from the ledger `w3rt run` and engine runs share.
+function preparedVolume(w3rtDir: string, item: Prepared, network: Prepared["network"], kp: Keypair) {
+  const ledgerPath = volumeLedgerPath(w3rtDir);
+  const wallet = volumeWalletId("solana", kp.publicKey.toBase58());
+  return { ledgerPath, wallet, amountUsd: preparedAmountUsd(item, network), volumeUsdLast24h: walletVolumeUsd(ledgerPath, wallet) };
+}
+
+function recordPreparedVolume(volume: ReturnType<typeof preparedVolume>, item: Prepared) {
+  if (typeof volume.amountUsd !== "number") return;
+  appendVolume(volume.ledgerPath, {
+    ts: Date.now(),
+    wallet: volume.wallet,
+    amountUsd: volume.amountUsd,
+    runId: item.traceId,
+    tool: `${item.adapter}.${item.action}`,
+  });
+}
+
 function normalizePolicyAction(action: string): string {
   const a = String(action || "").toLowerCase();
   if (a.includes("swap")) return "swap";
@@ -384,6 +464,49 @@ function notFound(res: http.ServerResponse) {
   sendJson(res, 404, { ok: false, error: "NOT_FOUND" });
 }
 
+const SSE_HEARTBEAT_MS = 15_000;
+
+// Filters of the trace event streams: ?type=a,b&chain=&tool=&wallet=&runId=
+function traceStreamFilter(url: URL): TraceFilter {
+  const types = url.searchParams.get("type")?.split(",").map((t) => t.trim()).filter(Boolean);
+  return {
+    types: types?.length ? (types as TraceEventType[]) : undefined,
+    chain: url.searchParams.get("chain") || undefined,
+    tool: url.searchParams.get("tool") || undefined,
+    walletId: url.searchParams.get("wallet") || undefined,
+    runId: url.searchParams.get("runId") || undefined,
+  };
+}
+
+// Last-Event-ID header, or ?lastEventId= for clients that cannot set headers.
+function lastEventId(req: http.IncomingMessage, url: URL): string | undefined {
+  const header = req.headers["last-event-id"];
+  return (typeof header === "string" && header) || url.searchParams.get("lastEventId") || undefined;
+}
+
+// Server-Sent Events: one message per TraceEvent with the event id as `id:`, so EventSource clients resume
+// where they left off on reconnect. Comments keep idle connections open through proxies.
+function streamTraceEvents(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  traces: TraceQuery,
+  filter: TraceFilter,
+  opts: TraceFollowOptions
+) {
+  res.statusCode = 200;
+  res.setHeader("content-type", "text/event-stream; charset=utf-8");
+  res.setHeader("cache-control", "no-store");
+  res.setHeader("connection", "keep-alive");
+  res.flushHeaders();
+
+  const stop = traces.follow(filter, (e) => res.write(`id: ${e.id}\ndata: ${JSON.stringify(e)}\n\n`), opts);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+  req.on("close", () => {
+    stop();
+    clearInterval(heartbeat);
+  });
+}
+
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
@@ -475,7 +598,9 @@ function registerAdapters() {
   }
 }
 
-export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?: string; preparedTtlMs?: number } = {}) {
+export async function startDaemon(
+  opts: { port?: number; host?: string; w3rtDir?: string; preparedTtlMs?: number; schedulesDir?: string } = {}
+) {
   registerAdapters();
 
   const portRaw = opts.port ?? Number(process.env.W3RT_DAEMON_PORT ?? 8787);
@@ -489,34 +614,131 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
   // policy config (optional)
   let policySpec: PolicySpec | null = null;
   let policy: PolicyEngine | undefined;
+  // content hash of the loaded policy document (see policyHistory.ts)
+  let policyRevision: string | null = null;
+  let policyDoc: any = null;
 
   const policyPath = join(w3rtDir, "policy.yaml");
+  const pendingPolicyStatePath = pendingPolicyPath(w3rtDir);
+  // shared by the trace event streams; reads the event index incrementally
+  const traceQuery = new TraceQuery(w3rtDir);
 
-  function reloadPolicyFromDisk(): { ok: boolean; error?: string } {
+  // A policy that fails validation is refused: the previously loaded policy (if any) stays active,
+  // since dropping it would leave the daemon with no policy at all.
+  function reloadPolicyFromDisk(source: PolicyRevisionSource = "load"): { ok: boolean; error?: string } {
     try {
       const raw = loadYamlFile<any>(policyPath);
       // Accept either PolicySpec (preferred) or legacy PolicyConfig
-      if (raw && typeof raw === "object" && raw.policySpecVersion === 1) {
-        policySpec = raw as PolicySpec;
-        const cfg = policyConfigFromSpec(policySpec);
-        policy = new PolicyEngine(cfg);
-      } else {
-        policySpec = null;
-        const cfg = raw as PolicyConfig;
-        policy = new PolicyEngine(cfg);
+      const cfg = validPolicyConfigFromDocument(raw);
+      policySpec = raw.policySpecVersion === 1 ? (raw as PolicySpec) : null;
+      policy = new PolicyEngine(cfg);
+      policyRevision = policyRevisionId(raw);
+      policyDoc = raw;
+      try {
+        recordPolicyRevision(w3rtDir, raw, source);
+      } catch {
+        // best-effort
       }
       return { ok: true };
     } catch (e: any) {
-      policySpec = null;
-      policy = undefined;
       return { ok: false, error: String(e?.message ?? e) };
     }
   }
 
-  // best-effort load at boot
+  // Time lock: when the active policy sets changeControl.loosenDelaySeconds, edits that loosen it are
+  // queued instead of written. Returns the queued change, or null if the edit may apply immediately.
+  function queueIfLoosening(doc: any, source: PendingPolicyChange["source"]): PendingPolicyChange | null {
+    if (!policyDoc) return null;
+    const current = policyConfigFromDocument(policyDoc);
+    const delay = loosenDelaySeconds(current);
+    if (!delay) return null;
+
+    const loosenings = policyLoosenings(current, policyConfigFromDocument(doc));
+    if (!loosenings.length) return null;
+
+    return updatePendingPolicyChanges(pendingPolicyStatePath, (st) =>
+      queuePolicyChange(st, { source, baseRevision: policyRevision, revision: policyRevisionId(doc), loosenings, document: doc }, delay)
+    );
+  }
+
+  // Revision of policy.yaml as it is on disk now: the CLI may have rolled it back since the daemon loaded it.
+  function policyRevisionOnDisk(): string | null {
+    try {
+      return existsSync(policyPath) ? policyRevisionId(loadYamlFile<any>(policyPath)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  function applyDuePolicyChanges() {
+    // cheap check without the lock, as this runs every few seconds
+    if (!duePolicyChanges(loadPendingPolicyChanges(pendingPolicyStatePath)).length) return;
+
+    try {
+      updatePendingPolicyChanges(pendingPolicyStatePath, (st) => {
+        for (const c of duePolicyChanges(st)) {
+          // Another edit landed after this one was queued; applying it would silently revert that edit.
+          if (c.baseRevision !== policyRevisionOnDisk()) {
+            resolvePolicyChange(c, "superseded");
+            continue;
+          }
+          try {
+            writeFileAtomic(policyPath, yaml.dump(c.document));
+          } catch (e: any) {
+            resolvePolicyChange(c, "failed", Date.now(), String(e?.message ?? e));
+            continue;
+          }
+          const rr = reloadPolicyFromDisk(c.source);
+          if (rr.ok) resolvePolicyChange(c, "applied");
+          else resolvePolicyChange(c, "failed", Date.now(), rr.error);
+        }
+      });
+    } catch {
+      // best-effort; retried on the next tick
+    }
+  }
+
+  function pendingChangeSummary(c: PendingPolicyChange) {
+    const { document: _doc, ...rest } = c;
+    return rest;
+  }
+
+  // load at boot; an invalid policy.yaml stops the daemon rather than running it unguarded
   if (existsSync(policyPath)) {
-    reloadPolicyFromDisk();
+    const rr = reloadPolicyFromDisk();
+    if (!rr.ok) throw new Error(`Refusing to start with ${policyPath}: ${rr.error}`);
   }
+  applyDuePolicyChanges();
+  const policyTimer = setInterval(() => applyDuePolicyChanges(), 5_000).unref();
+
+  // Runs parked at an approval stage live only in the process that started them; close the requests of those
+  // that did not survive a restart, and end their traces.
+  try {
+    const gone = updateApprovals(approvalsPath(w3rtDir), (st) => cancelOrphanedApprovals(st, Date.now(), { startup: true }));
+    const trace = new TraceStore(w3rtDir);
+    for (const a of gone) {
+      trace.emit({ ts: Date.now(), type: "run.finished", runId: a.runId, data: { ok: false, error: `Run process exited while waiting for approval of stage '${a.stage}'` } });
+    }
+  } catch {
+    // best-effort
+  }
+
+  // cron workflows (trigger: cron); unattended runs have no approver, so approval stages park the run until it is
+  // decided out of band or the approval times out (by default when the next slot comes due)
+  const scheduler = createScheduler({
+    w3rtDir,
+    dir: opts.schedulesDir,
+    run: (workflowPath, runOpts) => runWorkflow(workflowPath, { w3rtDir, approvalTimeout: runOpts.approvalTimeout }),
+  });
+  const tickScheduler = () => {
+    try {
+      scheduler.tick();
+    } catch {
+      // best-effort; retried on the next tick
+    }
+  };
+  tickScheduler();
+  const schedulerTimer = setInterval(tickScheduler, 10_000).unref();
 
   const prepared = new Map<string, Prepared>();
 
@@ -581,7 +803,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
   }
 
   // cleanup timer
-  setInterval(() => {
+  const preparedTimer = setInterval(() => {
     const now = Date.now();
     for (const [k, v] of prepared.entries()) {
       if (v.expiresAt <= now) prepared.delete(k);
@@ -738,6 +960,8 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
           ok: true,
           path: policyPath,
           loaded: !!policy,
+          revision: policyRevision,
+          pendingChanges: listPendingPolicyChanges(loadPendingPolicyChanges(pendingPolicyStatePath)).length,
           spec: policySpec ?? null,
         });
       }
@@ -752,6 +976,21 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
 
         if (!spec && !cfg) return sendJson(res, 400, { ok: false, error: "MISSING_SPEC_OR_CONFIG" });
 
+        if (spec) {
+          const errors = validatePolicySpec(spec);
+          if (errors.length) return sendJson(res, 200, { ok: false, error: "SPEC_INVALID", errors });
+        } else {
+          const errors = validatePolicyConfig(cfg!);
+          if (errors.length) return sendJson(res, 200, { ok: false, error: "CONFIG_INVALID", errors });
+        }
+
+        try {
+          const queued = queueIfLoosening(spec ?? cfg, "apply");
+          if (queued) return sendJson(res, 202, { ok: true, queued: true, change: pendingChangeSummary(queued) });
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "QUEUE_FAILED", message: String(e?.message ?? e) });
+        }
+
         mkdirSync(dirname(policyPath), { recursive: true });
 
         try {
@@ -766,24 +1005,267 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
           return sendJson(res, 200, { ok: false, error: "WRITE_FAILED", message: String(e?.message ?? e) });
         }
 
-        const rr = reloadPolicyFromDisk();
+        const rr = reloadPolicyFromDisk("apply");
         if (!rr.ok) return sendJson(res, 200, { ok: false, error: "RELOAD_FAILED", message: rr.error });
 
-        return sendJson(res, 200, { ok: true, path: policyPath, loaded: true, spec: policySpec ?? null });
+        return sendJson(res, 200, { ok: true, path: policyPath, loaded: true, revision: policyRevision, spec: policySpec ?? null });
+      }
+
+      // policy: what-if (replay recorded policy.decision contexts through a candidate policy)
+      // POST /v1/policy/evaluate
+      // Body: { spec?: PolicySpec, config?: PolicyConfig, since?: string, runIds?: string[], limit?: number }
+      if (req.method === "POST" && url.pathname === "/v1/policy/evaluate") {
+        const body = await readJsonBody(req);
+        const spec = body?.spec as PolicySpec | undefined;
+        const cfg = body?.config as PolicyConfig | undefined;
+
+        if (!spec && !cfg) return sendJson(res, 400, { ok: false, error: "MISSING_SPEC_OR_CONFIG" });
+
+        if (spec) {
+          const errors = validatePolicySpec(spec);
+          if (errors.length) return sendJson(res, 200, { ok: false, error: "SPEC_INVALID", errors });
+        }
+
+        let fromTs: number | undefined;
+        try {
+          fromTs = body?.since != null ? parseSince(String(body.since)) : undefined;
+        } catch (e: any) {
+          return sendJson(res, 400, { ok: false, error: "INVALID_SINCE", message: String(e?.message ?? e) });
+        }
+
+        try {
+          const engine = policyEngineFromDocument(spec ?? cfg);
+          const report = evaluatePolicyAgainstHistory(w3rtDir, engine, {
+            fromTs,
+            runIds: Array.isArray(body?.runIds) ? body.runIds.map(String) : undefined,
+            limit: Number.isFinite(Number(body?.limit)) ? Number(body.limit) : 200,
+          });
+          return sendJson(res, 200, { ok: true, report });
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "EVALUATE_FAILED", message: String(e?.message ?? e) });
+        }
       }
 
       // policy: reset to default
       // POST /v1/policy/reset
       if (req.method === "POST" && url.pathname === "/v1/policy/reset") {
+        try {
+          const queued = queueIfLoosening(defaultPolicySpec(), "reset");
+          if (queued) return sendJson(res, 202, { ok: true, queued: true, change: pendingChangeSummary(queued) });
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "QUEUE_FAILED", message: String(e?.message ?? e) });
+        }
+
         mkdirSync(dirname(policyPath), { recursive: true });
         try {
           writeFileSync(policyPath, yaml.dump(defaultPolicySpec()));
         } catch (e: any) {
           return sendJson(res, 200, { ok: false, error: "WRITE_FAILED", message: String(e?.message ?? e) });
         }
-        const rr = reloadPolicyFromDisk();
+        const rr = reloadPolicyFromDisk("reset");
         if (!rr.ok) return sendJson(res, 200, { ok: false, error: "RELOAD_FAILED", message: rr.error });
-        return sendJson(res, 200, { ok: true, path: policyPath, loaded: true, spec: policySpec ?? null });
+        return sendJson(res, 200, { ok: true, path: policyPath, loaded: true, revision: policyRevision, spec: policySpec ?? null });
+      }
+
+      // policy: history (newest first)
+      // GET /v1/policy/history?limit=50
+      if (req.method === "GET" && url.pathname === "/v1/policy/history") {
+        const limit = Math.max(1, Math.min(500, Number(url.searchParams.get("limit") ?? 50) || 50));
+        const entries = loadPolicyHistory(w3rtDir).reverse().slice(0, limit);
+        return sendJson(res, 200, { ok: true, current: policyRevision, entries });
+      }
+
+      // policy: diff two revisions (to defaults to the current revision)
+      // GET /v1/policy/diff?from=<rev>&to=<rev>
+      if (req.method === "GET" && url.pathname === "/v1/policy/diff") {
+        const fromRef = url.searchParams.get("from");
+        const toRef = url.searchParams.get("to") ?? policyRevision;
+        if (!fromRef || !toRef) return sendJson(res, 400, { ok: false, error: "MISSING_FROM_OR_TO" });
+
+        try {
+          const from = loadPolicyRevision(w3rtDir, fromRef);
+          const to = loadPolicyRevision(w3rtDir, toRef);
+          return sendJson(res, 200, {
+            ok: true,
+            from: from.revision,
+            to: to.revision,
+            changes: diffPolicyDocuments(from.document, to.document),
+          });
+        } catch (e: any) {
+          return sendJson(res, 404, { ok: false, error: "REVISION_NOT_FOUND", message: String(e?.message ?? e) });
+        }
+      }
+
+      // policy: rollback to a previous revision
+      // POST /v1/policy/rollback
+      // Body: { revision: string }
+      if (req.method === "POST" && url.pathname === "/v1/policy/rollback") {
+        const body = await readJsonBody(req);
+        const ref = typeof body?.revision === "string" ? body.revision : "";
+        if (!ref) return sendJson(res, 400, { ok: false, error: "MISSING_REVISION" });
+
+        let target: ReturnType<typeof loadPolicyRevision>;
+        try {
+          target = loadPolicyRevision(w3rtDir, ref);
+        } catch (e: any) {
+          return sendJson(res, 404, { ok: false, error: "REVISION_NOT_FOUND", message: String(e?.message ?? e) });
+        }
+
+        if (target.kind === "spec") {
+          const errors = validatePolicySpec(target.document);
+          if (errors.length) return sendJson(res, 200, { ok: false, error: "SPEC_INVALID", errors });
+        }
+
+        try {
+          const queued = queueIfLoosening(target.document, "rollback");
+          if (queued) return sendJson(res, 202, { ok: true, queued: true, change: pendingChangeSummary(queued) });
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "QUEUE_FAILED", message: String(e?.message ?? e) });
+        }
+
+        mkdirSync(dirname(policyPath), { recursive: true });
+        try {
+          writeFileSync(policyPath, yaml.dump(target.document));
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "WRITE_FAILED", message: String(e?.message ?? e) });
+        }
+        const rr = reloadPolicyFromDisk("rollback");
+        if (!rr.ok) return sendJson(res, 200, { ok: false, error: "RELOAD_FAILED", message: rr.error });
+        return sendJson(res, 200, { ok: true, path: policyPath, loaded: true, revision: policyRevision, spec: policySpec ?? null });
+      }
+
+      // policy: time-locked changes waiting for their delay
+      // GET /v1/policy/pending
+      if (req.method === "GET" && url.pathname === "/v1/policy/pending") {
+        applyDuePolicyChanges();
+        const changes = listPendingPolicyChanges(loadPendingPolicyChanges(pendingPolicyStatePath));
+        return sendJson(res, 200, {
+          ok: true,
+          loosenDelaySeconds: policyDoc ? loosenDelaySeconds(policyConfigFromDocument(policyDoc)) : 0,
+          changes: changes.map(pendingChangeSummary),
+        });
+      }
+
+      // policy: cancel a pending change
+      // POST /v1/policy/pending/cancel
+      // Body: { id: string }
+      if (req.method === "POST" && url.pathname === "/v1/policy/pending/cancel") {
+        const body = await readJsonBody(req);
+        const id = typeof body?.id === "string" ? body.id : "";
+        if (!id) return sendJson(res, 400, { ok: false, error: "MISSING_ID" });
+
+        let c: PendingPolicyChange | null;
+        try {
+          c = updatePendingPolicyChanges(pendingPolicyStatePath, (st) => cancelPendingPolicyChange(st, id));
+        } catch (e: any) {
+          return sendJson(res, 200, { ok: false, error: "WRITE_FAILED", message: String(e?.message ?? e) });
+        }
+        if (!c) return sendJson(res, 404, { ok: false, error: "PENDING_CHANGE_NOT_FOUND" });
+        return sendJson(res, 200, { ok: true, change: pendingChangeSummary(c) });
+      }
+
+      // schedules: cron workflows with last/next run times
+      // GET /v1/schedules
+      if (req.method === "GET" && url.pathname === "/v1/schedules") {
+        const { dir, schedules, errors } = scheduler.list();
+        return sendJson(res, 200, { ok: true, dir, schedules, errors });
+      }
+
+      // POST /v1/schedules/pause, /v1/schedules/resume
+      // Body: { id } (workflow file name without extension)
+      if (req.method === "POST" && (url.pathname === "/v1/schedules/pause" || url.pathname === "/v1/schedules/resume")) {
+        const body = await readJsonBody(req);
+        const id = typeof body?.id === "string" ? body.id : "";
+        if (!id) return sendJson(res, 400, { ok: false, error: "MISSING_ID" });
+
+        const schedule = url.pathname.endsWith("/pause") ? scheduler.pause(id) : scheduler.resume(id);
+        if (!schedule) return sendJson(res, 404, { ok: false, error: "SCHEDULE_NOT_FOUND" });
+        return sendJson(res, 200, { ok: true, schedule });
+      }
+
+      // workflow files in the scheduler's directory, with the JSON Schema of their inputs
+      // GET /v1/workflows
+      if (req.method === "GET" && url.pathname === "/v1/workflows") {
+        const { workflows, errors } = discoverWorkflows(scheduler.dir);
+        return sendJson(res, 200, {
+          ok: true,
+          dir: scheduler.dir,
+          workflows: workflows.map(({ id, workflow: wf, inputSchema }) => ({
+            id,
+            name: wf.name,
+            version: wf.version,
+            description: wf.description,
+            trigger: wf.trigger,
+            inputSchema,
+          })),
+          errors,
+        });
+      }
+
+      // POST /v1/workflows/run
+      // Body: { id, inputs?: { name: value } }. Responds when the run finishes, or with 202 and status "needs_approval"
+      // when it parks at an approval stage (grant it with POST /v1/approvals/decide; the run continues in the daemon).
+      if (req.method === "POST" && url.pathname === "/v1/workflows/run") {
+        const body = await readJsonBody(req);
+        const id = typeof body?.id === "string" ? body.id : "";
+        if (!id) return sendJson(res, 400, { ok: false, error: "MISSING_ID" });
+        const inputs = body?.inputs ?? {};
+        if (typeof inputs !== "object" || Array.isArray(inputs)) {
+          return sendJson(res, 400, { ok: false, error: "INVALID_INPUTS", message: "inputs must be an object" });
+        }
+
+        const found = discoverWorkflows(scheduler.dir).workflows.find((w) => w.id === id);
+        if (!found) return sendJson(res, 404, { ok: false, error: "WORKFLOW_NOT_FOUND" });
+
+        const resolved = resolveInputs(found.workflow.inputs, inputs);
+        if (resolved.errors.length) {
+          return sendJson(res, 400, { ok: false, error: "INVALID_INPUTS", message: resolved.errors.join("; "), errors: resolved.errors });
+        }
+
+        let onApprovalPending: (request: ApprovalRequest) => void = () => {};
+        const parked = new Promise<ApprovalRequest>((resolve) => (onApprovalPending = resolve));
+        const running = runWorkflow(found.path, { w3rtDir, inputs, onApprovalPending });
+        running.catch(() => {});
+        const first = await Promise.race([running.then((result) => ({ result })), parked.then((approval) => ({ approval }))]);
+        if ("approval" in first) {
+          const { runId, stage, expiresAt } = first.approval;
+          return sendJson(res, 202, { ok: true, runId, status: "needs_approval", approval: { stage, expiresAt } });
+        }
+        const { result } = first;
+        return sendJson(res, 200, { ok: result.ok, runId: result.runId, error: result.error });
+      }
+
+      // approvals: requests of runs parked at an approval stage
+      // GET /v1/approvals
+      if (req.method === "GET" && url.pathname === "/v1/approvals") {
+        const approvals = listPendingApprovals(loadApprovals(approvalsPath(w3rtDir)));
+        return sendJson(res, 200, { ok: true, approvals });
+      }
+
+      // POST /v1/approvals/decide
+      // Body: { runId, stage, approved: boolean, reason? }
+      if (req.method === "POST" && url.pathname === "/v1/approvals/decide") {
+        const body = await readJsonBody(req);
+        const runId = typeof body?.runId === "string" ? body.runId : "";
+        const stage = typeof body?.stage === "string" ? body.stage : "";
+        if (!runId) return sendJson(res, 400, { ok: false, error: "MISSING_RUN_ID" });
+        if (!stage) return sendJson(res, 400, { ok: false, error: "MISSING_STAGE" });
+        if (typeof body?.approved !== "boolean") {
+          return sendJson(res, 400, { ok: false, error: "INVALID_DECISION", message: "approved must be a boolean" });
+        }
+
+        const reason = typeof body?.reason === "string" ? body.reason : undefined;
+        let found = true;
+        try {
+          const approval = updateApprovals(approvalsPath(w3rtDir), (st) => {
+            found = !!findApproval(st, runId, stage);
+            return decideApproval(st, runId, stage, { approved: body.approved, by: "daemon", reason });
+          });
+          return sendJson(res, 200, { ok: true, approval });
+        } catch (e: any) {
+          if (!found) return sendJson(res, 404, { ok: false, error: "APPROVAL_NOT_FOUND" });
+          return sendJson(res, 409, { ok: false, error: "APPROVAL_CLOSED", message: String(e?.message ?? e) });
+        }
       }
 
       // Meteora DLMM monitor (indexer-backed)
@@ -1292,18 +1774,20 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         const simulation = await driver.simulateTxB64(txB64, { rpcUrl });
         const { ids: programIds, known } = await driver.extractIdsFromTxB64(txB64, { rpcUrl });
 
+        const policyContext = {
+          chain: "solana",
+          network,
+          // Policy allowlist expects generic verbs like "transfer".
+          action: "transfer",
+          // This endpoint is prepare-only (no broadcast).
+          sideEffect: "none",
+          simulationOk: simulation.ok,
+          programIdsKnown: known,
+          programIds,
+          ...transferPolicyFieldsFromParams({ to: to.toBase58(), amount: amountUi, tokenMint: tokenMintRaw }),
+        } as any;
         const decision = policy
-          ? policy.decide({
-              chain: "solana",
-              network,
-              // Policy allowlist expects generic verbs like "transfer".
-              action: "transfer",
-              // This endpoint is prepare-only (no broadcast).
-              sideEffect: "none",
-              simulationOk: simulation.ok,
-              programIdsKnown: known,
-              programIds,
-            } as any)
+          ? policy.decide(policyContext, { mode: "all" })
           : { decision: simulation.ok ? "confirm" : "block" };
 
         // metrics: policy decision
@@ -1321,7 +1805,25 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         const trace = new TraceStore(w3rtDir);
         trace.emit({ ts: now, type: "tx.built", runId: traceId, data: { summary } });
         trace.emit({ ts: now, type: "tx.simulated", runId: traceId, data: { ok: simulation.ok, err: simulation.err, unitsConsumed: simulation.unitsConsumed } });
-        trace.emit({ ts: now, type: "policy.decision", runId: traceId, data: { decision } });
+        trace.emit({ ts: now, type: "policy.decision", runId: traceId, data: { decision, policyContext, policyRevision, evaluationMode: "all" } });
+
+        // A blocked transfer is reported but not stored, so there is no preparedId to execute.
+        if (!allowed) {
+          return sendJson(res, 200, {
+            ok: true,
+            allowed,
+            requiresApproval,
+            network,
+            rpcUrl,
+            from: kp.publicKey.toBase58(),
+            summary,
+            simulation,
+            programIds,
+            programIdsKnown: known,
+            policyReport: decision,
+            traceId,
+          });
+        }
 
         const artifact = {
           chain: "solana",
@@ -1414,18 +1916,26 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         const conn = new Connection(rpcUrl, { commitment });
 
         const traceId = item.traceId;
-        const trace = new TraceStore(defaultW3rtDir());
+        const trace = new TraceStore(w3rtDir);
 
+        // Re-evaluated with the transfer fields, as at prepare: the policy may have changed since.
+        const volume = preparedVolume(w3rtDir, item, network, kp);
         const decision = policy
-          ? policy.decide({
-              chain: "solana",
-              network,
-              action: normalizePolicyAction(String(item.action)),
-              sideEffect: "broadcast",
-              simulationOk: item.simulation?.ok === true,
-              programIds: item.programIds ?? [],
-              programIdsKnown: item.programIdsKnown === true,
-            } as any)
+          ? policy.decide(
+              {
+                chain: "solana",
+                network,
+                action: normalizePolicyAction(String(item.action)),
+                sideEffect: "broadcast",
+                simulationOk: item.simulation?.ok === true,
+                programIds: item.programIds ?? [],
+                programIdsKnown: item.programIdsKnown === true,
+                amountUsd: volume.amountUsd,
+                volumeUsdLast24h: volume.volumeUsdLast24h,
+                ...transferPolicyFieldsFromParams(item.params),
+              } as any,
+              { mode: "all" }
+            )
           : { decision: "allow" };
 
         if (decision.decision === "block") {
@@ -1447,6 +1957,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         tx.sign([kp, ...extraKps]);
 
         const sig = await conn.sendTransaction(tx, { skipPreflight: false, maxRetries: 3 });
+        recordPreparedVolume(volume, item);
         trace.emit({ ts: Date.now(), type: "tx.submitted", runId: traceId, data: { signature: sig } });
 
         executed.set(preparedId, { signature: sig, ts: Date.now() });
@@ -2630,7 +3141,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
                 simulationOk: simulation.ok,
                 programIdsKnown: known,
                 programIds,
-              } as any)
+              } as any, { mode: "all" })
             : { decision: "allow" };
 
           const requiresApproval = true; // v0: any funds-moving step must be explicitly confirmed by user
@@ -2831,6 +3342,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         const traceId = item.traceId;
         const trace = new TraceStore(defaultW3rtDir());
 
+        const volume = preparedVolume(w3rtDir, item, network, kp);
         const decision = policy
           ? policy.decide({
               chain: "solana",
@@ -2840,6 +3352,8 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
               simulationOk: item.simulation?.ok === true,
               programIds: item.programIds ?? [],
               programIdsKnown: item.programIdsKnown === true,
+              amountUsd: volume.amountUsd,
+              volumeUsdLast24h: volume.volumeUsdLast24h,
             } as any)
           : { decision: "allow" };
 
@@ -2857,6 +3371,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         tx.sign([kp, ...extraKps]);
 
         const sig = await conn.sendTransaction(tx, { skipPreflight: false, maxRetries: 3 });
+        recordPreparedVolume(volume, item);
 
         executed.set(preparedId, { signature: sig, ts: Date.now() });
         persistExecuted();
@@ -3094,7 +3609,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
                 simulationOk: simulation.ok,
                 programIdsKnown: known,
                 programIds,
-              } as any)
+              } as any, { mode: "all" })
             : { decision: "allow" };
 
           // metrics: policy decision
@@ -3224,7 +3739,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
               simulationOk: simulation.ok,
               programIds,
               programIdsKnown: known,
-            } as any)
+            } as any, { mode: "all" })
           : { decision: "allow" };
 
         // metrics: policy decision
@@ -3395,6 +3910,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         const trace = new TraceStore(defaultW3rtDir());
 
         // policy gate for broadcast
+        const volume = preparedVolume(w3rtDir, item, network, kp);
         const decision = policy
           ? policy.decide({
               chain: "solana",
@@ -3404,6 +3920,8 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
               simulationOk: item.simulation?.ok === true,
               programIds: item.programIds ?? [],
               programIdsKnown: item.programIdsKnown === true,
+              amountUsd: volume.amountUsd,
+              volumeUsdLast24h: volume.volumeUsdLast24h,
             } as any)
           : { decision: "allow" };
 
@@ -3443,6 +3961,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         tx.sign([kp, ...extraKps]);
 
         const sig = await conn.sendTransaction(tx, { skipPreflight: false, maxRetries: 3 });
+        recordPreparedVolume(volume, item);
 
         executed.set(preparedId, { signature: sig, ts: Date.now() });
         persistExecuted();
@@ -3524,7 +4043,7 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
               simulationOk: simulation.ok,
               programIdsKnown: known,
               programIds,
-            } as any)
+            } as any, { mode: "all" })
           : { decision: "allow" };
 
         const requiresApproval = true;
@@ -3633,6 +4152,18 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
         }
       }
 
+      // live trace events (SSE): one run from its first event, or every run from now on
+      const traceStream = /^\/v1\/traces\/([^/]+)\/stream$/.exec(url.pathname);
+      if (req.method === "GET" && traceStream) {
+        const runId = decodeURIComponent(traceStream[1]);
+        if (!existsSync(join(w3rtDir, "runs", runId, "trace.jsonl"))) return sendJson(res, 404, { ok: false, error: "TRACE_NOT_FOUND" });
+        return streamTraceEvents(req, res, traceQuery, { ...traceStreamFilter(url), runId }, { afterId: lastEventId(req, url), fromStart: true });
+      }
+
+      if (req.method === "GET" && url.pathname === "/v1/events") {
+        return streamTraceEvents(req, res, traceQuery, traceStreamFilter(url), { afterId: lastEventId(req, url) });
+      }
+
       if (req.method === "GET" && url.pathname.startsWith("/v1/traces/")) {
         const traceId = decodeURIComponent(url.pathname.split("/").pop() || "");
         if (!traceId) return sendJson(res, 400, { ok: false, error: "MISSING_TRACE_ID" });
@@ -3663,6 +4194,13 @@ export async function startDaemon(opts: { port?: number; host?: string; w3rtDir?
     }
   });
 
+  // a closed daemon must not keep applying policy changes or starting scheduled runs
+  server.on("close", () => {
+    clearInterval(policyTimer);
+    clearInterval(schedulerTimer);
+    clearInterval(preparedTimer);
+  });
+
   await new Promise<void>((resolve) => server.listen(port, host, resolve));
 
   const addr = server.address();
@@ -0,0 +1,50 @@
+import { closeSync, mkdirSync, openSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+// State files shared by the daemon, the CLI and concurrent runs (approvals.json, the volume ledger,
+// policy_pending.json) are changed under a lock file and written to a temp file that is renamed into place,
+// so a read-modify-write never loses another process's change and readers never see a half-written file.
+
+const LOCK_WAIT_MS = 5_000;
+// a lock older than this was left by a process that died while holding it
+const LOCK_STALE_MS = 30_000;
+
+function sleepSync(ms: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+export function withFileLock<T>(lockPath: string, fn: () => T): T {
+  mkdirSync(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  for (;;) {
+    try {
+      closeSync(openSync(lockPath, "wx"));
+      break;
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+    }
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+        rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // released in the meantime
+      continue;
+    }
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for lock ${lockPath}`);
+    sleepSync(10);
+  }
+  try {
+    return fn();
+  } finally {
+    rmSync(lockPath, { force: true });
+  }
+}
+
+export function writeFileAtomic(path: string, data: string) {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, data);
+  renameSync(tmp, path);
+}
@@ -4,16 +4,34 @@ export const VERSION = "0.0.1";
 // Legacy run (for backward compatibility)
 export * from "./run.js";
 
+// Run checkpoints for `w3rt resume`
+export * from "./checkpoint.js";
+
 // New modular runner (with renamed exports to avoid conflicts)
 export { runWorkflow, type RunnerOptions } from "./runner.js";
 
 // Tools
 export * from "./tools/index.js";
 
-// Memory record payloads (AgentMemory adapter)
+// Memory record payloads (AgentMemory adapter) and their signing key
 export * from "./memoryRecords.js";
+export * from "./attestation.js";
+
+// Policy what-if replay, revision history and time-locked changes
+export * from "./policyWhatIf.js";
+export * from "./policyHistory.js";
+export * from "./policyTimelock.js";
+
+// Out-of-band approvals for parked runs
+export * from "./approvals.js";
+
+// Cron scheduler for `trigger: cron` workflows
+export * from "./scheduler.js";
 
 // Commands
 export * from "./trace_cmd.js";
 export * from "./replay_cmd.js";
 export * from "./policy_cmd.js";
+export * from "./schedule_cmd.js";
+export * from "./approve_cmd.js";
+export * from "./memory_cmd.js";
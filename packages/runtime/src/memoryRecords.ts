@@ -1,6 +1,13 @@
 import { mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { canonicalizeJson, sha256Hex } from "./artifactHash.js";
+import {
+  ATTESTATION_ALG,
+  attestationPublicKeyHex,
+  loadAttestationKey,
+  signAttestation,
+  verifyAttestation,
+} from "./attestation.js";
 
 export type MemoryRecordV1 = {
   // minimal required fields (keep names stable)
@@ -15,6 +22,11 @@ export type MemoryRecordV1 = {
   idempotency_key?: string;
   schema_version?: "v1";
   hash_alg?: "sha256";
+
+  // attestation by the runtime's ed25519 key (see attestation.ts), over the canonical record without `signature`
+  sig_alg?: typeof ATTESTATION_ALG;
+  public_key?: string; // hex
+  signature?: string; // hex
 };
 
 export function computeMemoryRecordIdempotencyKey(record: Pick<MemoryRecordV1, "run_id" | "reasoning_hash" | "artifacts_hash">): string {
@@ -23,25 +35,58 @@ export function computeMemoryRecordIdempotencyKey(record: Pick<MemoryRecordV1, "
 }
 
 export function canonicalizeMemoryRecord(record: MemoryRecordV1): string {
-  // stable JSON for hashing / future signature binding
+  // stable JSON for hashing / signing
   return canonicalizeJson(record);
 }
 
+// The bytes the attestation signs: everything but the signature itself, so the public key is bound too.
+export function memoryRecordSigningPayload(record: MemoryRecordV1): string {
+  const { signature: _signature, ...unsigned } = record;
+  return canonicalizeMemoryRecord(unsigned);
+}
+
+export type MemoryRecordVerification = { ok: boolean; public_key?: string; error?: string };
+
+// Offline check of a record's attestation. `publicKey` pins the expected runtime key; without it any
+// correctly signed record passes, which only proves the record was not changed after signing.
+export function verifyMemoryRecord(record: MemoryRecordV1, opts: { publicKey?: string } = {}): MemoryRecordVerification {
+  if (!record.signature || !record.public_key) return { ok: false, error: "record is not signed" };
+  if (record.sig_alg !== ATTESTATION_ALG) return { ok: false, error: `unsupported sig_alg: ${record.sig_alg}` };
+  if (opts.publicKey && opts.publicKey.toLowerCase() !== record.public_key.toLowerCase()) {
+    return { ok: false, public_key: record.public_key, error: "signed by a different key than expected" };
+  }
+  try {
+    if (!verifyAttestation(record.public_key, memoryRecordSigningPayload(record), record.signature)) {
+      return { ok: false, public_key: record.public_key, error: "signature does not match the record" };
+    }
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message ?? e) };
+  }
+  return { ok: true, public_key: record.public_key };
+}
+
 export function writeMemoryRecord(w3rtDir: string, record: MemoryRecordV1): {
   path: string;
   idempotency_key: string;
   canonical_json: string;
+  signature: string;
 } {
   const dir = join(w3rtDir, "memory_records");
   mkdirSync(dir, { recursive: true });
 
   const idempotency_key = record.idempotency_key ?? computeMemoryRecordIdempotencyKey(record);
-  const out: MemoryRecordV1 = {
+  const key = loadAttestationKey(w3rtDir);
+  const { signature: _stale, ...fields } = record;
+  const unsigned: MemoryRecordV1 = {
     schema_version: record.schema_version ?? "v1",
     hash_alg: record.hash_alg ?? "sha256",
-    ...record,
+    ...fields,
     idempotency_key,
+    sig_alg: ATTESTATION_ALG,
+    public_key: attestationPublicKeyHex(key),
   };
+  const signature = signAttestation(key, memoryRecordSigningPayload(unsigned));
+  const out: MemoryRecordV1 = { ...unsigned, signature };
 
   const canonical_json = canonicalizeMemoryRecord(out);
   const path = join(dir, `${record.run_id}.json`);
@@ -49,5 +94,5 @@ export function writeMemoryRecord(w3rtDir: string, record: MemoryRecordV1): {
   // Write a readable copy; hash/canonicalization is derived from `canonical_json`.
   writeFileSync(path, JSON.stringify(out, null, 2), { flag: "w" });
 
-  return { path, idempotency_key, canonical_json };
+  return { path, idempotency_key, canonical_json, signature };
 }
@@ -0,0 +1,30 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import os from "node:os";
+
+import { attestationKeyPath, attestationPublicKeyHex, loadAttestationKey } from "./attestation.js";
+import { verifyMemoryRecord, type MemoryRecordVerification } from "./memoryRecords.js";
+
+function w3rtDir() {
+  return process.env.W3RT_DIR || join(os.homedir(), ".w3rt");
+}
+
+// The runtime's attestation public key, for auditors to pin with `w3rt memory verify --key`.
+export function memoryKey(): string {
+  const pub = attestationPublicKeyHex(loadAttestationKey(w3rtDir()));
+  console.log(`${pub}  (${attestationKeyPath(w3rtDir())})`);
+  return pub;
+}
+
+// `target` is a record file or a runId under ~/.w3rt/memory_records/. Needs no daemon, RPC or private key.
+export function memoryVerify(target: string, opts: { key?: string } = {}): MemoryRecordVerification {
+  const p = existsSync(target) ? target : join(w3rtDir(), "memory_records", `${target}.json`);
+  if (!existsSync(p)) throw new Error(`No memory record for ${target} (expected ${p})`);
+  const v = verifyMemoryRecord(JSON.parse(readFileSync(p, "utf-8")), { publicKey: opts.key });
+  if (v.ok) {
+    console.log(`ok: signed by ${v.public_key}${opts.key ? "" : " (not pinned; pass --key to check the signer)"}`);
+  } else {
+    console.error(`FAILED: ${v.error}`);
+  }
+  return v;
+}
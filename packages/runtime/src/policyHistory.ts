@@ -0,0 +1,140 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { canonicalizeJson, sha256Hex } from "./artifactHash.js";
+
+// Versioned policy history.
+// Every policy document that gets loaded is stored once as an immutable, content-addressed revision
+// (sha256 of its canonical JSON) under <w3rtDir>/policy_history/revisions/, and each apply/reset/rollback
+// appends an entry to <w3rtDir>/policy_history/log.jsonl.
+
+export type PolicyRevisionSource = "load" | "apply" | "reset" | "rollback";
+
+export type PolicyHistoryEntry = {
+  ts: number;
+  revision: string;
+  // revision that was current before this entry
+  parent: string | null;
+  source: PolicyRevisionSource;
+  kind: "spec" | "config";
+};
+
+export type PolicyRevision = {
+  revision: string;
+  createdAt: number;
+  kind: "spec" | "config";
+  document: any;
+};
+
+export type PolicyDiffEntry = {
+  path: string;
+  change: "added" | "removed" | "changed";
+  from?: unknown;
+  to?: unknown;
+};
+
+export function policyHistoryDir(w3rtDir: string) {
+  return join(w3rtDir, "policy_history");
+}
+
+function revisionsDir(w3rtDir: string) {
+  return join(policyHistoryDir(w3rtDir), "revisions");
+}
+
+function logPath(w3rtDir: string) {
+  return join(policyHistoryDir(w3rtDir), "log.jsonl");
+}
+
+export function policyRevisionId(doc: any): string {
+  return sha256Hex(canonicalizeJson(doc));
+}
+
+function kindOf(doc: any): "spec" | "config" {
+  return doc && typeof doc === "object" && doc.policySpecVersion === 1 ? "spec" : "config";
+}
+
+export function loadPolicyHistory(w3rtDir: string): PolicyHistoryEntry[] {
+  try {
+    return readFileSync(logPath(w3rtDir), "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .map((l) => JSON.parse(l) as PolicyHistoryEntry)
+      .filter((e) => typeof e?.revision === "string" && Number.isFinite(e?.ts));
+  } catch {
+    return [];
+  }
+}
+
+export function headPolicyRevision(w3rtDir: string): string | null {
+  const h = loadPolicyHistory(w3rtDir);
+  return h.length ? h[h.length - 1].revision : null;
+}
+
+// Store the document (if new) and append a history entry.
+// `load` entries are only written when the document differs from the head (e.g. policy.yaml edited by hand).
+export function recordPolicyRevision(
+  w3rtDir: string,
+  doc: any,
+  source: PolicyRevisionSource,
+  nowMs = Date.now()
+): PolicyHistoryEntry | null {
+  const revision = policyRevisionId(doc);
+  const parent = headPolicyRevision(w3rtDir);
+  if (source === "load" && parent === revision) return null;
+
+  mkdirSync(revisionsDir(w3rtDir), { recursive: true });
+  const revPath = join(revisionsDir(w3rtDir), `${revision}.json`);
+  if (!existsSync(revPath)) {
+    const rec: PolicyRevision = { revision, createdAt: nowMs, kind: kindOf(doc), document: doc };
+    writeFileSync(revPath, JSON.stringify(rec, null, 2), { flag: "wx" });
+  }
+
+  const entry: PolicyHistoryEntry = { ts: nowMs, revision, parent, source, kind: kindOf(doc) };
+  appendFileSync(logPath(w3rtDir), JSON.stringify(entry) + "\n");
+  return entry;
+}
+
+// Accepts a full revision hash or a unique prefix (min 6 chars).
+export function resolvePolicyRevision(w3rtDir: string, ref: string): string {
+  const r = ref.trim().toLowerCase();
+  if (!/^[0-9a-f]{6,64}$/.test(r)) throw new Error(`Invalid policy revision: ${ref}`);
+
+  let files: string[] = [];
+  try {
+    files = readdirSync(revisionsDir(w3rtDir)).filter((f) => f.endsWith(".json"));
+  } catch {
+    // no history yet
+  }
+  const matches = files.map((f) => f.slice(0, -5)).filter((id) => id.startsWith(r));
+  if (matches.length === 0) throw new Error(`Unknown policy revision: ${ref}`);
+  if (matches.length > 1) throw new Error(`Ambiguous policy revision: ${ref} (${matches.length} matches)`);
+  return matches[0];
+}
+
+export function loadPolicyRevision(w3rtDir: string, ref: string): PolicyRevision {
+  const revision = resolvePolicyRevision(w3rtDir, ref);
+  const rec = JSON.parse(readFileSync(join(revisionsDir(w3rtDir), `${revision}.json`), "utf-8")) as PolicyRevision;
+  if (policyRevisionId(rec.document) !== revision) throw new Error(`Policy revision ${revision} failed its hash check`);
+  return rec;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Structural diff; arrays are compared as whole values.
+export function diffPolicyDocuments(from: any, to: any, path = ""): PolicyDiffEntry[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const out: PolicyDiffEntry[] = [];
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    for (const k of keys) {
+      const p = path ? `${path}.${k}` : k;
+      if (from[k] === undefined && to[k] !== undefined) out.push({ path: p, change: "added", to: to[k] });
+      else if (from[k] !== undefined && to[k] === undefined) out.push({ path: p, change: "removed", from: from[k] });
+      else out.push(...diffPolicyDocuments(from[k], to[k], p));
+    }
+    return out;
+  }
+  if (canonicalizeJson(from) === canonicalizeJson(to)) return [];
+  return [{ path: path || "$", change: "changed", from, to }];
+}
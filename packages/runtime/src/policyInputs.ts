@@ -0,0 +1,69 @@
+import { legacyToolAliases } from "@w3rt/workflow";
+
+// Tool results the broadcast policy gate reads: the swap quote (USD / SOL size, slippage), the built transaction
+// (transfer fields, USD size of a transfer) and its simulation (simulationOk, simulated out amount).
+//
+// They are recorded per run context from the tool that produced them, by the same tool names the legacy aliases
+// use. Reading ctx.quote / built / simulation instead would drop the limits without notice whenever a workflow
+// sets `config.legacyAliases: false` or binds the result under its own `as` name.
+
+export type PolicyInputs = { quote?: any; built?: any; simulation?: any };
+
+const POLICY_INPUT_KEYS: ReadonlyArray<keyof PolicyInputs> = ["quote", "built", "simulation"];
+
+// Keyed by the run context, so a sub-run (which has a context of its own) starts without its caller's inputs;
+// what it records is handed back to the caller by mergePolicyInputs once it has finished.
+const inputsByCtx = new WeakMap<object, PolicyInputs>();
+
+export function policyInputs(ctx: object): PolicyInputs {
+  let inputs = inputsByCtx.get(ctx);
+  if (!inputs) inputsByCtx.set(ctx, (inputs = {}));
+  return inputs;
+}
+
+export function recordPolicyInputs(ctx: object, tool: string, result: unknown) {
+  const inputs = policyInputs(ctx);
+  for (const key of legacyToolAliases(tool)) {
+    if ((POLICY_INPUT_KEYS as string[]).includes(key)) inputs[key as keyof PolicyInputs] = result;
+  }
+}
+
+// Called with a `use:` sub-run's context after it ran: a library workflow that quotes, builds and simulates leaves
+// the caller's send with the same inputs as if those steps had been its own.
+export function mergePolicyInputs(ctx: object, subCtx: object) {
+  const inputs = policyInputs(ctx);
+  for (const [key, value] of Object.entries(policyInputs(subCtx))) {
+    if (value !== undefined) inputs[key as keyof PolicyInputs] = value;
+  }
+}
+
+function usdStableMints(network: "mainnet" | "testnet"): Set<string> {
+  return network === "mainnet"
+    ? new Set([
+        "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", // USDC
+        "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", // USDT
+      ])
+    : new Set(["4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"]); // devnet USDC
+}
+
+// USD value of a UI amount of `mint`, for the stablecoins above only (no price feed).
+export function stablecoinAmountUsd(mint: unknown, uiAmount: unknown, network: "mainnet" | "testnet"): number | undefined {
+  if (typeof mint !== "string" || !usdStableMints(network).has(mint)) return undefined;
+  const n = Number(uiAmount);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// USD size of the broadcast, from stablecoin legs only (no price feed): a quote that sells USDC / USDT, or a built
+// transfer of one. Undefined for anything else.
+export function deriveAmountUsd(inputs: PolicyInputs, network: "mainnet" | "testnet"): number | undefined {
+  const quote = inputs.quote?.quoteResponse;
+  if (quote && quote.inAmount != null) {
+    const usd = stablecoinAmountUsd(quote.inputMint, Number(quote.inAmount) / 1_000_000, network);
+    if (usd !== undefined) return usd;
+  }
+
+  const summary = inputs.built?.summary;
+  if (summary?.kind === "spl_transfer") return stablecoinAmountUsd(String(summary.tokenMint), summary.amount, network);
+
+  return undefined;
+}
@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import crypto from "node:crypto";
+
+import type { PolicyLoosening } from "@w3rt/policy";
+
+import { withFileLock, writeFileAtomic } from "./fileLock.js";
+
+// Pending (time-locked) policy changes, see `changeControl.loosenDelaySeconds`.
+// Lives next to policy.yaml; the daemon applies due changes, the CLI can list and cancel them. Both change it through
+// `updatePendingPolicyChanges`, which also serializes their writes of policy.yaml that depend on the time lock.
+
+export type PendingPolicyChangeStatus = "pending" | "applied" | "cancelled" | "superseded" | "failed";
+
+export type PendingPolicyChange = {
+  id: string;
+  createdAt: number;
+  effectiveAt: number;
+  source: "apply" | "reset" | "rollback";
+  // revision that was active when the change was queued; if it differs at activation the change is superseded
+  baseRevision: string | null;
+  revision: string;
+  loosenings: PolicyLoosening[];
+  document: any;
+  status: PendingPolicyChangeStatus;
+  resolvedAt?: number;
+  error?: string;
+};
+
+export type PendingPolicyState = { changes: PendingPolicyChange[] };
+
+const MAX_RESOLVED = 100;
+
+export function pendingPolicyPath(w3rtDir: string) {
+  return join(w3rtDir, "policy_pending.json");
+}
+
+export function loadPendingPolicyChanges(statePath: string): PendingPolicyState {
+  try {
+    const j = JSON.parse(readFileSync(statePath, "utf-8"));
+    const changes = Array.isArray(j?.changes)
+      ? j.changes.filter((c: any) => typeof c?.id === "string" && Number.isFinite(c?.effectiveAt) && typeof c?.status === "string")
+      : [];
+    return { changes };
+  } catch {
+    return { changes: [] };
+  }
+}
+
+// Keeps every pending change plus the most recent resolved ones (audit trail).
+export function savePendingPolicyChanges(statePath: string, st: PendingPolicyState) {
+  const pending = st.changes.filter((c) => c.status === "pending");
+  const resolved = st.changes.filter((c) => c.status !== "pending").slice(-MAX_RESOLVED);
+  writeFileAtomic(statePath, JSON.stringify({ changes: [...resolved, ...pending] }, null, 2));
+}
+
+// Loads, changes and saves the state under the lock. `fn` may write policy.yaml as well: checking the time lock
+// against it and writing it (or queueing the change) then happen without the daemon or the CLI in between. The
+// changes of `fn` are not saved if it throws.
+export function updatePendingPolicyChanges<T>(statePath: string, fn: (st: PendingPolicyState) => T): T {
+  return withFileLock(`${statePath}.lock`, () => {
+    const st = loadPendingPolicyChanges(statePath);
+    const out = fn(st);
+    savePendingPolicyChanges(statePath, st);
+    return out;
+  });
+}
+
+export function listPendingPolicyChanges(st: PendingPolicyState): PendingPolicyChange[] {
+  return st.changes.filter((c) => c.status === "pending").sort((a, b) => a.effectiveAt - b.effectiveAt);
+}
+
+export function queuePolicyChange(
+  st: PendingPolicyState,
+  change: Omit<PendingPolicyChange, "id" | "createdAt" | "effectiveAt" | "status">,
+  delaySeconds: number,
+  nowMs = Date.now()
+): PendingPolicyChange {
+  const c: PendingPolicyChange = {
+    id: `pchg_${crypto.randomUUID().slice(0, 16)}`,
+    createdAt: nowMs,
+    effectiveAt: nowMs + delaySeconds * 1000,
+    status: "pending",
+    ...change,
+  };
+  st.changes.push(c);
+  return c;
+}
+
+export function cancelPendingPolicyChange(st: PendingPolicyState, id: string, nowMs = Date.now()): PendingPolicyChange | null {
+  const c = st.changes.find((x) => x.id === id && x.status === "pending");
+  if (!c) return null;
+  c.status = "cancelled";
+  c.resolvedAt = nowMs;
+  return c;
+}
+
+// Pending changes whose delay has elapsed, oldest first.
+export function duePolicyChanges(st: PendingPolicyState, nowMs = Date.now()): PendingPolicyChange[] {
+  return listPendingPolicyChanges(st).filter((c) => c.effectiveAt <= nowMs);
+}
+
+export function resolvePolicyChange(
+  c: PendingPolicyChange,
+  status: Exclude<PendingPolicyChangeStatus, "pending">,
+  nowMs = Date.now(),
+  error?: string
+) {
+  c.status = status;
+  c.resolvedAt = nowMs;
+  if (error) c.error = error;
+}
@@ -0,0 +1,157 @@
+import { readFileSync } from "node:fs";
+import yaml from "js-yaml";
+
+import {
+  PolicyEngine,
+  formatPolicyErrors,
+  policyConfigFromSpec,
+  validatePolicyConfig,
+  validatePolicySpec,
+  type PolicyAction,
+  type PolicyConfig,
+  type PolicyContext,
+  type PolicyEvaluationMode,
+} from "@w3rt/policy";
+import { TraceQuery, type TraceEvent } from "@w3rt/trace";
+
+// Policy what-if: replay the contexts recorded in past `policy.decision` trace events
+// through a candidate policy and report which decisions would change.
+
+export type PolicyFlip = {
+  runId: string;
+  ts: number;
+  stepId?: string;
+  tool?: string;
+  // revision that made the recorded decision (see policyHistory.ts)
+  policyRevision?: string;
+  before: PolicyAction;
+  after: PolicyAction;
+  code?: string;
+  message?: string;
+};
+
+export type PolicyWhatIfReport = {
+  fromTs?: number;
+  runsScanned: number;
+  evaluated: number;
+  // events recorded before contexts were traced (no `policyContext`)
+  skipped: number;
+  unchanged: number;
+  transitions: Record<string, number>;
+  flips: PolicyFlip[];
+};
+
+export type PolicyWhatIfOptions = {
+  fromTs?: number;
+  toTs?: number;
+  runIds?: string[];
+  // cap on returned flips (counts are always complete)
+  limit?: number;
+};
+
+// Accept either a PolicySpec (policySpecVersion: 1) or a legacy PolicyConfig document.
+export function policyConfigFromDocument(doc: any): PolicyConfig {
+  if (!doc || typeof doc !== "object") throw new Error("policy document must be an object");
+  if (doc.policySpecVersion === 1) return policyConfigFromSpec(doc);
+  return doc as PolicyConfig;
+}
+
+// Like policyConfigFromDocument, but refuses documents with invalid rules (unknown identifiers,
+// unparsable or oversized conditions) instead of letting those rules misfire at decision time.
+export function validPolicyConfigFromDocument(doc: any): PolicyConfig {
+  const specErrors = doc?.policySpecVersion === 1 ? validatePolicySpec(doc) : [];
+  if (specErrors.length) throw new Error(`Invalid policy: ${formatPolicyErrors(specErrors)}`);
+  const cfg = policyConfigFromDocument(doc);
+  const errors = validatePolicyConfig(cfg);
+  if (errors.length) throw new Error(`Invalid policy: ${formatPolicyErrors(errors)}`);
+  return cfg;
+}
+
+export function policyEngineFromDocument(doc: any): PolicyEngine {
+  return new PolicyEngine(validPolicyConfigFromDocument(doc));
+}
+
+export function loadPolicyEngineFile(path: string): PolicyEngine {
+  return policyEngineFromDocument(yaml.load(readFileSync(path, "utf-8")));
+}
+
+// "24h", "7d", "30m", an ISO date, or epoch milliseconds.
+export function parseSince(since: string, nowMs = Date.now()): number {
+  const s = since.trim();
+  const rel = s.match(/^(\d+)\s*([smhdw])$/);
+  if (rel) {
+    const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[rel[2] as "s" | "m" | "h" | "d" | "w"];
+    return nowMs - Number(rel[1]) * unit;
+  }
+  if (/^\d{12,}$/.test(s)) return Number(s);
+  const t = Date.parse(s);
+  if (!Number.isFinite(t)) throw new Error(`Invalid --from-runs value: ${since} (use e.g. 24h, 7d, or an ISO date)`);
+  return t;
+}
+
+// Older events store the decision nested as `data.decision.decision`.
+function recordedDecision(data: any): PolicyAction | undefined {
+  const d = typeof data?.decision === "string" ? data.decision : data?.decision?.decision;
+  return d === "allow" || d === "warn" || d === "confirm" || d === "block" ? d : undefined;
+}
+
+export function evaluatePolicyAgainstHistory(
+  w3rtDir: string,
+  engine: PolicyEngine,
+  opts: PolicyWhatIfOptions = {}
+): PolicyWhatIfReport {
+  const query = new TraceQuery(w3rtDir);
+  const runIds = opts.runIds?.length ? opts.runIds : query.listRuns();
+
+  const report: PolicyWhatIfReport = {
+    fromTs: opts.fromTs,
+    runsScanned: 0,
+    evaluated: 0,
+    skipped: 0,
+    unchanged: 0,
+    transitions: {},
+    flips: [],
+  };
+
+  for (const runId of runIds) {
+    const events: TraceEvent[] = query.queryEvents({ runId, types: ["policy.decision"], fromTs: opts.fromTs, toTs: opts.toTs });
+    if (!events.length) continue;
+    report.runsScanned++;
+
+    for (const e of events) {
+      const data = e.data as any;
+      const ctx = data?.policyContext as PolicyContext | undefined;
+      const before = recordedDecision(data);
+      if (!ctx || typeof ctx !== "object" || !before) {
+        report.skipped++;
+        continue;
+      }
+
+      const mode: PolicyEvaluationMode = data.evaluationMode === "all" ? "all" : "first";
+      const after = engine.decide(ctx, { mode });
+      report.evaluated++;
+
+      if (after.decision === before) {
+        report.unchanged++;
+        continue;
+      }
+
+      const key = `${before}->${after.decision}`;
+      report.transitions[key] = (report.transitions[key] ?? 0) + 1;
+      if (opts.limit == null || report.flips.length < opts.limit) {
+        report.flips.push({
+          runId,
+          ts: e.ts,
+          stepId: e.stepId,
+          tool: e.tool,
+          ...(typeof data.policyRevision === "string" ? { policyRevision: data.policyRevision } : {}),
+          before,
+          after: after.decision,
+          ...(after.decision !== "allow" ? { code: after.code, message: after.message } : {}),
+        });
+      }
+    }
+  }
+
+  return report;
+}
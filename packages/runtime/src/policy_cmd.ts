@@ -1,6 +1,27 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
 import os from "node:os";
+import yaml from "js-yaml";
+
+import { loosenDelaySeconds, policyLoosenings, validatePolicySpec } from "@w3rt/policy";
+import { evaluatePolicyAgainstHistory, loadPolicyEngineFile, parseSince, policyConfigFromDocument } from "./policyWhatIf.js";
+import {
+  diffPolicyDocuments,
+  headPolicyRevision,
+  loadPolicyHistory,
+  loadPolicyRevision,
+  policyRevisionId,
+  recordPolicyRevision,
+} from "./policyHistory.js";
+import {
+  cancelPendingPolicyChange,
+  listPendingPolicyChanges,
+  loadPendingPolicyChanges,
+  pendingPolicyPath,
+  queuePolicyChange,
+  updatePendingPolicyChanges,
+} from "./policyTimelock.js";
+import { writeFileAtomic } from "./fileLock.js";
 
 type TraceEvent = {
   type: string;
@@ -43,3 +64,138 @@ export function policySuggestFromRun(runId: string) {
     console.log(`    - \"${p}\"`);
   }
 }
+
+// What-if: replay recorded policy.decision contexts through a candidate policy file.
+export function policyTestFromRuns(policyFile: string, since: string, opts: { json?: boolean } = {}) {
+  const engine = loadPolicyEngineFile(resolve(process.cwd(), policyFile));
+  const report = evaluatePolicyAgainstHistory(w3rtDir(), engine, { fromTs: parseSince(since) });
+
+  if (opts.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report;
+  }
+
+  console.log(`runs scanned: ${report.runsScanned}`);
+  console.log(`decisions replayed: ${report.evaluated} (unchanged ${report.unchanged}, skipped ${report.skipped} without recorded context)`);
+
+  const transitions = Object.entries(report.transitions);
+  if (!transitions.length) {
+    console.log("No decisions would change.");
+    return report;
+  }
+
+  console.log("changes:");
+  for (const [k, n] of transitions.sort((a, b) => b[1] - a[1])) console.log(`  ${k.replace("->", " -> ")}: ${n}`);
+  console.log("flipped decisions:");
+  for (const f of report.flips) {
+    const where = [f.runId, f.stepId, f.tool].filter(Boolean).join(" ");
+    console.log(`  ${new Date(f.ts).toISOString()} ${where}: ${f.before} -> ${f.after}${f.code ? ` (${f.code})` : ""}`);
+  }
+  return report;
+}
+
+function currentPolicyRevision(): string | null {
+  const p = join(w3rtDir(), "policy.yaml");
+  if (!existsSync(p)) return null;
+  try {
+    return policyRevisionId(yaml.load(readFileSync(p, "utf-8")));
+  } catch {
+    return null;
+  }
+}
+
+export function policyHistoryList(limit = 20) {
+  const entries = loadPolicyHistory(w3rtDir()).reverse().slice(0, limit);
+  if (!entries.length) {
+    console.log("No policy history yet (revisions are recorded when the daemon loads or applies a policy).");
+    return;
+  }
+  const current = currentPolicyRevision();
+  for (const e of entries) {
+    const mark = e.revision === current ? "*" : " ";
+    console.log(`${mark} ${e.revision.slice(0, 12)}  ${new Date(e.ts).toISOString()}  ${e.source.padEnd(8)} ${e.kind}`);
+  }
+}
+
+export function policyDiff(fromRef: string, toRef?: string) {
+  const to = toRef ?? currentPolicyRevision() ?? headPolicyRevision(w3rtDir());
+  if (!to) throw new Error("No current policy revision to diff against");
+
+  const a = loadPolicyRevision(w3rtDir(), fromRef);
+  const b = loadPolicyRevision(w3rtDir(), to);
+  const changes = diffPolicyDocuments(a.document, b.document);
+
+  console.log(`--- ${a.revision.slice(0, 12)}`);
+  console.log(`+++ ${b.revision.slice(0, 12)}`);
+  if (!changes.length) {
+    console.log("(no changes)");
+    return changes;
+  }
+  for (const c of changes) {
+    if (c.change === "added") console.log(`+ ${c.path}: ${JSON.stringify(c.to)}`);
+    else if (c.change === "removed") console.log(`- ${c.path}: ${JSON.stringify(c.from)}`);
+    else console.log(`~ ${c.path}: ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`);
+  }
+  return changes;
+}
+
+// Writes the revision back to <w3rtDir>/policy.yaml. A running daemon should use POST /v1/policy/rollback instead
+// (or restart) to pick it up.
+export function policyRollback(ref: string) {
+  const target = loadPolicyRevision(w3rtDir(), ref);
+  if (target.kind === "spec") {
+    const errors = validatePolicySpec(target.document);
+    if (errors.length) throw new Error(`Revision ${target.revision} is not a valid policy spec: ${errors.map((e) => `${e.path}: ${e.message}`).join("; ")}`);
+  }
+
+  // Same time lock as the daemon: loosening rollbacks wait for the active policy's delay. Checked and written under the
+  // pending-changes lock, so a running daemon cannot apply a queued change in between.
+  const policyPath = join(w3rtDir(), "policy.yaml");
+  const queued = updatePendingPolicyChanges(pendingPolicyPath(w3rtDir()), (st) => {
+    if (existsSync(policyPath)) {
+      const currentDoc = yaml.load(readFileSync(policyPath, "utf-8"));
+      const current = policyConfigFromDocument(currentDoc);
+      const delay = loosenDelaySeconds(current);
+      const loosenings = delay ? policyLoosenings(current, policyConfigFromDocument(target.document)) : [];
+      if (loosenings.length) {
+        return queuePolicyChange(
+          st,
+          { source: "rollback", baseRevision: policyRevisionId(currentDoc), revision: target.revision, loosenings, document: target.document },
+          delay
+        );
+      }
+    }
+    writeFileAtomic(policyPath, yaml.dump(target.document));
+    return null;
+  });
+  if (queued) {
+    console.log(`rollback loosens the policy; queued as ${queued.id}, effective ${new Date(queued.effectiveAt).toISOString()}`);
+    return target.revision;
+  }
+
+  recordPolicyRevision(w3rtDir(), target.document, "rollback");
+  console.log(`policy.yaml rolled back to ${target.revision}`);
+  return target.revision;
+}
+
+export function policyPendingList() {
+  const changes = listPendingPolicyChanges(loadPendingPolicyChanges(pendingPolicyPath(w3rtDir())));
+  if (!changes.length) {
+    console.log("No pending policy changes.");
+    return changes;
+  }
+  const now = Date.now();
+  for (const c of changes) {
+    const eta = c.effectiveAt <= now ? "due (applied by the daemon)" : `in ${Math.ceil((c.effectiveAt - now) / 1000)}s`;
+    console.log(`${c.id}  ${c.source}  rev ${c.revision.slice(0, 12)}  effective ${new Date(c.effectiveAt).toISOString()} (${eta})`);
+    for (const l of c.loosenings) console.log(`    ${l.message}: ${JSON.stringify(l.from)} -> ${JSON.stringify(l.to)}`);
+  }
+  return changes;
+}
+
+export function policyPendingCancel(id: string) {
+  const c = updatePendingPolicyChanges(pendingPolicyPath(w3rtDir()), (st) => cancelPendingPolicyChange(st, id));
+  if (!c) throw new Error(`No pending policy change with id ${id}`);
+  console.log(`cancelled ${c.id}`);
+  return c;
+}
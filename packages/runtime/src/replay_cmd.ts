@@ -3,7 +3,7 @@ import { join, resolve } from "node:path";
 import os from "node:os";
 import yaml from "js-yaml";
 
-import type { Workflow, WorkflowStage, WorkflowAction } from "@w3rt/workflow";
+import { evaluateExpression, stageOrder, type Workflow, type WorkflowStage, type WorkflowAction } from "@w3rt/workflow";
 
 type Dict = Record<string, any>;
 
@@ -26,45 +26,6 @@ function loadYamlFile<T>(path: string): T {
   return yaml.load(raw) as T;
 }
 
-function getByPath(obj: any, path: string): any {
-  const parts = path.split(".").filter(Boolean);
-  let cur = obj;
-  for (const p of parts) {
-    if (cur == null) return undefined;
-    cur = cur[p];
-  }
-  return cur;
-}
-
-// Same tiny evaluator as runner (MVP)
-function evalWhen(expr: string, ctx: Dict): boolean {
-  const m = expr.trim().match(/^([a-zA-Z0-9_\.]+)\s*(==|>=|<=|>|<)\s*(.+)$/);
-  if (!m) return false;
-  const [, leftPath, op, rightRaw] = m;
-  const left = getByPath(ctx, leftPath);
-
-  let right: any = rightRaw.trim();
-  if (right === "true") right = true;
-  else if (right === "false") right = false;
-  else if (!Number.isNaN(Number(right))) right = Number(right);
-  else right = right.replace(/^['\"]|['\"]$/g, "");
-
-  switch (op) {
-    case "==":
-      return left === right;
-    case ">":
-      return Number(left) > Number(right);
-    case ">=":
-      return Number(left) >= Number(right);
-    case "<":
-      return Number(left) < Number(right);
-    case "<=":
-      return Number(left) <= Number(right);
-    default:
-      return false;
-  }
-}
-
 function loadRunEvents(runId: string): TraceEvent[] {
   const p = join(w3rtDir(), "runs", runId, "trace.jsonl");
   if (!existsSync(p)) {
@@ -136,9 +97,9 @@ export function replayDry(runId: string, opts: { workflowPath?: string } = {}) {
   console.log(`workflow: ${wf.name} v${wf.version}`);
   console.log(`workflowPath: ${wfPath}`);
 
-  for (const stage of wf.stages) {
+  for (const stage of stageOrder(wf.stages)) {
     if (stage.when) {
-      const ok = evalWhen(stage.when, ctx);
+      const ok = evaluateExpression(stage.when, ctx);
       console.log(`- stage ${stage.name}: when (${stage.when}) => ${ok}`);
       if (!ok) continue;
     } else {
@@ -152,17 +113,22 @@ export function replayDry(runId: string, opts: { workflowPath?: string } = {}) {
       } else {
         console.log(`  - approval: required`);
         for (const c of conditions) {
-          const ok = evalWhen(c, ctx);
+          const ok = evaluateExpression(c, ctx);
           console.log(`    - condition (${c}) => ${ok}`);
         }
       }
-      const allOk = conditions.every((c) => evalWhen(c, ctx));
+      const allOk = conditions.every((c) => evaluateExpression(c, ctx));
       if (!allOk) throw new Error(`Approval conditions failed for stage ${stage.name}`);
       continue;
     }
 
     for (const action of stage.actions) {
       const stepId = stage.name;
+      if (!action.tool) {
+        // sub-workflow results live in the sub-run's trace
+        console.log(`  - use ${action.use}: not replayed`);
+        continue;
+      }
       const tool = action.tool;
       const artifactPath = findArtifact(events, tool, stepId);
       if (!artifactPath) {
@@ -1,14 +1,33 @@
-import { readFileSync, mkdirSync, writeFileSync } from "node:fs";
-import { join, dirname } from "node:path";
+import { existsSync, readFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { join, dirname, resolve } from "node:path";
 import os from "node:os";
 import crypto from "node:crypto";
 import yaml from "js-yaml";
 
-import type { Workflow, WorkflowStage, WorkflowAction } from "@w3rt/workflow";
+import {
+  bindExplicitOutputs,
+  evaluateExpression,
+  foreachItems,
+  iterationStepId,
+  parseDuration,
+  pollDone,
+  pollExhaustedError,
+  pollSettings,
+  resolveInputs,
+  stageOrder,
+  subWorkflowKey,
+  workflowOutputs,
+  parseWorkflowFile, type Workflow, type WorkflowStage, type WorkflowAction } from "@w3rt/workflow";
 import { TraceStore } from "@w3rt/trace";
-import { PolicyEngine, type PolicyConfig } from "@w3rt/policy";
+import { PolicyEngine, type PolicyContext } from "@w3rt/policy";
 import { defaultRegistry, jupiterAdapter, meteoraDlmmAdapter } from "@w3rt/adapters";
 import { writeMemoryRecord, type MemoryRecordV1 } from "./memoryRecords.js";
+import { appendVolume, volumeLedgerPath, volumeWalletId, walletVolumeUsd } from "./volumeLedger.js";
+import { policyRevisionId } from "./policyHistory.js";
+import { validPolicyConfigFromDocument } from "./policyWhatIf.js";
+import { transferPolicyFieldsFromParams, transferPolicyFieldsFromSummary } from "./transferPolicy.js";
+import { deriveAmountUsd, mergePolicyInputs, policyInputs, recordPolicyInputs } from "./policyInputs.js";
+import { actionKey, checkpointContext, fileSha256, loadCheckpoint, saveCheckpoint, type RunCheckpoint } from "./checkpoint.js";
 
 import {
   AddressLookupTableAccount,
@@ -89,6 +108,8 @@ function createSplTransferIx(params: {
 export interface RunOptions {
   w3rtDir?: string;
   approve?: (prompt: string) => Promise<boolean>;
+  // values for the workflow's `inputs:`, e.g. from `--input amount=0.1`
+  inputs?: Record<string, unknown>;
 }
 
 type Dict = Record<string, any>;
@@ -311,41 +332,46 @@ function renderTemplate(value: any, ctx: Dict): any {
   return value;
 }
 
-// MVP: tiny expression evaluator supporting:
-// - path op number/bool
-// - op in: >, >=, <, <=, ==
-function evalWhen(expr: string, ctx: Dict): boolean {
-  const m = expr.trim().match(/^([a-zA-Z0-9_\.]+)\s*(==|>=|<=|>|<)\s*(.+)$/);
-  if (!m) return false;
-  const [, leftPath, op, rightRaw] = m;
-  const left = getByPath(ctx, leftPath);
-
-  let right: any = rightRaw.trim();
-  if (right === "true") right = true;
-  else if (right === "false") right = false;
-  else if (!Number.isNaN(Number(right))) right = Number(right);
-  else right = right.replace(/^['\"]|['\"]$/g, "");
-
-  switch (op) {
-    case "==":
-      return left === right;
-    case ">":
-      return Number(left) > Number(right);
-    case ">=":
-      return Number(left) >= Number(right);
-    case "<":
-      return Number(left) < Number(right);
-    case "<=":
-      return Number(left) <= Number(right);
-    default:
-      return false;
-  }
-}
-
 interface Tool {
   name: string;
   meta: { action: string; sideEffect: "none" | "broadcast"; chain?: string; risk?: "low" | "high" };
   execute: (params: Dict, ctx: Dict) => Promise<any>;
+  // Broadcast tools that can name their transaction before sending it (and find it on chain later)
+  // are safe to resume: see resumeBroadcast.
+  txId?: (params: Dict, ctx: Dict) => string;
+  lookupTx?: (txId: string) => Promise<any | null>;
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function base58(bytes: Uint8Array): string {
+  let n = BigInt("0x" + (Buffer.from(bytes).toString("hex") || "0"));
+  let out = "";
+  while (n > 0n) {
+    out = BASE58_ALPHABET[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out = "1" + out;
+  return out;
+}
+
+// Ed25519 signatures are deterministic, so signing the same transaction again yields the same signature;
+// a resumed run can compute it before sending and look it up afterwards.
+function signSolanaTx(params: Dict, ctx: Dict): VersionedTransaction {
+  const kp = loadSolanaKeypair();
+  if (!kp) {
+    throw new Error(
+      "Missing Solana keypair. Set W3RT_SOLANA_PRIVATE_KEY, or W3RT_SOLANA_KEYPAIR_PATH, or configure Solana CLI (solana config set --keypair ...)"
+    );
+  }
+
+  const raw = Buffer.from(String(params.txB64), "base64");
+  const tx = VersionedTransaction.deserialize(raw);
+
+  const extra = (ctx as any)?.__extraSigners as Uint8Array[] | undefined;
+  const extraKps = Array.isArray(extra) ? extra.map((sk) => Keypair.fromSecretKey(sk)) : [];
+  tx.sign([kp, ...extraKps]);
+  return tx;
 }
 
 function createMockTools(): Tool[] {
@@ -679,7 +705,7 @@ function createMockTools(): Tool[] {
 
         // If this is a swap, populate ctx.quote so existing simulation/policy paths work.
         if (action === "solana.swap_exact_in") {
-          ctx.quote = {
+          ctx.quote = policyInputs(ctx).quote = {
             ok: true,
             quoteId: `ad_${adapterId}_${Date.now()}`,
             requestedSlippageBps: res.meta.slippageBps,
@@ -752,7 +778,7 @@ function createMockTools(): Tool[] {
             inputMint: quote.inputMint,
             outputMint: quote.outputMint,
             amount: quote.inAmount,
-            slippageBps: ctx.quote?.requestedSlippageBps ?? 50,
+            slippageBps: policyInputs(ctx).quote?.requestedSlippageBps ?? 50,
           },
           { userPublicKey: kp.publicKey.toBase58() }
         );
@@ -775,7 +801,7 @@ function createMockTools(): Tool[] {
         // This lets policy compare quote.outAmount vs simulatedOutAmount.
         let simMeta: any = {};
         try {
-          const quote = ctx.quote?.quoteResponse;
+          const quote = policyInputs(ctx).quote?.quoteResponse;
           const kp = loadSolanaKeypair();
           if (quote && kp) {
             const outputMintStr = String(quote.outputMint);
@@ -905,26 +931,24 @@ function createMockTools(): Tool[] {
       name: "solana_send_tx",
       meta: { action: "swap", sideEffect: "broadcast", chain: "solana", risk: "high" },
       async execute(params, ctx) {
-        const kp = loadSolanaKeypair();
-        if (!kp) {
-          throw new Error(
-            "Missing Solana keypair. Set W3RT_SOLANA_PRIVATE_KEY, or W3RT_SOLANA_KEYPAIR_PATH, or configure Solana CLI (solana config set --keypair ...)"
-          );
-        }
-
+        const tx = signSolanaTx(params, ctx);
         const rpc = resolveSolanaRpc();
         const conn = new Connection(rpc, { commitment: "confirmed" as Commitment });
 
-        const raw = Buffer.from(String(params.txB64), "base64");
-        const tx = VersionedTransaction.deserialize(raw);
-
-        const extra = (ctx as any)?.__extraSigners as Uint8Array[] | undefined;
-        const extraKps = Array.isArray(extra) ? extra.map((sk) => Keypair.fromSecretKey(sk)) : [];
-        tx.sign([kp, ...extraKps]);
-
         const sig = await conn.sendTransaction(tx, { skipPreflight: false, maxRetries: 3 });
         return { ok: true, signature: sig };
       },
+      txId(params, ctx) {
+        return base58(signSolanaTx(params, ctx).signatures[0]);
+      },
+      async lookupTx(signature) {
+        const conn = new Connection(resolveSolanaRpc(), { commitment: "confirmed" as Commitment });
+        const st = await conn.getSignatureStatuses([signature], { searchTransactionHistory: true });
+        const status = st.value[0];
+        if (!status) return null;
+        if (status.err) return { ok: false, signature, err: status.err };
+        return { ok: true, signature };
+      },
     },
     {
       name: "solana_confirm_tx",
@@ -955,20 +979,83 @@ function toolMap(tools: Tool[]) {
   return new Map(tools.map((t) => [t.name, t] as const));
 }
 
+// Checkpoint state of a resumable run (runWorkflowFromFile / resumeWorkflowRun), shared with its sub-runs.
+type Checkpointer = { w3rtDir: string; state: RunCheckpoint };
+
+function stepKey(ctx: Dict, stepId: string, index: number | "approval") {
+  return `${ctx.__keyPrefix ?? ""}${actionKey(stepId, index)}`;
+}
+
+// Only the caller's own actions are checkpointed; sub-runs (`__keyPrefix` set) restart with their `use` action.
+function actionCompleted(ctx: Dict, key: string) {
+  const cp = ctx.__checkpoint as Checkpointer | undefined;
+  return !!cp && !ctx.__keyPrefix && cp.state.completed.includes(key);
+}
+
+function completeAction(ctx: Dict, key: string) {
+  const cp = ctx.__checkpoint as Checkpointer | undefined;
+  if (!cp || ctx.__keyPrefix) return;
+  cp.state.completed.push(key);
+  cp.state.ctx = checkpointContext(ctx);
+  cp.state.policyInputs = checkpointContext(policyInputs(ctx));
+  saveCheckpoint(cp.w3rtDir, cp.state);
+}
+
+function stepCompleted(stage: WorkflowStage, stepId: string, ctx: Dict) {
+  return stage.actions.length > 0 && stage.actions.every((_, i) => actionCompleted(ctx, stepKey(ctx, stepId, i)));
+}
+
+// A resumed run takes the branches the original run took, even if the restored context would now decide otherwise.
+function stageSelected(stage: WorkflowStage, ctx: Dict): boolean {
+  const cp = ctx.__checkpoint as Checkpointer | undefined;
+  if (!cp || ctx.__keyPrefix) return evaluateExpression(stage.when!, ctx);
+  const prev = cp.state.decisions[stage.name];
+  if (prev !== undefined) return prev;
+  const ok = evaluateExpression(stage.when!, ctx);
+  cp.state.decisions[stage.name] = ok;
+  saveCheckpoint(cp.w3rtDir, cp.state);
+  return ok;
+}
+
+// Applies `approval.timeout` to the terminal prompt; the unanswered prompt is abandoned.
+async function approveWithin(answer: Promise<boolean>, stage: WorkflowStage, trace: TraceStore, runId: string): Promise<boolean> {
+  if (stage.approval?.timeout === undefined) return answer;
+  const timeoutMs = parseDuration(stage.approval.timeout);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      trace.emit({ ts: Date.now(), type: "approval.expired", runId, stepId: stage.name, data: { timeoutMs } });
+      reject(new Error(`Approval for stage '${stage.name}' expired after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([answer, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 async function runStage(stage: WorkflowStage, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string) {
   if (stage.when) {
-    const ok = evalWhen(stage.when, ctx);
+    const ok = stageSelected(stage, ctx);
     if (!ok) return;
   }
 
   const stepId = stage.name;
+  const looped = stage.foreach !== undefined || stage.until !== undefined || stage.while !== undefined;
+  if (stage.type === "approval" && stage.approval?.required) {
+    if (actionCompleted(ctx, stepKey(ctx, stepId, "approval"))) return;
+  } else if (!looped && stepCompleted(stage, stepId, ctx)) {
+    return;
+  }
+
   trace.emit({ ts: Date.now(), type: "step.started", runId, stepId, data: { stageType: stage.type } });
 
   if (stage.type === "approval") {
     const required = stage.approval?.required ?? false;
     if (required) {
       const conditions = stage.approval?.conditions ?? [];
-      const allOk = conditions.every((c: string) => evalWhen(c, ctx));
+      const allOk = conditions.every((c: string) => evaluateExpression(c, ctx));
       if (!allOk) {
         trace.emit({ ts: Date.now(), type: "step.finished", runId, stepId, data: { approved: false, reason: "conditions_failed" } });
         throw new Error(`Approval conditions failed for stage ${stage.name}`);
@@ -976,27 +1063,190 @@ async function runStage(stage: WorkflowStage, tools: Map<string, Tool>, ctx: Dic
 
       const approveFn = ctx.__approve as RunOptions["approve"] | undefined;
       const prompt = `Approve stage '${stage.name}'?`;
-      const approved = approveFn ? await approveFn(prompt) : false;
+      const approved = approveFn ? await approveWithin(approveFn(prompt), stage, trace, runId) : false;
       trace.emit({ ts: Date.now(), type: "step.finished", runId, stepId, data: { approved } });
       if (!approved) throw new Error("User rejected approval");
+      completeAction(ctx, stepKey(ctx, stepId, "approval"));
       return;
     }
   }
 
-  for (const action of stage.actions) {
-    await runAction(action, tools, ctx, trace, runId, stepId);
+  if (stage.foreach) {
+    const items = foreachItems(stage, ctx);
+    const as = stage.foreach.as ?? "item";
+    try {
+      for (let i = 0; i < items.length; i++) {
+        ctx[as] = items[i];
+        ctx.loop = { index: i, count: items.length };
+        await runIteration(stage, i, tools, ctx, trace, runId);
+      }
+    } finally {
+      delete ctx[as];
+      delete ctx.loop;
+    }
+  } else if (stage.until !== undefined || stage.while !== undefined) {
+    const { maxAttempts, intervalMs } = pollSettings(stage);
+    let done = false;
+    try {
+      for (let i = 0; i < maxAttempts && !done; i++) {
+        const replayed = stepCompleted(stage, iterationStepId(stage.name, i), ctx);
+        if (i > 0 && !replayed) await sleep(intervalMs);
+        ctx.loop = { index: i, count: maxAttempts };
+        await runIteration(stage, i, tools, ctx, trace, runId);
+        done = pollDone(stage, ctx);
+      }
+    } finally {
+      delete ctx.loop;
+    }
+    if (!done) throw pollExhaustedError(stage, maxAttempts);
+  } else {
+    for (let i = 0; i < stage.actions.length; i++) {
+      await runAction(stage.actions[i], tools, ctx, trace, runId, stepId, i);
+    }
   }
 
   trace.emit({ ts: Date.now(), type: "step.finished", runId, stepId });
 }
 
-async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string, stepId: string) {
-  const t = tools.get(action.tool);
+// One pass of a foreach / until / while stage, traced as step `<stage>[<index>]`.
+async function runIteration(stage: WorkflowStage, index: number, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string) {
+  const stepId = iterationStepId(stage.name, index);
+  if (stepCompleted(stage, stepId, ctx)) return;
+  trace.emit({ ts: Date.now(), type: "step.started", runId, stepId, data: { stageType: stage.type, parent: stage.name, iteration: index } });
+  for (let i = 0; i < stage.actions.length; i++) {
+    await runAction(stage.actions[i], tools, ctx, trace, runId, stepId, i);
+  }
+  trace.emit({ ts: Date.now(), type: "step.finished", runId, stepId, data: { parent: stage.name, iteration: index } });
+}
+
+// Runs a `use` action's library workflow as its own traced run; `workflow.called` / `workflow.result` in the
+// caller's trace and `parentRunId` in the sub-run's `run.started` link the two.
+async function runSubWorkflow(action: WorkflowAction, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string, stepId: string, key: string) {
+  const sub = (ctx.__workflows as Record<string, Workflow> | undefined)?.[action.use!];
+  if (!sub) throw new Error(`Unknown workflow: ${action.use}`);
+
+  const inputs = resolveInputs(sub.inputs, renderTemplate(action.inputs ?? {}, ctx));
+  if (inputs.errors.length) throw new Error(`Workflow '${action.use}' failed: Invalid inputs: ${inputs.errors.join("; ")}`);
+
+  const subRunId = crypto.randomUUID();
+  const subCtx: Dict = {};
+  for (const [k, v] of Object.entries(ctx)) if (k.startsWith("__")) subCtx[k] = v;
+  Object.assign(subCtx, {
+    __legacyAliases: sub.config?.legacyAliases !== false,
+    __keyPrefix: `${key}/`,
+    inputs: inputs.values,
+    steps: {},
+  });
+  trace.emit({
+    ts: Date.now(),
+    type: "workflow.called",
+    runId,
+    stepId,
+    data: { workflow: sub.name, use: action.use, subRunId, inputs: inputs.values },
+  });
+  trace.emit({
+    ts: Date.now(),
+    type: "run.started",
+    runId: subRunId,
+    data: { workflow: sub.name, version: sub.version, inputs: inputs.values, parentRunId: runId, parentStepId: stepId },
+  });
+
+  try {
+    for (const stage of stageOrder(sub.stages)) {
+      await runStage(stage, tools, subCtx, trace, subRunId);
+    }
+  } catch (err: any) {
+    const error = String(err?.message ?? err);
+    trace.emit({ ts: Date.now(), type: "run.finished", runId: subRunId, data: { ok: false, error, parentRunId: runId } });
+    trace.emit({ ts: Date.now(), type: "workflow.result", runId, stepId, data: { workflow: sub.name, subRunId, ok: false, error } });
+    throw new Error(`Workflow '${action.use}' failed: ${error}`);
+  }
+  trace.emit({ ts: Date.now(), type: "run.finished", runId: subRunId, data: { ok: true, parentRunId: runId } });
+  trace.emit({ ts: Date.now(), type: "workflow.result", runId, stepId, data: { workflow: sub.name, subRunId, ok: true } });
+
+  mergePolicyInputs(ctx, subCtx);
+  const outputs = workflowOutputs(sub, subCtx);
+  ctx[subWorkflowKey(action.use!)] = outputs;
+  bindExplicitOutputs(action, ctx, outputs);
+  return outputs;
+}
+
+// `index` is the action's position in its step; together they form the checkpoint key (see checkpoint.ts).
+async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string, stepId: string, index: number) {
+  const key = stepKey(ctx, stepId, index);
+  if (actionCompleted(ctx, key)) return undefined;
+  const result = action.use !== undefined
+    ? await runSubWorkflow(action, tools, ctx, trace, runId, stepId, key)
+    : await runTool(action, tools, ctx, trace, runId, stepId, key);
+  completeAction(ctx, key);
+  return result;
+}
+
+// On resume, the result of a broadcast this run already made, or null if it still has to be sent.
+// A broadcast that was pending when the run stopped is looked up on chain by its transaction id; one
+// whose tool cannot be looked up is never sent a second time.
+async function resumeBroadcast(t: Tool, key: string, ctx: Dict): Promise<any | null> {
+  const cp = ctx.__checkpoint as Checkpointer | undefined;
+  if (!cp) return null;
+  if (key in cp.state.sent) return cp.state.sent[key];
+  const pending = cp.state.pending;
+  if (pending?.key !== key) return null;
+  if (!pending.txId || !t.lookupTx) {
+    throw new Error(`Broadcast ${key} (${t.name}) may already have been sent and cannot be checked on chain; refusing to send it again`);
+  }
+  const found = await t.lookupTx(pending.txId);
+  if (found) return found;
+  cp.state.pending = undefined;
+  saveCheckpoint(cp.w3rtDir, cp.state);
+  return null;
+}
+
+// Convention: store key results for templating (legacy aliases, see config.legacyAliases)
+function bindToolResult(t: Tool, action: WorkflowAction, ctx: Dict, result: any) {
+  recordPolicyInputs(ctx, t.name, result);
+  if (ctx.__legacyAliases !== false) {
+    if (t.name === "calculate_opportunity") ctx.opportunity = result;
+    if (t.name === "simulate_swap") ctx.simulation = result;
+    if (t.name === "swap") ctx.result = { ...(ctx.result ?? {}), ...(result ?? {}) };
+
+    // Solana bindings
+    if (t.name === "solana_balance") ctx.balance = result;
+    if (t.name === "solana_token_accounts") ctx.tokenAccounts = result;
+    if (t.name === "solana_build_transfer_tx") ctx.built = result;
+    if (t.name === "solana_adapter_build_tx") ctx.built = result;
+
+    // Solana swap workflow bindings
+    if (t.name === "solana_jupiter_quote") ctx.quote = result;
+    if (t.name === "solana_jupiter_build_tx") ctx.built = result;
+    if (t.name === "solana_simulate_tx") ctx.simulation = result;
+    if (t.name === "solana_send_tx") ctx.submitted = result;
+    if (t.name === "solana_confirm_tx") ctx.confirmed = result;
+  }
+  bindExplicitOutputs(action, ctx, result);
+}
+
+async function runTool(action: WorkflowAction, tools: Map<string, Tool>, ctx: Dict, trace: TraceStore, runId: string, stepId: string, key: string) {
+  const t = tools.get(action.tool!);
   if (!t) throw new Error(`Unknown tool: ${action.tool}`);
 
   const params = renderTemplate(action.params ?? {}, ctx);
   trace.emit({ ts: Date.now(), type: "tool.called", runId, stepId, tool: t.name, data: { params } });
 
+  const cp = ctx.__checkpoint as Checkpointer | undefined;
+  if (t.meta.sideEffect === "broadcast") {
+    const prior = await resumeBroadcast(t, key, ctx);
+    if (prior !== null) {
+      trace.emit({ ts: Date.now(), type: "tool.result", runId, stepId, tool: t.name, data: { result: prior, resumed: true } });
+      if (cp) {
+        cp.state.sent[key] = prior;
+        cp.state.pending = undefined;
+        saveCheckpoint(cp.w3rtDir, cp.state);
+      }
+      bindToolResult(t, action, ctx, prior);
+      return prior;
+    }
+  }
+
   // Policy gate: only for side-effect tools in MVP
   if (t.meta.sideEffect === "broadcast") {
     const engine = ctx.__policy as PolicyEngine | undefined;
@@ -1014,6 +1264,11 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
       const secondsSinceLastBroadcast = typeof last === "number" ? (now - last) / 1000 : undefined;
       const broadcastsLastMinute = hist.timestampsMs.filter((ts) => now - ts < 60_000).length;
 
+      // Daily volume budget state (per signing wallet)
+      const ledgerPath = volumeLedgerPath(w3rtDir);
+      const wallet = volumeWalletId(t.meta.chain, loadSolanaKeypair()?.publicKey.toBase58());
+      const volumeUsdLast24h = walletVolumeUsd(ledgerPath, wallet, now);
+
       let programIds: string[] | undefined;
       let programIdsKnown: boolean | undefined;
       if (t.meta.chain === "solana" && typeof (params as any).txB64 === "string") {
@@ -1026,19 +1281,10 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
       }
 
       // best-effort amount/slippage context
-      const quoteResult = ctx.quote;
+      const inputs = policyInputs(ctx);
+      const quoteResult = inputs.quote;
       const quote = quoteResult?.quoteResponse;
 
-      // Known stablecoin mints (USDC/USDT) where ui amount == USD amount.
-      const USD_MINTS_6 = new Set<string>();
-      if (network === "mainnet") {
-        USD_MINTS_6.add("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"); // USDC
-        USD_MINTS_6.add("Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"); // USDT
-      } else {
-        // devnet USDC (commonly used)
-        USD_MINTS_6.add("4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU");
-      }
-
       // Prefer the user-requested slippage (deterministic) over any quote field shape.
       const slippageBps = typeof quoteResult?.requestedSlippageBps === "number"
         ? quoteResult.requestedSlippageBps
@@ -1058,15 +1304,10 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
         }
       }
 
-      // Prefer swap quote inAmount for stablecoins (deterministic USD value).
-      let amountUsd: number | undefined;
-      if (typeof inMint === "string" && USD_MINTS_6.has(inMint) && typeof inAmount === "string") {
-        const n = Number(inAmount);
-        if (Number.isFinite(n)) amountUsd = n / 1_000_000;
-      }
+      const amountUsd = deriveAmountUsd(inputs, network);
 
       // If this is a transfer built by our tool, use its summary.
-      const builtSummary = ctx.built?.summary;
+      const builtSummary = inputs.built?.summary;
       if (builtSummary && builtSummary.kind === "sol_transfer") {
         const amtUi = Number(builtSummary.amount);
         if (Number.isFinite(amtUi)) {
@@ -1074,17 +1315,12 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
           amountLamports = Math.round(amtUi * 1_000_000_000);
         }
       }
-      if (amountUsd == null && builtSummary && builtSummary.kind === "spl_transfer") {
-        const mint = String(builtSummary.tokenMint);
-        const amtUi = Number(builtSummary.amount);
-        if (USD_MINTS_6.has(mint) && Number.isFinite(amtUi)) amountUsd = amtUi;
-      }
 
       // Simulation-derived implied slippage (best-effort): compare quote.outAmount vs simulatedOutAmount.
       let simulatedSlippageBps: number | undefined;
       try {
         const expOut = Number(quote?.outAmount);
-        const simOut = Number(ctx.simulation?.simulatedOutAmount);
+        const simOut = Number(inputs.simulation?.simulatedOutAmount);
         if (Number.isFinite(expOut) && expOut > 0 && Number.isFinite(simOut) && simOut >= 0) {
           const slip = (expOut - simOut) / expOut;
           if (Number.isFinite(slip)) simulatedSlippageBps = Math.max(0, Math.round(slip * 10_000));
@@ -1093,12 +1329,12 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
         // ignore
       }
 
-      const decision = engine.decide({
+      const policyCtx: PolicyContext = {
         chain: t.meta.chain ?? "unknown",
         network,
         action: t.meta.action,
         sideEffect: t.meta.sideEffect,
-        simulationOk: ctx.simulation?.ok === true,
+        simulationOk: inputs.simulation?.ok === true,
         programIds,
         programIdsKnown,
         amountUsd,
@@ -1106,9 +1342,12 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
         simulatedSlippageBps,
         secondsSinceLastBroadcast,
         broadcastsLastMinute,
+        volumeUsdLast24h,
         amountSol,
         amountLamports,
-      });
+        ...transferPolicyFieldsFromSummary(builtSummary),
+      };
+      const decision = engine.decide(policyCtx);
 
       trace.emit({
         ts: Date.now(),
@@ -1119,17 +1358,21 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
         data: {
           ...(decision as any),
           ...(programIds ? { programIds } : {}),
+          // full input, replayed by `w3rt policy test`
+          policyContext: policyCtx,
+          policyRevision: ctx.__policyRevision,
           context: {
             amountUsd,
             amountSol,
+            volumeUsdLast24h,
             slippageBps,
             simulatedSlippageBps,
             expectedOutAmount: quote?.outAmount,
-            simulatedOutAmount: ctx.simulation?.simulatedOutAmount,
+            simulatedOutAmount: inputs.simulation?.simulatedOutAmount,
             // helpful when output is SOL and we derived delta from lamports
-            preLamports: ctx.simulation?.preLamports,
-            postLamports: ctx.simulation?.postLamports,
-            feeLamports: ctx.simulation?.feeLamports,
+            preLamports: inputs.simulation?.preLamports,
+            postLamports: inputs.simulation?.postLamports,
+            feeLamports: inputs.simulation?.feeLamports,
           },
         },
       });
@@ -1143,11 +1386,48 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
 
       // stash for after-send bookkeeping
       (ctx as any).__broadcastHistory = { statePath, hist };
+      (ctx as any).__volumeLedger = { ledgerPath, wallet, amountUsd };
+    }
+  }
+
+  // Transfer destination/mint limits are deterministic, so a transfer that would be blocked is refused
+  // before it is built. Confirmations are left to the broadcast gate above.
+  if (t.name === "solana_build_transfer_tx") {
+    const engine = ctx.__policy as PolicyEngine | undefined;
+    if (engine) {
+      const policyCtx: PolicyContext = {
+        chain: "solana",
+        network: inferNetworkFromRpcUrl(resolveSolanaRpc()),
+        action: "transfer",
+        sideEffect: "none",
+        ...transferPolicyFieldsFromParams(params as any),
+      };
+      const decision = engine.decideTransfer(policyCtx);
+      if (decision.decision === "block") {
+        trace.emit({
+          ts: Date.now(),
+          type: "policy.decision",
+          runId,
+          stepId,
+          tool: t.name,
+          data: { ...(decision as any), policyContext: policyCtx, policyRevision: ctx.__policyRevision },
+        });
+        throw new Error(`Policy blocked: ${decision.code}`);
+      }
     }
   }
 
   try {
+    if (t.meta.sideEffect === "broadcast" && cp) {
+      cp.state.pending = { key, tool: t.name, txId: t.txId?.(params, ctx), ts: Date.now() };
+      saveCheckpoint(cp.w3rtDir, cp.state);
+    }
     const result = await t.execute(params, ctx);
+    if (t.meta.sideEffect === "broadcast" && cp) {
+      cp.state.sent[key] = result;
+      cp.state.pending = undefined;
+      saveCheckpoint(cp.w3rtDir, cp.state);
+    }
 
     // Persist large artifacts for audit/replay (MVP)
     const artifactRefs = [] as any[];
@@ -1189,25 +1469,14 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
         bh.hist.timestampsMs.push(Date.now());
         saveBroadcastHistory(bh.statePath, bh.hist);
       }
-    }
-
-    // Convention: store key results for templating
-    if (t.name === "calculate_opportunity") ctx.opportunity = result;
-    if (t.name === "simulate_swap") ctx.simulation = result;
-    if (t.name === "swap") ctx.result = { ...(ctx.result ?? {}), ...(result ?? {}) };
 
-    // Solana bindings
-    if (t.name === "solana_balance") ctx.balance = result;
-    if (t.name === "solana_token_accounts") ctx.tokenAccounts = result;
-    if (t.name === "solana_build_transfer_tx") ctx.built = result;
-    if (t.name === "solana_adapter_build_tx") ctx.built = result;
+      const vl = (ctx as any).__volumeLedger as { ledgerPath: string; wallet: string; amountUsd?: number } | undefined;
+      if (vl?.ledgerPath && typeof vl.amountUsd === "number") {
+        appendVolume(vl.ledgerPath, { ts: Date.now(), wallet: vl.wallet, amountUsd: vl.amountUsd, runId, tool: t.name });
+      }
+    }
 
-    // Solana swap workflow bindings
-    if (t.name === "solana_jupiter_quote") ctx.quote = result;
-    if (t.name === "solana_jupiter_build_tx") ctx.built = result;
-    if (t.name === "solana_simulate_tx") ctx.simulation = result;
-    if (t.name === "solana_send_tx") ctx.submitted = result;
-    if (t.name === "solana_confirm_tx") ctx.confirmed = result;
+    bindToolResult(t, action, ctx, result);
 
     return result;
   } catch (err: any) {
@@ -1216,29 +1485,90 @@ async function runAction(action: WorkflowAction, tools: Map<string, Tool>, ctx:
   }
 }
 
+function loadRunWorkflow(workflowPath: string) {
+  const parsed = parseWorkflowFile(workflowPath);
+  if (!parsed.ok || !parsed.workflow) {
+    throw new Error(`Failed to parse workflow: ${parsed.errors?.join(", ")}`);
+  }
+  for (const w of parsed.warnings ?? []) console.warn(`warning: ${w}`);
+  return { wf: parsed.workflow as Workflow, workflows: parsed.workflows ?? {} };
+}
+
 export async function runWorkflowFromFile(workflowPath: string, opts: RunOptions = {}) {
-  const wf = loadYamlFile<Workflow>(workflowPath);
+  const { wf, workflows } = loadRunWorkflow(workflowPath);
+  const inputs = resolveInputs(wf.inputs, opts.inputs);
+  if (inputs.errors.length) throw new Error(`Invalid inputs: ${inputs.errors.join("; ")}`);
 
   const w3rtDir = opts.w3rtDir ?? defaultW3rtDir();
   mkdirSync(w3rtDir, { recursive: true });
 
-  const runId = crypto.randomUUID();
+  const checkpoint: RunCheckpoint = {
+    version: 1,
+    runId: crypto.randomUUID(),
+    workflowPath: resolve(workflowPath),
+    workflowSha256: fileSha256(workflowPath),
+    inputs: opts.inputs ?? {},
+    status: "running",
+    completed: [],
+    decisions: {},
+    sent: {},
+    ctx: { inputs: inputs.values, steps: {} },
+    updatedAt: Date.now(),
+  };
+  return executeRun(wf, workflows, checkpoint, w3rtDir, opts, false);
+}
+
+// Continues a `w3rt run` that stopped (failed, rejected, or the process died) from its last completed action.
+export async function resumeWorkflowRun(runId: string, opts: Omit<RunOptions, "inputs"> = {}) {
+  const w3rtDir = opts.w3rtDir ?? defaultW3rtDir();
+  const checkpoint = loadCheckpoint(w3rtDir, runId);
+  if (!checkpoint) throw new Error(`No checkpoint for run ${runId} (only runs started by 'w3rt run' can be resumed)`);
+  if (checkpoint.status === "finished") throw new Error(`Run ${runId} already finished`);
+  if (!existsSync(checkpoint.workflowPath)) throw new Error(`Workflow file not found: ${checkpoint.workflowPath}`);
+  if (fileSha256(checkpoint.workflowPath) !== checkpoint.workflowSha256) {
+    throw new Error(`Workflow ${checkpoint.workflowPath} changed since run ${runId} started; start a new run instead`);
+  }
+
+  const { wf, workflows } = loadRunWorkflow(checkpoint.workflowPath);
+  return executeRun(wf, workflows, checkpoint, w3rtDir, opts, true);
+}
+
+async function executeRun(
+  wf: Workflow,
+  workflows: Record<string, Workflow>,
+  checkpoint: RunCheckpoint,
+  w3rtDir: string,
+  opts: Omit<RunOptions, "inputs">,
+  resumed: boolean
+) {
+  const runId = checkpoint.runId;
   const trace = new TraceStore(w3rtDir);
 
   // policy config (optional)
   let policy: PolicyEngine | undefined;
-  try {
-    const policyCfg = loadYamlFile<PolicyConfig>(join(process.cwd(), ".w3rt", "policy.yaml"));
-    policy = new PolicyEngine(policyCfg);
-  } catch {
-    // ok for now
+  let policyRevision: string | undefined;
+  const policyPath = join(process.cwd(), ".w3rt", "policy.yaml");
+  if (existsSync(policyPath)) {
+    const policyDoc = loadYamlFile<any>(policyPath);
+    try {
+      policy = new PolicyEngine(validPolicyConfigFromDocument(policyDoc));
+    } catch (e: any) {
+      throw new Error(`Cannot load ${policyPath}: ${String(e?.message ?? e)}`);
+    }
+    policyRevision = policyRevisionId(policyDoc);
   }
 
   const ctx: Dict = {
     __approve: opts.approve,
     __policy: policy,
+    __policyRevision: policyRevision,
     __w3rtDir: w3rtDir,
+    __legacyAliases: wf.config?.legacyAliases !== false,
+    __workflows: workflows,
+    __checkpoint: { w3rtDir, state: checkpoint } satisfies Checkpointer,
+    ...checkpoint.ctx,
   };
+  Object.assign(policyInputs(ctx), checkpoint.policyInputs);
 
   // run metadata (helps debugging)
   const solana = (() => {
@@ -1253,22 +1583,44 @@ export async function runWorkflowFromFile(workflowPath: string, opts: RunOptions
     }
   })();
 
-  trace.emit({
-    ts: Date.now(),
-    type: "run.started",
-    runId,
-    data: { workflow: wf.name, version: wf.version, solana },
-  });
+  if (resumed) {
+    trace.emit({
+      ts: Date.now(),
+      type: "run.resumed",
+      runId,
+      data: { workflow: wf.name, solana, completed: checkpoint.completed.length, pending: checkpoint.pending },
+    });
+  } else {
+    trace.emit({
+      ts: Date.now(),
+      type: "run.started",
+      runId,
+      data: { workflow: wf.name, version: wf.version, solana, inputs: ctx.inputs },
+    });
+  }
+  checkpoint.status = "running";
+  delete checkpoint.error;
+  saveCheckpoint(w3rtDir, checkpoint);
 
   const tools = toolMap(createMockTools());
 
   try {
-    for (const stage of wf.stages) {
+    for (const stage of stageOrder(wf.stages)) {
       await runStage(stage, tools, ctx, trace, runId);
     }
+    checkpoint.status = "finished";
+    saveCheckpoint(w3rtDir, checkpoint);
     trace.emit({ ts: Date.now(), type: "run.finished", runId, data: { ok: true } });
+    await trace.flush();
   } catch (err: any) {
-    trace.emit({ ts: Date.now(), type: "run.finished", runId, data: { ok: false, error: String(err?.message ?? err) } });
+    const error = String(err?.message ?? err);
+    checkpoint.status = "failed";
+    checkpoint.error = error;
+    saveCheckpoint(w3rtDir, checkpoint);
+    trace.emit({ ts: Date.now(), type: "run.finished", runId, data: { ok: false, error } });
+    await trace.flush();
+    // lets the CLI point at `w3rt resume <runId>`
+    if (err && typeof err === "object") err.runId = runId;
     throw err;
   }
 
@@ -3,7 +3,7 @@
  * This is the new implementation that uses @w3rt/workflow engine.
  */
 
-import { readFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { existsSync, readFileSync, mkdirSync, writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import os from "node:os";
 import crypto from "node:crypto";
@@ -11,9 +11,14 @@ import yaml from "js-yaml";
 
 import {
   WorkflowEngine,
+  WorkflowTimeoutError,
+  iterationStepId,
+  parseDuration,
   parseWorkflowFile,
+  resolveInputs,
   type ToolDefinition,
   type Dict,
+  type WorkflowAction,
 } from "@w3rt/workflow";
 import { TraceStore } from "@w3rt/trace";
 import { PolicyEngine, type PolicyConfig, type PolicyContext } from "@w3rt/policy";
@@ -23,6 +28,11 @@ import { loadMetricsSnapshot } from "./metricsSnapshot.js";
 import { getActiveSolanaRpc, isLikelyRpcError, rotateSolanaRpc } from "./rpcFailover.js";
 import { getActiveJupiterBaseUrl, rotateJupiterBaseUrl } from "./jupiterFailover.js";
 import { loadUserProfile } from "./profile.js";
+import { appendVolume, volumeLedgerPath, volumeWalletId, walletVolumeUsd } from "./volumeLedger.js";
+import { policyRevisionId } from "./policyHistory.js";
+import { validPolicyConfigFromDocument } from "./policyWhatIf.js";
+import { transferPolicyFieldsFromParams, transferPolicyFieldsFromSummary } from "./transferPolicy.js";
+import { deriveAmountUsd, mergePolicyInputs, policyInputs, recordPolicyInputs } from "./policyInputs.js";
 import {
   AddressLookupTableAccount,
   Connection,
@@ -32,6 +42,16 @@ import {
   clusterApiUrl,
 } from "@solana/web3.js";
 
+import {
+  approvalsPath,
+  findApproval,
+  requestApproval,
+  resolveApproval,
+  updateApprovals,
+  waitForApproval,
+  type ApprovalRequest,
+  type ApprovalStatus,
+} from "./approvals.js";
 import { createMockTools } from "./tools/mock.js";
 import { createSolanaTools } from "./tools/solana.js";
 import { createMetricsTools } from "./tools/metrics.js";
@@ -167,29 +187,36 @@ async function extractSolanaProgramIds(txB64: string, rpcUrl: string): Promise<{
 
 // --- Load policy config ---
 
-function loadPolicyConfig(w3rtDir: string): PolicyConfig {
+// `document` is what policy.yaml holds (PolicySpec or PolicyConfig) and is what policy revisions hash.
+// A missing file falls back to the default policy; a file that fails validation is refused.
+function loadPolicyConfig(w3rtDir: string): { config: PolicyConfig; document: any } {
   const policyPath = join(w3rtDir, "policy.yaml");
-  try {
-    const raw = readFileSync(policyPath, "utf-8");
-    return yaml.load(raw) as PolicyConfig;
-  } catch {
-    // Default safe policy
-    return {
-      networks: {
-        mainnet: { enabled: true, requireApproval: true, requireSimulation: true, maxDailyVolumeUsd: 500 },
-        testnet: { enabled: true, requireApproval: false },
-      },
-      transactions: {
-        maxSingleAmountUsd: 100,
-        maxSlippageBps: 100,
-        requireConfirmation: "large",
-      },
-      allowlist: {
-        actions: ["swap", "transfer", "balance", "quote", "simulate", "confirm"],
-      },
-      rules: [],
-    };
+  if (existsSync(policyPath)) {
+    try {
+      const document = yaml.load(readFileSync(policyPath, "utf-8"));
+      return { config: validPolicyConfigFromDocument(document), document };
+    } catch (e: any) {
+      throw new Error(`Cannot load ${policyPath}: ${String(e?.message ?? e)}`);
+    }
   }
+
+  // Default safe policy
+  const config: PolicyConfig = {
+    networks: {
+      mainnet: { enabled: true, requireApproval: true, requireSimulation: true, maxDailyVolumeUsd: 500 },
+      testnet: { enabled: true, requireApproval: false },
+    },
+    transactions: {
+      maxSingleAmountUsd: 100,
+      maxSlippageBps: 100,
+      requireConfirmation: "large",
+    },
+    allowlist: {
+      actions: ["swap", "transfer", "balance", "quote", "simulate", "confirm"],
+    },
+    rules: [],
+  };
+  return { config, document: config };
 }
 
 // --- Convert our Tool to WorkflowEngine ToolDefinition ---
@@ -295,7 +322,14 @@ function summarizeParams(params: any) {
 
 export interface RunnerOptions {
   w3rtDir?: string;
+  // in-process approver; without one, approval stages wait for `w3rt approve` / POST /v1/approvals/decide
   approve?: (prompt: string) => Promise<boolean>;
+  // called when the run parks waiting for an out-of-band approval
+  onApprovalPending?: (request: ApprovalRequest) => void;
+  // `approval.timeout` for approval stages that set none (unattended runs, see scheduler.ts)
+  approvalTimeout?: string;
+  // values for the workflow's `inputs:`
+  inputs?: Record<string, unknown>;
 }
 
 // --- Main runner function ---
@@ -310,13 +344,16 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
     throw new Error(`Failed to parse workflow: ${parseResult.errors?.join(", ")}`);
   }
   const workflow = parseResult.workflow;
+  const inputs = resolveInputs(workflow.inputs, opts.inputs);
+  if (inputs.errors.length) throw new Error(`Invalid inputs: ${inputs.errors.join("; ")}`);
 
   // Initialize trace store
   const trace = new TraceStore(w3rtDir);
 
   // Load policy
-  const policyConfig = loadPolicyConfig(w3rtDir);
+  const { config: policyConfig, document: policyDocument } = loadPolicyConfig(w3rtDir);
   const policy = new PolicyEngine(policyConfig);
+  const policyRevision = policyRevisionId(policyDocument);
 
   // Create tools
   const mockTools = createMockTools();
@@ -348,11 +385,19 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
   const histPath = join(w3rtDir, "policy_broadcast_history.json");
   let broadcastHistory = loadBroadcastHistory(histPath);
 
+  // Per-wallet rolling USD volume for networks.mainnet.maxDailyVolumeUsd. The ledger is re-read for every check;
+  // an allowed broadcast's size waits here until its action ends, per run context and action since parallel
+  // stages can have several broadcasts in flight.
+  const ledgerPath = volumeLedgerPath(w3rtDir);
+  const pendingVolume = new WeakMap<Dict, Map<WorkflowAction, { wallet: string; amountUsd?: number }>>();
+
   const profile = loadUserProfile(w3rtDir);
 
   // Create workflow engine
   const engine = new WorkflowEngine({
     tools: toolMap,
+    workflows: parseResult.workflows,
+    approvalTimeout: opts.approvalTimeout,
 
     onStageStart: async (stage, ctx) => {
       // expose current stage to the learning wrapper
@@ -361,7 +406,7 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
       trace.emit({
         ts: Date.now(),
         type: "step.started",
-        runId,
+        runId: ctx.__runId,
         stepId: stage.name,
         data: { stageType: stage.type },
       });
@@ -371,35 +416,153 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
       trace.emit({
         ts: Date.now(),
         type: "step.finished",
-        runId,
+        runId: ctx.__runId,
         stepId: stage.name,
         data: error ? { error: error.message } : {},
       });
     },
 
-    onActionStart: async (action, tool, params, ctx) => {
+    // each loop iteration is its own step; its tool events carry the iteration's step id
+    onIterationStart: async (stage, index, ctx) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "step.started",
+        runId: ctx.__runId,
+        stepId: iterationStepId(stage.name, index),
+        data: { stageType: stage.type, parent: stage.name, iteration: index },
+      });
+    },
+
+    onIterationEnd: async (stage, index, ctx, error) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "step.finished",
+        runId: ctx.__runId,
+        stepId: iterationStepId(stage.name, index),
+        data: error ? { parent: stage.name, iteration: index, error: error.message } : { parent: stage.name, iteration: index },
+      });
+    },
+
+    // a `use` action runs under its own run id; the caller's trace links to it and the sub-run's trace links back
+    onSubWorkflowStart: async (action, subWorkflow, subRunId, inputs, ctx, stage) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "workflow.called",
+        runId: ctx.__runId,
+        stepId: stage.name,
+        data: { workflow: subWorkflow.name, use: action.use, subRunId, inputs },
+      });
+      trace.emit({
+        ts: Date.now(),
+        type: "run.started",
+        runId: subRunId,
+        data: {
+          workflow: subWorkflow.name,
+          version: subWorkflow.version,
+          inputs,
+          parentRunId: ctx.__runId,
+          parentStepId: stage.name,
+        },
+      });
+    },
+
+    onSubWorkflowEnd: async (action, subWorkflow, result, ctx, stage) => {
+      if (result.ok) mergePolicyInputs(ctx, result.context);
+      trace.emit({
+        ts: Date.now(),
+        type: "run.finished",
+        runId: result.runId,
+        data: { ok: result.ok, error: result.error, parentRunId: ctx.__runId },
+      });
+      trace.emit({
+        ts: Date.now(),
+        type: "workflow.result",
+        runId: ctx.__runId,
+        stepId: stage.name,
+        data: { workflow: subWorkflow.name, subRunId: result.runId, ok: result.ok, ...(result.error ? { error: result.error } : {}) },
+      });
+    },
+
+    onActionStart: async (action, tool, params, ctx, stage) => {
       trace.emit({
         ts: Date.now(),
         type: "tool.called",
-        runId,
-        stepId: ctx.__currentStage,
+        runId: ctx.__runId,
+        stepId: stage.name,
         tool: tool.name,
         data: { params },
       });
+
+      // Refuse transfers the policy would block before building them (destination lists, per-mint caps).
+      if (tool.name === "solana_build_transfer_tx") {
+        const policyCtx: PolicyContext = {
+          chain: "solana",
+          network: inferNetworkFromRpcUrl(resolveSolanaRpc(w3rtDir)),
+          action: "transfer",
+          sideEffect: "none",
+          ...transferPolicyFieldsFromParams(params),
+        };
+        const decision = policy.decideTransfer(policyCtx);
+        if (decision.decision === "block") {
+          trace.emit({
+            ts: Date.now(),
+            type: "policy.decision",
+            runId: ctx.__runId,
+            tool: tool.name,
+            data: { ...decision, policyContext: policyCtx, policyRevision },
+          });
+          throw new Error(`Policy blocked: ${decision.code}: ${decision.message}`);
+        }
+      }
+    },
+
+    onActionRetry: async (action, tool, attempt, error, ctx, stage) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "tool.retry",
+        runId: ctx.__runId,
+        stepId: stage.name,
+        tool: tool.name,
+        data: { attempt, error: error.message },
+      });
     },
 
-    onActionEnd: async (action, tool, result, ctx) => {
+    onTimeout: async (error, ctx) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "run.timeout",
+        runId: ctx.__runId,
+        stepId: error.stage,
+        data: { scope: error.scope, timeoutMs: error.timeoutMs },
+      });
+    },
+
+    onRollback: async (stage, ctx, error) => {
+      trace.emit({
+        ts: Date.now(),
+        type: "step.rollback",
+        runId: ctx.__runId,
+        stepId: stage.name,
+        data: error ? { ok: false, error: error.message } : { ok: true },
+      });
+    },
+
+    onActionEnd: async (action, tool, result, ctx, stage) => {
+      recordPolicyInputs(ctx, tool.name, result);
+      const volume = pendingVolume.get(ctx)?.get(action);
+      pendingVolume.get(ctx)?.delete(action);
+
       // Save artifacts for audit
       const artifactRefs: any[] = [];
       if (tool.name.includes("quote") || tool.name.includes("build") || tool.name.includes("balance")) {
-        artifactRefs.push(trace.writeArtifact(runId, `${tool.name}_${Date.now()}`, result));
+        artifactRefs.push(trace.writeArtifact(ctx.__runId, `${tool.name}_${Date.now()}`, result));
       }
 
       trace.emit({
         ts: Date.now(),
         type: "tool.result",
-        runId,
-        stepId: ctx.__currentStage,
+        runId: ctx.__runId,
+        stepId: stage.name,
         tool: tool.name,
         data: { ok: result?.ok },
         artifactRefs,
@@ -410,24 +573,94 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
         broadcastHistory.timestampsMs.push(Date.now());
         saveBroadcastHistory(histPath, broadcastHistory);
 
+        if (volume && typeof volume.amountUsd === "number") {
+          appendVolume(ledgerPath, {
+            ts: Date.now(),
+            wallet: volume.wallet,
+            amountUsd: volume.amountUsd,
+            runId: ctx.__runId,
+            tool: tool.name,
+          });
+        }
+
         trace.emit({
           ts: Date.now(),
           type: "tx.submitted",
-          runId,
+          runId: ctx.__runId,
           chain: tool.meta.chain,
           data: { signature: result.signature, txHash: result.txHash },
         });
       }
     },
 
+    // Every approval is recorded in approvals.json. An expired one (approval.timeout) is closed when the engine
+    // aborts the run, whichever approver was asked.
     onApprovalRequired: async (stage, ctx) => {
-      if (opts.approve) {
-        return opts.approve(`Approve stage '${stage.name}'?`);
+      const runId: string = ctx.__runId;
+      const signal: AbortSignal = ctx.__signal;
+      const statePath = approvalsPath(w3rtDir);
+      const timeout = stage.approval?.timeout ?? opts.approvalTimeout;
+      const timeoutMs = timeout !== undefined ? parseDuration(timeout) : undefined;
+
+      const request = updateApprovals(statePath, (st) =>
+        requestApproval(st, {
+          runId,
+          stage: stage.name,
+          workflow: ctx.__workflow,
+          expiresAt: timeoutMs !== undefined ? Date.now() + timeoutMs : undefined,
+        })
+      );
+      trace.emit({
+        ts: Date.now(),
+        type: "approval.requested",
+        runId,
+        stepId: stage.name,
+        data: { approver: opts.approve ? "local" : "external", expiresAt: request.expiresAt },
+      });
+
+      // the decision, unless someone else closed the request first
+      const close = (status: Exclude<ApprovalStatus, "pending">, by?: string) =>
+        updateApprovals(statePath, (st) => {
+          const a = findApproval(st, runId, stage.name);
+          if (a?.status === "pending") resolveApproval(a, status, Date.now(), { by });
+          return a;
+        });
+      const onAbort = () => {
+        const reason = signal.reason;
+        if (reason instanceof WorkflowTimeoutError && reason.scope === "approval") {
+          close("expired");
+          trace.emit({ ts: Date.now(), type: "approval.expired", runId, stepId: stage.name, data: { timeoutMs: reason.timeoutMs } });
+        } else {
+          close("cancelled");
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      let decided: ApprovalRequest | undefined;
+      try {
+        if (opts.approve) {
+          const approved = await opts.approve(`Approve stage '${stage.name}'?`);
+          decided = close(approved ? "approved" : "denied", "local");
+        } else {
+          opts.onApprovalPending?.(request);
+          decided = await waitForApproval(statePath, runId, stage.name, signal);
+        }
+      } finally {
+        signal.removeEventListener("abort", onAbort);
       }
-      return false;
+
+      const approved = decided?.status === "approved";
+      trace.emit({
+        ts: Date.now(),
+        type: "approval.decided",
+        runId,
+        stepId: stage.name,
+        data: { approved, status: decided?.status, by: decided?.by, reason: decided?.reason },
+      });
+      return approved;
     },
 
-    onPolicyCheck: async (tool, params, ctx) => {
+    onPolicyCheck: async (tool, params, ctx, action) => {
       const rpc = tool.meta.chain === "solana" ? resolveSolanaRpc(w3rtDir) : "";
       const network = tool.meta.chain === "solana" ? inferNetworkFromRpcUrl(rpc) : "mainnet";
 
@@ -439,6 +672,12 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
       const secondsSinceLastBroadcast = typeof last === "number" ? (now - last) / 1000 : undefined;
       const broadcastsLastMinute = broadcastHistory.timestampsMs.filter((ts) => now - ts < 60_000).length;
 
+      // Daily volume context
+      const wallet = volumeWalletId(tool.meta.chain, loadSolanaKeypair()?.publicKey.toBase58());
+      const volumeUsdLast24h = walletVolumeUsd(ledgerPath, wallet, now);
+      const inputs = policyInputs(ctx);
+      const amountUsd = deriveAmountUsd(inputs, network);
+
       // Extract program IDs for Solana
       let programIds: string[] | undefined;
       let programIdsKnown: boolean | undefined;
@@ -456,23 +695,26 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
         network,
         action: tool.meta.action,
         sideEffect: tool.meta.sideEffect,
-        simulationOk: ctx.simulation?.ok === true,
+        simulationOk: inputs.simulation?.ok === true,
         programIds,
         programIdsKnown,
         secondsSinceLastBroadcast,
         broadcastsLastMinute,
+        volumeUsdLast24h,
+        amountUsd,
         metrics: metricsSnap.index,
+        ...transferPolicyFieldsFromSummary(inputs.built?.summary),
       };
 
       // Add amount/slippage if available
-      const quote = ctx.quote?.quoteResponse;
+      const quote = inputs.quote?.quoteResponse;
       if (quote) {
-        if (typeof ctx.quote?.requestedSlippageBps === "number") {
-          policyCtx.slippageBps = ctx.quote.requestedSlippageBps;
+        if (typeof inputs.quote?.requestedSlippageBps === "number") {
+          policyCtx.slippageBps = inputs.quote.requestedSlippageBps;
         }
         // Try to derive simulated slippage
         const expOut = Number(quote.outAmount);
-        const simOut = Number(ctx.simulation?.simulatedOutAmount);
+        const simOut = Number(inputs.simulation?.simulatedOutAmount);
         if (Number.isFinite(expOut) && expOut > 0 && Number.isFinite(simOut) && simOut >= 0) {
           const slip = (expOut - simOut) / expOut;
           if (Number.isFinite(slip)) {
@@ -486,9 +728,9 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
       trace.emit({
         ts: Date.now(),
         type: "policy.decision",
-        runId,
+        runId: ctx.__runId,
         tool: tool.name,
-        data: { ...decision, programIds },
+        data: { ...decision, programIds, policyContext: policyCtx, policyRevision, context: { amountUsd, volumeUsdLast24h, wallet } },
       });
 
       if (decision.decision === "block") {
@@ -506,6 +748,8 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
         }
       }
 
+      if (!pendingVolume.has(ctx)) pendingVolume.set(ctx, new Map());
+      pendingVolume.get(ctx)!.set(action, { wallet, amountUsd });
       return { allowed: true };
     },
   });
@@ -515,7 +759,12 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
     ts: Date.now(),
     type: "run.started",
     runId,
-    data: { workflow: workflow.name, version: workflow.version },
+    data: {
+      workflow: workflow.name,
+      version: workflow.version,
+      inputs: inputs.values,
+      ...(parseResult.warnings ? { warnings: parseResult.warnings } : {}),
+    },
   });
 
   // Run workflow
@@ -525,6 +774,7 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
     __policy: policy,
     __approve: opts.approve,
     __profile: profile,
+    inputs: inputs.values,
   });
 
   // Emit run finished
@@ -532,8 +782,14 @@ export async function runWorkflow(workflowPath: string, opts: RunnerOptions = {}
     ts: Date.now(),
     type: "run.finished",
     runId,
-    data: { ok: result.ok, error: result.error },
+    data: {
+      ok: result.ok,
+      error: result.error,
+      ...(result.timedOut ? { timedOut: true } : {}),
+      ...(result.rolledBack ? { rolledBack: result.rolledBack, rollbackErrors: result.rollbackErrors } : {}),
+    },
   });
+  await trace.flush();
 
   return { runId, ok: result.ok, error: result.error, context: result.context };
 }
@@ -0,0 +1,46 @@
+import { join } from "node:path";
+import os from "node:os";
+
+import {
+  defaultSchedulesDir,
+  discoverCronWorkflows,
+  loadScheduleState,
+  schedulesStatePath,
+  syncSchedules,
+  type Schedule,
+} from "./scheduler.js";
+
+function w3rtDir() {
+  return process.env.W3RT_DIR || join(os.homedir(), ".w3rt");
+}
+
+function fmtTime(ms: number | null | undefined) {
+  return typeof ms === "number" ? new Date(ms).toISOString() : "-";
+}
+
+// Reads the schedule directory and persisted state; whether a run is in progress is only known to the daemon
+// (GET /v1/schedules).
+export function scheduleList(opts: { json?: boolean } = {}): Schedule[] {
+  const dir = defaultSchedulesDir(w3rtDir());
+  const st = loadScheduleState(schedulesStatePath(w3rtDir()));
+  const { workflows, errors } = discoverCronWorkflows(dir);
+  syncSchedules(st, workflows);
+
+  const schedules: Schedule[] = workflows.map((w) => ({ id: w.id, workflow: w.name, path: w.path, running: false, ...st.schedules[w.id] }));
+
+  if (opts.json) {
+    console.log(JSON.stringify({ dir, schedules, errors }, null, 2));
+    return schedules;
+  }
+
+  if (!schedules.length) console.log(`No cron workflows in ${dir}`);
+  for (const s of schedules) {
+    const state = s.paused ? "paused" : "active";
+    const last = s.lastRunAt ? `${fmtTime(s.lastRunAt)} ${s.lastStatus ?? "running"}${s.lastRunId ? ` (${s.lastRunId})` : ""}` : "never";
+    console.log(`${s.id}  "${s.cron}"  ${state}  next ${s.paused ? "-" : fmtTime(s.nextRunAt)}  last ${last}`);
+    if (s.lastError) console.log(`    error: ${s.lastError}`);
+    if (s.skippedOverlaps) console.log(`    skipped ${s.skippedOverlaps} overlapping slot(s)`);
+  }
+  for (const e of errors) console.log(`invalid workflow ${e.path}: ${e.error}`);
+  return schedules;
+}
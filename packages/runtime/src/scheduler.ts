@@ -0,0 +1,239 @@
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join, resolve } from "node:path";
+
+import { nextCronTime, parseWorkflowFile, type InputSchema, type Workflow } from "@w3rt/workflow";
+
+// Cron scheduler for workflows with `trigger: cron`.
+// Workflow files are discovered in a directory (default <w3rtDir>/workflows, one schedule per file, id = file name
+// without extension). Pause flags and last/next run times persist in <w3rtDir>/schedules.json.
+// A slot that comes due while the previous run of the same workflow is still going is skipped, not queued. Runs
+// have no approver, so an approval stage parks the run (see approvals.ts); one without `approval.timeout` expires
+// when the next slot comes due, so a request nobody answers does not hold up the slots after it.
+// Missed slots (daemon down) are not replayed: a past-due schedule runs once, then follows its expression again.
+
+export type ScheduledRunStatus = "ok" | "failed";
+
+export type ScheduleRecord = {
+  cron: string;
+  paused: boolean;
+  nextRunAt: number | null;
+  lastRunAt?: number;
+  lastRunId?: string;
+  lastStatus?: ScheduledRunStatus;
+  lastError?: string;
+  lastFinishedAt?: number;
+  // slots skipped because the previous run was still in progress
+  skippedOverlaps: number;
+};
+
+export type ScheduleState = { schedules: Record<string, ScheduleRecord> };
+
+export type CronWorkflow = { id: string; name: string; path: string; cron: string };
+
+export type Schedule = ScheduleRecord & { id: string; workflow: string; path: string; running: boolean };
+
+export type ScheduleLoadError = { path: string; error: string };
+
+// A parseable workflow file in the workflow directory; `id` is the file name without extension.
+export type DiscoveredWorkflow = { id: string; path: string; workflow: Workflow; inputSchema?: InputSchema };
+
+export type ScheduledRunResult = { runId?: string; ok: boolean; error?: string };
+
+// `approvalTimeout`: default `approval.timeout` for the run, e.g. "300000ms"; unset when no slot follows.
+export type ScheduledRunOptions = { approvalTimeout?: string };
+
+export function schedulesStatePath(w3rtDir: string) {
+  return join(w3rtDir, "schedules.json");
+}
+
+export function defaultSchedulesDir(w3rtDir: string) {
+  return process.env.W3RT_SCHEDULES_DIR ? resolve(process.env.W3RT_SCHEDULES_DIR) : join(w3rtDir, "workflows");
+}
+
+export function loadScheduleState(statePath: string): ScheduleState {
+  try {
+    const j = JSON.parse(readFileSync(statePath, "utf-8"));
+    const schedules: Record<string, ScheduleRecord> = {};
+    for (const [id, r] of Object.entries<any>(j?.schedules ?? {})) {
+      if (typeof r?.cron !== "string") continue;
+      schedules[id] = { ...r, paused: r.paused === true, skippedOverlaps: Number(r.skippedOverlaps ?? 0) };
+    }
+    return { schedules };
+  } catch {
+    return { schedules: {} };
+  }
+}
+
+export function saveScheduleState(statePath: string, st: ScheduleState) {
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, JSON.stringify(st, null, 2));
+}
+
+export function discoverWorkflows(dir: string): { workflows: DiscoveredWorkflow[]; errors: ScheduleLoadError[] } {
+  const workflows: DiscoveredWorkflow[] = [];
+  const errors: ScheduleLoadError[] = [];
+
+  let files: string[] = [];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(".yaml") || f.endsWith(".yml")).sort();
+  } catch {
+    return { workflows, errors };
+  }
+
+  for (const f of files) {
+    const path = join(dir, f);
+    let parsed: ReturnType<typeof parseWorkflowFile>;
+    try {
+      parsed = parseWorkflowFile(path);
+    } catch (e: any) {
+      errors.push({ path, error: String(e?.message ?? e) });
+      continue;
+    }
+    if (!parsed.ok || !parsed.workflow) {
+      errors.push({ path, error: (parsed.errors ?? ["invalid workflow"]).join("; ") });
+      continue;
+    }
+    workflows.push({ id: basename(f, extname(f)), path, workflow: parsed.workflow, inputSchema: parsed.inputSchema });
+  }
+  return { workflows, errors };
+}
+
+export function discoverCronWorkflows(dir: string): { workflows: CronWorkflow[]; errors: ScheduleLoadError[] } {
+  const { workflows, errors } = discoverWorkflows(dir);
+  const cron: CronWorkflow[] = [];
+  for (const { id, path, workflow: wf } of workflows) {
+    if (wf.trigger !== "cron" || !wf.triggerConfig?.cron) continue;
+    cron.push({ id, name: wf.name, path, cron: wf.triggerConfig.cron });
+  }
+  return { workflows: cron, errors };
+}
+
+// Adds new workflows, reschedules ones whose expression changed and drops ones that are gone.
+export function syncSchedules(st: ScheduleState, workflows: CronWorkflow[], nowMs = Date.now()) {
+  const ids = new Set(workflows.map((w) => w.id));
+  for (const id of Object.keys(st.schedules)) {
+    if (!ids.has(id)) delete st.schedules[id];
+  }
+  for (const w of workflows) {
+    const r = st.schedules[w.id];
+    if (!r) {
+      st.schedules[w.id] = { cron: w.cron, paused: false, nextRunAt: nextCronTime(w.cron, nowMs), skippedOverlaps: 0 };
+    } else if (r.cron !== w.cron) {
+      r.cron = w.cron;
+      r.nextRunAt = nextCronTime(w.cron, nowMs);
+    }
+  }
+}
+
+export type SchedulerOptions = {
+  w3rtDir: string;
+  dir?: string;
+  run: (workflowPath: string, opts: ScheduledRunOptions) => Promise<ScheduledRunResult>;
+};
+
+export function createScheduler(opts: SchedulerOptions) {
+  const dir = opts.dir ?? defaultSchedulesDir(opts.w3rtDir);
+  const statePath = schedulesStatePath(opts.w3rtDir);
+  const inflight = new Map<string, Promise<void>>();
+  let workflows: CronWorkflow[] = [];
+  let errors: ScheduleLoadError[] = [];
+
+  function refresh(st: ScheduleState, nowMs: number) {
+    ({ workflows, errors } = discoverCronWorkflows(dir));
+    syncSchedules(st, workflows, nowMs);
+  }
+
+  function save(st: ScheduleState) {
+    try {
+      saveScheduleState(statePath, st);
+    } catch {
+      // best-effort
+    }
+  }
+
+  function view(st: ScheduleState): Schedule[] {
+    return workflows
+      .filter((w) => st.schedules[w.id])
+      .map((w) => ({ id: w.id, workflow: w.name, path: w.path, running: inflight.has(w.id), ...st.schedules[w.id] }));
+  }
+
+  function start(w: CronWorkflow, nowMs: number, nextRunAt: number | null) {
+    const approvalTimeout = nextRunAt != null ? `${Math.max(1, nextRunAt - nowMs)}ms` : undefined;
+    const p = opts
+      .run(w.path, { approvalTimeout })
+      .catch((e: any): ScheduledRunResult => ({ ok: false, error: String(e?.message ?? e) }))
+      .then((result) => {
+        const st = loadScheduleState(statePath);
+        const r = st.schedules[w.id];
+        if (r) {
+          r.lastRunId = result.runId;
+          r.lastStatus = result.ok ? "ok" : "failed";
+          if (result.ok) delete r.lastError;
+          else r.lastError = result.error;
+          r.lastFinishedAt = Date.now();
+          save(st);
+        }
+      })
+      .finally(() => inflight.delete(w.id));
+    inflight.set(w.id, p);
+  }
+
+  // Starts every due, unpaused schedule. Runs are not awaited; see `idle()`.
+  function tick(nowMs = Date.now()): { started: string[]; skipped: string[] } {
+    const st = loadScheduleState(statePath);
+    refresh(st, nowMs);
+
+    const started: string[] = [];
+    const skipped: string[] = [];
+    for (const w of workflows) {
+      const r = st.schedules[w.id];
+      if (!r || r.paused || r.nextRunAt == null || r.nextRunAt > nowMs) continue;
+
+      r.nextRunAt = nextCronTime(r.cron, nowMs);
+      if (inflight.has(w.id)) {
+        r.skippedOverlaps++;
+        skipped.push(w.id);
+        continue;
+      }
+      r.lastRunAt = nowMs;
+      started.push(w.id);
+    }
+    save(st);
+
+    for (const id of started) start(workflows.find((w) => w.id === id)!, nowMs, st.schedules[id].nextRunAt);
+    return { started, skipped };
+  }
+
+  function list(nowMs = Date.now()) {
+    const st = loadScheduleState(statePath);
+    refresh(st, nowMs);
+    save(st);
+    return { dir, schedules: view(st), errors };
+  }
+
+  function setPaused(id: string, paused: boolean, nowMs = Date.now()): Schedule | null {
+    const st = loadScheduleState(statePath);
+    refresh(st, nowMs);
+    const r = st.schedules[id];
+    if (!r) return null;
+    r.paused = paused;
+    // Resuming continues from now rather than firing the slots missed while paused.
+    if (!paused) r.nextRunAt = nextCronTime(r.cron, nowMs);
+    save(st);
+    return view(st).find((s) => s.id === id) ?? null;
+  }
+
+  return {
+    dir,
+    tick,
+    list,
+    pause: (id: string, nowMs?: number) => setPaused(id, true, nowMs),
+    resume: (id: string, nowMs?: number) => setPaused(id, false, nowMs),
+    // Resolves once every run started so far has finished.
+    idle: async () => {
+      while (inflight.size) await Promise.all([...inflight.values()]);
+    },
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
@@ -1,6 +1,7 @@
 import type { Tool, Dict } from "./types.js";
 import { createEthereumAdapter } from "@w3rt/chains";
 import { defaultRegistry } from "@w3rt/adapters";
+import { policyInputs } from "../policyInputs.js";
 
 function rpcUrl(): string {
   return process.env.W3RT_EVM_RPC_URL || "https://eth.llamarpc.com";
@@ -74,7 +75,7 @@ export function createEvmTools(): Tool[] {
         );
 
         // Populate ctx.quote (best-effort) so policy/slippage logic can reuse.
-        (ctx as any).quote = {
+        (ctx as any).quote = policyInputs(ctx).quote = {
           ok: true,
           quoteId: `0x_${Date.now()}`,
           requestedSlippageBps: slippageBps,
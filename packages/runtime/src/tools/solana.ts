@@ -12,6 +12,7 @@ import {
 
 import { defaultRegistry } from "@w3rt/adapters";
 import type { Tool, Dict } from "./types.js";
+import { policyInputs } from "../policyInputs.js";
 
 const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
 const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
@@ -160,7 +161,7 @@ export function createSolanaTools(config: SolanaToolsConfig): Tool[] {
               { userPublicKey: kp.publicKey.toBase58() }
             );
 
-            ctx.quote = {
+            ctx.quote = policyInputs(ctx).quote = {
               ok: true,
               quoteId: `jup_${Date.now()}`,
               requestedSlippageBps: slippageBps,
@@ -250,7 +251,7 @@ export function createSolanaTools(config: SolanaToolsConfig): Tool[] {
           { userPublicKey: kp.publicKey.toBase58(), rpcUrl: getRpcUrl() }
         );
 
-        ctx.quote = {
+        ctx.quote = policyInputs(ctx).quote = {
           ok: true,
           quoteId: `met_${Date.now()}`,
           requestedSlippageBps: slippageBps,
@@ -477,7 +478,7 @@ export function createSolanaTools(config: SolanaToolsConfig): Tool[] {
 
         // Populate ctx.quote for swap actions
         if (action === "solana.swap_exact_in" || action === "meteora.dlmm.swap_exact_in") {
-          ctx.quote = {
+          ctx.quote = policyInputs(ctx).quote = {
             ok: true,
             quoteId: `ad_${adapterId}_${Date.now()}`,
             requestedSlippageBps: res.meta.slippageBps,
@@ -573,7 +574,7 @@ export function createSolanaTools(config: SolanaToolsConfig): Tool[] {
             inputMint: quote.inputMint,
             outputMint: quote.outputMint,
             amount: quote.inAmount,
-            slippageBps: ctx.quote?.requestedSlippageBps ?? 50,
+            slippageBps: policyInputs(ctx).quote?.requestedSlippageBps ?? 50,
           },
           { userPublicKey: kp.publicKey.toBase58() }
         );
@@ -595,7 +596,7 @@ export function createSolanaTools(config: SolanaToolsConfig): Tool[] {
 
         let simMeta: any = {};
         try {
-          const quote = ctx.quote?.quoteResponse;
+          const quote = policyInputs(ctx).quote?.quoteResponse;
           const kp = getKeypair();
           if (quote && kp) {
             const outputMintStr = String(quote.outputMint);
@@ -1,7 +1,9 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
 import os from "node:os";
 
+import { TRACE_EXPORT_FORMATS, TraceQuery, exportTrace, type TraceExportFormat, type TraceVerification } from "@w3rt/trace";
+
 type TraceEvent = {
   ts: number;
   type: string;
@@ -81,3 +83,37 @@ export function printRunTrace(runId: string) {
     }
   }
 }
+
+// `w3rt trace verify`: checks the run's hash chain and, once it finished, its sealed artifacts.
+export function verifyRunTrace(runId: string): TraceVerification {
+  const v = new TraceQuery(w3rtDir()).verifyRun(runId);
+  if (v.ok) {
+    console.log(`ok: ${v.events} events chained${v.sealed ? ", artifacts match the sealed manifest" : " (run not sealed yet)"}`);
+  } else {
+    console.error(`FAILED (${v.error!.kind}): ${v.error!.message}`);
+  }
+  return v;
+}
+
+// `w3rt trace reindex`: rebuilds the cross-run event index from every run's trace.jsonl.
+export function reindexTraces() {
+  const { runs, events } = new TraceQuery(w3rtDir()).rebuildIndex();
+  console.log(`indexed ${events} events from ${runs} runs`);
+}
+
+// `w3rt trace export`: writes the run as OTLP JSON or Chrome trace format, by default to ./<runId>.<format>.json.
+export function exportRunTrace(runId: string, format: string, opts: { out?: string } = {}): string | undefined {
+  if (!TRACE_EXPORT_FORMATS.includes(format as TraceExportFormat)) {
+    console.error(`Unknown export format: ${format} (expected ${TRACE_EXPORT_FORMATS.join(" or ")})`);
+    return undefined;
+  }
+  const events = new TraceQuery(w3rtDir()).loadRunEvents(runId);
+  if (!events.length) {
+    console.error(`No trace found for runId ${runId}`);
+    return undefined;
+  }
+  const out = resolve(opts.out ?? `${runId}.${format}.json`);
+  writeFileSync(out, JSON.stringify(exportTrace(events, format as TraceExportFormat), null, 2));
+  console.log(`wrote ${out}`);
+  return out;
+}
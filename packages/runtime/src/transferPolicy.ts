@@ -0,0 +1,26 @@
+import type { PolicyContext } from "@w3rt/policy";
+
+// Transfer fields for PolicyContext (destination / mint / tokenAmount), enforced by the engine's
+// per-mint, per-destination and destination allow/deny gates.
+
+type TransferFields = Pick<PolicyContext, "destination" | "mint" | "tokenAmount">;
+
+// From the params of solana_build_transfer_tx / /v1/solana/transfer/prepare (no tokenMint = native SOL).
+export function transferPolicyFieldsFromParams(params: { to?: unknown; amount?: unknown; tokenMint?: unknown }): TransferFields {
+  const amount = Number(params.amount);
+  return {
+    destination: typeof params.to === "string" && params.to ? params.to : undefined,
+    mint: typeof params.tokenMint === "string" && params.tokenMint ? params.tokenMint : "SOL",
+    tokenAmount: Number.isFinite(amount) ? amount : undefined,
+  };
+}
+
+// From the `summary` returned by solana_build_transfer_tx; empty for anything that is not a transfer.
+export function transferPolicyFieldsFromSummary(summary: any): TransferFields {
+  if (summary?.kind !== "sol_transfer" && summary?.kind !== "spl_transfer") return {};
+  return transferPolicyFieldsFromParams({
+    to: summary.to,
+    amount: summary.amount,
+    tokenMint: summary.kind === "spl_transfer" ? summary.tokenMint : undefined,
+  });
+}
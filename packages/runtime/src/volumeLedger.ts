@@ -0,0 +1,91 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { withFileLock, writeFileAtomic } from "./fileLock.js";
+
+// Per-wallet USD volume ledger backing `networks.mainnet.maxDailyVolumeUsd`.
+// Lives next to policy_broadcast_history.json; entries older than the window are pruned on save.
+//
+// One file is shared by `w3rt run`, the daemon and every engine run, so the policy check and the record after a
+// broadcast go through `walletVolumeUsd` / `appendVolume`, which re-read it under its lock.
+
+export type VolumeLedgerEntry = {
+  ts: number;
+  wallet: string;
+  amountUsd: number;
+  runId?: string;
+  tool?: string;
+};
+
+export type VolumeLedgerState = { entries: VolumeLedgerEntry[] };
+
+export const VOLUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Ledger key of the signing wallet. Shared by `w3rt run` and the engine runner so one wallet has one daily total.
+export function volumeWalletId(chain: string | undefined, solanaPubkey?: string): string {
+  if (chain === "solana") return solanaPubkey ?? "solana:unknown";
+  if (chain === "evm") return String(process.env.W3RT_EVM_USER_ADDRESS || "") || "evm:unknown";
+  return `${chain ?? "unknown"}:default`;
+}
+
+export function volumeLedgerPath(w3rtDir: string) {
+  return join(w3rtDir, "policy_volume_ledger.json");
+}
+
+export function loadVolumeLedger(statePath: string): VolumeLedgerState {
+  try {
+    const raw = readFileSync(statePath, "utf-8");
+    const j = JSON.parse(raw);
+    const entries = Array.isArray(j?.entries)
+      ? j.entries.filter(
+          (e: any) => Number.isFinite(e?.ts) && typeof e?.wallet === "string" && Number.isFinite(e?.amountUsd)
+        )
+      : [];
+    return { entries };
+  } catch {
+    return { entries: [] };
+  }
+}
+
+export function saveVolumeLedger(statePath: string, st: VolumeLedgerState, nowMs = Date.now()) {
+  const pruned = st.entries.filter((e) => nowMs - e.ts < VOLUME_WINDOW_MS).slice(-5000);
+  try {
+    writeFileAtomic(statePath, JSON.stringify({ entries: pruned }, null, 2));
+  } catch {
+    // best-effort
+  }
+}
+
+export function volumeUsdInWindow(st: VolumeLedgerState, wallet: string, nowMs = Date.now(), windowMs = VOLUME_WINDOW_MS): number {
+  let total = 0;
+  for (const e of st.entries) {
+    if (e.wallet !== wallet) continue;
+    if (nowMs - e.ts >= windowMs) continue;
+    total += e.amountUsd;
+  }
+  return total;
+}
+
+export function recordVolume(st: VolumeLedgerState, entry: VolumeLedgerEntry) {
+  if (!Number.isFinite(entry.amountUsd) || entry.amountUsd <= 0) return;
+  st.entries.push(entry);
+}
+
+// Total of `wallet` in the window, from the ledger as it is on disk now.
+export function walletVolumeUsd(statePath: string, wallet: string, nowMs = Date.now()): number {
+  return withFileLock(`${statePath}.lock`, () => volumeUsdInWindow(loadVolumeLedger(statePath), wallet, nowMs));
+}
+
+// Adds a broadcast to the ledger on disk. Best-effort like the save: the broadcast has already been sent.
+export function appendVolume(statePath: string, entry: VolumeLedgerEntry) {
+  if (!Number.isFinite(entry.amountUsd) || entry.amountUsd <= 0) return;
+  try {
+    withFileLock(`${statePath}.lock`, () => {
+      const st = loadVolumeLedger(statePath);
+      recordVolume(st, entry);
+      saveVolumeLedger(statePath, st, entry.ts);
+    });
+  } catch {
+    // best-effort
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  approvalsPath,
+  decideApproval,
+  findApproval,
+  cancelOrphanedApprovals,
+  listPendingApprovals,
+  loadApprovals,
+  requestApproval,
+  saveApprovals,
+  updateApprovals,
+} from "../src/approvals.js";
+import { runWorkflow } from "../src/runner.js";
+
+function readJsonl(path: string) {
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((l) => JSON.parse(l));
+}
+
+function approvalWorkflow(dir: string, timeout?: string) {
+  const wf = join(dir, "wf.yaml");
+  writeFileSync(
+    wf,
+    `
+name: gated
+version: "1.0"
+trigger: manual
+stages:
+  - name: approve
+    type: approval
+    approval:
+      required: true
+${timeout ? `      timeout: ${timeout}\n` : ""}  - name: check
+    type: analysis
+    actions:
+      - tool: price_check
+        params:
+          tokens: [SOL]
+`
+  );
+  return wf;
+}
+
+describe("approvals", () => {
+  test("decisions only apply to pending, unexpired requests", () => {
+    const st = { approvals: [] };
+    requestApproval(st, { runId: "r1", stage: "approve", workflow: "w", expiresAt: 2_000 }, 1_000);
+
+    expect(() => decideApproval(st, "r2", "approve", { approved: true, by: "cli" })).toThrow(
+      "No approval requested for stage 'approve' of run r2"
+    );
+    expect(() => decideApproval(st, "r1", "approve", { approved: true, by: "cli" }, 2_000)).toThrow(
+      "Approval for stage 'approve' of run r1 expired"
+    );
+    const a = decideApproval(st, "r1", "approve", { approved: false, by: "cli", reason: "too large" }, 1_500);
+    expect(a).toMatchObject({ status: "denied", by: "cli", reason: "too large", resolvedAt: 1_500 });
+    expect(() => decideApproval(st, "r1", "approve", { approved: true, by: "cli" }, 1_600)).toThrow("is already denied");
+  });
+
+  test("a run without an approver parks until the request is granted", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-approvals-"));
+    const statePath = approvalsPath(dir);
+    let parked: string | undefined;
+
+    const result = await runWorkflow(approvalWorkflow(dir), {
+      w3rtDir: dir,
+      onApprovalPending: (request) => {
+        parked = request.runId;
+        // as `w3rt approve <runId> approve` would, from another process
+        updateApprovals(statePath, (st) => decideApproval(st, request.runId, request.stage, { approved: true, by: "cli" }));
+      },
+    });
+
+    expect(result.ok).toBe(true);
+    expect(parked).toBe(result.runId);
+    expect(findApproval(loadApprovals(statePath), result.runId, "approve")?.status).toBe("approved");
+    const types = readJsonl(join(dir, "runs", result.runId, "trace.jsonl")).map((e) => e.type);
+    expect(types).toContain("approval.requested");
+    expect(types.indexOf("approval.decided")).toBeLessThan(types.indexOf("tool.called"));
+  });
+
+  test("an unanswered approval expires after approval.timeout", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-approvals-"));
+
+    const result = await runWorkflow(approvalWorkflow(dir, "50ms"), { w3rtDir: dir });
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe("Approval for stage 'approve' expired after 50ms");
+    expect(findApproval(loadApprovals(approvalsPath(dir)), result.runId, "approve")?.status).toBe("expired");
+    const events = readJsonl(join(dir, "runs", result.runId, "trace.jsonl"));
+    expect(events.find((e) => e.type === "approval.expired")).toMatchObject({ stepId: "approve", data: { timeoutMs: 50 } });
+    expect(events.some((e) => e.type === "tool.called")).toBe(false);
+  });
+
+  test("approvalTimeout applies to approval stages that set none", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-approvals-"));
+
+    const result = await runWorkflow(approvalWorkflow(dir), { w3rtDir: dir, approvalTimeout: "50ms" });
+
+    expect(result.error).toBe("Approval for stage 'approve' expired after 50ms");
+    expect(findApproval(loadApprovals(approvalsPath(dir)), result.runId, "approve")?.expiresAt).toBeDefined();
+  });
+
+  test("requests of runs whose process exited are cancelled", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-approvals-"));
+    const statePath = approvalsPath(dir);
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    const st = { approvals: [] };
+    requestApproval(st, { runId: "live", stage: "approve", workflow: "w" });
+    requestApproval(st, { runId: "gone", stage: "approve", workflow: "w" }).pid = exited;
+    saveApprovals(statePath, st);
+
+    expect(listPendingApprovals(loadApprovals(statePath)).map((a) => a.runId)).toEqual(["live"]);
+    expect(() =>
+      updateApprovals(statePath, (cur) => decideApproval(cur, "gone", "approve", { approved: true, by: "cli" }))
+    ).toThrow("is already cancelled");
+    expect(findApproval(loadApprovals(statePath), "gone", "approve")).toMatchObject({ status: "cancelled", reason: "run process exited" });
+    expect(findApproval(loadApprovals(statePath), "live", "approve")?.status).toBe("pending");
+
+    // a restarted daemon may have been given the same pid, but none of its runs are parked yet
+    const restarted = updateApprovals(statePath, (cur) => cancelOrphanedApprovals(cur, Date.now(), { startup: true }));
+    expect(restarted.map((a) => a.runId)).toEqual(["live"]);
+  });
+
+  test("updates take over a lock left behind by a dead holder", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-approvals-"));
+    const statePath = approvalsPath(dir);
+    writeFileSync(`${statePath}.lock`, "");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${statePath}.lock`, old, old);
+
+    updateApprovals(statePath, (st) => requestApproval(st, { runId: "r1", stage: "approve", workflow: "w" }));
+
+    expect(findApproval(loadApprovals(statePath), "r1", "approve")?.status).toBe("pending");
+    expect(existsSync(`${statePath}.lock`)).toBe(false);
+  });
+});
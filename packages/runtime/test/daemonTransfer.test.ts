@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Keypair } from "@solana/web3.js";
+import yaml from "js-yaml";
+
+import { startDaemon } from "../src/daemon.js";
+import { startFakeSolanaRpc } from "./fakeSolanaRpc.js";
+
+const A = Keypair.generate().publicKey.toBase58();
+const B = Keypair.generate().publicKey.toBase58();
+const C = Keypair.generate().publicKey.toBase58();
+const signer = Keypair.generate();
+// devnet USDC
+const USDC = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+
+function policyConfig(destinations: string[]) {
+  return {
+    networks: {
+      mainnet: { enabled: false, requireApproval: false, requireSimulation: true },
+      testnet: { enabled: true, requireApproval: false },
+    },
+    transactions: { maxSingleAmountUsd: 1000, maxSlippageBps: 500, requireConfirmation: "never" },
+    allowlist: { actions: [], destinations },
+    rules: [],
+  };
+}
+
+describe("daemon Solana transfer prepare / execute", () => {
+  let rpc: Awaited<ReturnType<typeof startFakeSolanaRpc>>;
+  let base = "";
+  let dir = "";
+
+  const post = async (path: string, body: unknown) => {
+    const res = await fetch(base + path, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, json: (await res.json()) as any };
+  };
+
+  beforeAll(async () => {
+    rpc = await startFakeSolanaRpc();
+    process.env.W3RT_SOLANA_RPC_URL = rpc.url;
+    process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(signer.secretKey));
+
+    dir = mkdtempSync(join(tmpdir(), "w3rt-daemon-transfer-"));
+    writeFileSync(join(dir, "policy.yaml"), yaml.dump(policyConfig([A, B])));
+    await startDaemon({ port: 0, w3rtDir: dir, schedulesDir: join(dir, "schedules") });
+    base = readFileSync(join(dir, "daemon.url"), "utf-8").trim();
+  });
+
+  afterAll(async () => {
+    delete process.env.W3RT_SOLANA_RPC_URL;
+    delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+    await rpc.close();
+  });
+
+  test("executes an allowlisted transfer", async () => {
+    const prep = await post("/v1/solana/transfer/prepare", { to: A, amount: 0.001 });
+    expect(prep.json.allowed).toBe(true);
+    expect(prep.json.preparedId).toBeDefined();
+
+    const exec = await post("/v1/solana/transfer/execute", { preparedId: prep.json.preparedId, confirm: true });
+    expect(exec.status).toBe(200);
+    expect(exec.json.ok).toBe(true);
+    expect(exec.json.signature).toBe("fakesig1");
+    expect(exec.json.policyReport.decision).toBe("allow");
+  });
+
+  test("records an executed stablecoin transfer in the shared volume ledger", async () => {
+    const prep = await post("/v1/solana/transfer/prepare", { to: A, amount: 12.5, tokenMint: USDC, createAta: false });
+    expect(prep.json.allowed).toBe(true);
+
+    const exec = await post("/v1/solana/transfer/execute", { preparedId: prep.json.preparedId, confirm: true });
+    expect(exec.json.ok).toBe(true);
+
+    const ledger = JSON.parse(readFileSync(join(dir, "policy_volume_ledger.json"), "utf-8"));
+    expect(ledger.entries).toMatchObject([{ wallet: signer.publicKey.toBase58(), amountUsd: 12.5, tool: "internal.transfer" }]);
+  });
+
+  test("does not store a blocked prepare, so it cannot be executed", async () => {
+    const prep = await post("/v1/solana/transfer/prepare", { to: C, amount: 0.001 });
+    expect(prep.json.allowed).toBe(false);
+    expect(prep.json.policyReport.code).toBe("DESTINATION_NOT_ALLOWED");
+    expect(prep.json.preparedId).toBeUndefined();
+
+    const exec = await post("/v1/solana/transfer/execute", { preparedId: prep.json.preparedId ?? "prep_blocked", confirm: true });
+    expect(exec.status).toBe(404);
+    expect(exec.json.error).toBe("PREPARED_NOT_FOUND_OR_EXPIRED");
+    expect(rpc.calls.sendTransaction).toBe(2);
+  });
+
+  test("re-checks the destination at execute against the current policy", async () => {
+    const prep = await post("/v1/solana/transfer/prepare", { to: B, amount: 0.001 });
+    expect(prep.json.allowed).toBe(true);
+
+    const applied = await post("/v1/policy/apply", { config: policyConfig([A]) });
+    expect(applied.json.ok).toBe(true);
+
+    const exec = await post("/v1/solana/transfer/execute", { preparedId: prep.json.preparedId, confirm: true });
+    expect(exec.status).toBe(403);
+    expect(exec.json.error).toBe("POLICY_BLOCK");
+    expect(exec.json.policyReport.code).toBe("DESTINATION_NOT_ALLOWED");
+    expect(exec.json.policyReport.violations.map((v: any) => v.code)).toEqual(["DESTINATION_NOT_ALLOWED"]);
+    expect(rpc.calls.sendTransaction).toBe(2);
+  });
+});
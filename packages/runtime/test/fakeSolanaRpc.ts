@@ -0,0 +1,54 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Keypair } from "@solana/web3.js";
+
+// Minimal Solana JSON-RPC for building, simulating and sending transactions without a cluster.
+// `calls` counts requests by method.
+export async function startFakeSolanaRpc() {
+  const blockhash = Keypair.generate().publicKey.toBase58();
+  const calls: Record<string, number> = {};
+
+  const results: Record<string, (params: any[]) => unknown> = {
+    getLatestBlockhash: () => ({ context: { slot: 1 }, value: { blockhash, lastValidBlockHeight: 1000 } }),
+    simulateTransaction: () => ({
+      context: { slot: 1 },
+      value: { err: null, logs: [], accounts: null, unitsConsumed: 150, returnData: null },
+    }),
+    sendTransaction: () => `fakesig${calls.sendTransaction}`,
+    // every account is a 6-decimal token mint (answers getParsedAccountInfo, i.e. jsonParsed encoding)
+    getAccountInfo: () => ({
+      context: { slot: 1 },
+      value: {
+        data: { program: "spl-token", parsed: { type: "mint", info: { decimals: 6 } }, space: 82 },
+        executable: false,
+        lamports: 1_000_000,
+        owner: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+        rentEpoch: 0,
+      },
+    }),
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const c of req) chunks.push(c as Buffer);
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    calls[body.method] = (calls[body.method] ?? 0) + 1;
+
+    const result = results[body.method];
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify(
+        result
+          ? { jsonrpc: "2.0", id: body.id, result: result(body.params ?? []) }
+          : { jsonrpc: "2.0", id: body.id, error: { code: -32601, message: `Method not found: ${body.method}` } }
+      )
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
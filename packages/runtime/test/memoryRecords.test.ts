@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { attestationKeyPath, attestationPublicKeyHex, loadAttestationKey } from "../src/attestation.js";
+import { verifyMemoryRecord, writeMemoryRecord, type MemoryRecordV1 } from "../src/memoryRecords.js";
+
+const record: MemoryRecordV1 = {
+  run_id: "run_1",
+  reasoning_hash: "a".repeat(64),
+  artifacts_hash: "b".repeat(64),
+  policy_decision: "allow",
+  outcome: "success",
+  ts: "2026-01-01T00:00:00.000Z",
+};
+
+describe("memory record attestations", () => {
+  test("records are signed with the runtime attestation key", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-memory-"));
+    const { path } = writeMemoryRecord(dir, record);
+    const written: MemoryRecordV1 = JSON.parse(readFileSync(path, "utf-8"));
+
+    const pub = attestationPublicKeyHex(loadAttestationKey(dir));
+    expect(written).toMatchObject({ sig_alg: "ed25519", public_key: pub });
+    expect(statSync(attestationKeyPath(dir)).mode & 0o077).toBe(0);
+    expect(verifyMemoryRecord(written, { publicKey: pub })).toEqual({ ok: true, public_key: pub });
+
+    // the same key signs later records
+    const again: MemoryRecordV1 = JSON.parse(readFileSync(writeMemoryRecord(dir, { ...record, run_id: "run_2" }).path, "utf-8"));
+    expect(again.public_key).toBe(pub);
+  });
+
+  test("tampered, unsigned or foreign-key records fail", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-memory-"));
+    const written: MemoryRecordV1 = JSON.parse(readFileSync(writeMemoryRecord(dir, record).path, "utf-8"));
+
+    expect(verifyMemoryRecord({ ...written, outcome: "fail" }).error).toBe("signature does not match the record");
+    expect(verifyMemoryRecord(record).error).toBe("record is not signed");
+
+    const other = attestationPublicKeyHex(loadAttestationKey(mkdtempSync(join(tmpdir(), "w3rt-memory-"))));
+    expect(verifyMemoryRecord(written, { publicKey: other }).error).toBe("signed by a different key than expected");
+    // swapping in another public key breaks the signature
+    expect(verifyMemoryRecord({ ...written, public_key: other }).ok).toBe(false);
+  });
+});
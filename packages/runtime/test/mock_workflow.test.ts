@@ -1,9 +1,13 @@
 import { describe, expect, test } from "bun:test";
-import { mkdtempSync, readFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join, resolve } from "node:path";
 
-import { runWorkflowFromFile } from "../src/run";
+import { Keypair } from "@solana/web3.js";
+
+import { loadCheckpoint, saveCheckpoint } from "../src/checkpoint";
+import { resumeWorkflowRun, runWorkflowFromFile } from "../src/run";
+import { startFakeSolanaRpc } from "./fakeSolanaRpc";
 
 function readJsonl(path: string) {
   const raw = readFileSync(path, "utf-8");
@@ -13,22 +17,19 @@ function readJsonl(path: string) {
     .map((l) => JSON.parse(l));
 }
 
-describe("w3rt core runner", () => {
-  test("runs mock workflow and writes trace", async () => {
-    const dir = mkdtempSync(join(tmpdir(), "w3rt-test-"));
-    const wf = resolve(new URL("../../../workflows/mock-arb.yaml", import.meta.url).pathname);
-
-    // The legacy runner loads policy from process.cwd()/.w3rt/policy.yaml.
-    // Create a permissive policy in an isolated cwd so tests don't depend on repo-level policy.
-    const prevCwd = process.cwd();
-    process.chdir(dir);
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const { mkdirSync, writeFileSync } = await import("node:fs");
-      mkdirSync(join(dir, ".w3rt"), { recursive: true });
-      writeFileSync(
-        join(dir, ".w3rt", "policy.yaml"),
-        `
+const mockArb = resolve(new URL("../../../workflows/mock-arb.yaml", import.meta.url).pathname);
+
+// The legacy runner loads policy from process.cwd()/.w3rt/policy.yaml.
+// Create a permissive policy in an isolated cwd so tests don't depend on repo-level policy.
+async function inPolicyCwd(fn: (dir: string) => Promise<void>) {
+  const dir = mkdtempSync(join(tmpdir(), "w3rt-test-"));
+  const prevCwd = process.cwd();
+  process.chdir(dir);
+  try {
+    mkdirSync(join(dir, ".w3rt"), { recursive: true });
+    writeFileSync(
+      join(dir, ".w3rt", "policy.yaml"),
+      `
 networks:
   mainnet:
     enabled: true
@@ -45,12 +46,32 @@ allowlist:
   actions: []
 rules: []
 `
-      );
+    );
+
+    // Also force a non-mainnet RPC for test determinism.
+    process.env.W3RT_SOLANA_RPC_URL = "https://api.devnet.solana.com";
 
-      // Also force a non-mainnet RPC for test determinism.
-      process.env.W3RT_SOLANA_RPC_URL = "https://api.devnet.solana.com";
+    await fn(dir);
+  } finally {
+    process.chdir(prevCwd);
+  }
+}
 
-      const { runId } = await runWorkflowFromFile(wf, {
+// A mock-arb run stopped at its approval stage; returns its runId.
+async function rejectedRun(dir: string): Promise<string> {
+  try {
+    await runWorkflowFromFile(mockArb, { w3rtDir: dir, approve: async () => false });
+  } catch (e: any) {
+    expect(e.message).toBe("User rejected approval");
+    return e.runId;
+  }
+  throw new Error("expected the run to be rejected");
+}
+
+describe("w3rt core runner", () => {
+  test("runs mock workflow and writes trace", async () => {
+    await inPolicyCwd(async (dir) => {
+      const { runId } = await runWorkflowFromFile(mockArb, {
         w3rtDir: dir,
         approve: async () => true,
       });
@@ -61,8 +82,152 @@ rules: []
       expect(events[0].type).toBe("run.started");
       expect(events[events.length - 1].type).toBe("run.finished");
       expect(events[events.length - 1].data.ok).toBe(true);
-    } finally {
-      process.chdir(prevCwd);
-    }
+    });
+  });
+
+  test("resumes a stopped run from its last completed action", async () => {
+    await inPolicyCwd(async (dir) => {
+      const runId = await rejectedRun(dir);
+
+      const cp = loadCheckpoint(dir, runId)!;
+      expect(cp.status).toBe("failed");
+      expect(cp.completed).toEqual(["analyze#0", "analyze#1", "simulate#0"]);
+      expect(cp.decisions).toEqual({ simulate: true });
+      expect(cp.ctx.simulation.profitUsd).toBe(60);
+
+      const { summary } = await resumeWorkflowRun(runId, { w3rtDir: dir, approve: async () => true });
+      expect(summary.ok).toBe(true);
+
+      const events = readJsonl(join(dir, "runs", runId, "trace.jsonl"));
+      const resumedAt = events.findIndex((e) => e.type === "run.resumed");
+      expect(events[resumedAt].data.completed).toBe(3);
+      const called = events.slice(resumedAt).filter((e) => e.type === "tool.called").map((e) => e.tool);
+      expect(called).toEqual(["swap", "verify_balance", "notify"]);
+      expect(events[events.length - 1].data.ok).toBe(true);
+
+      const done = loadCheckpoint(dir, runId)!;
+      expect(done.status).toBe("finished");
+      expect(done.completed).toContain("approve#approval");
+      expect(Object.keys(done.sent)).toEqual(["execute#0"]);
+      await expect(resumeWorkflowRun(runId, { w3rtDir: dir })).rejects.toThrow(`Run ${runId} already finished`);
+    });
+  });
+
+  test("does not resend a pending broadcast it cannot look up", async () => {
+    await inPolicyCwd(async (dir) => {
+      const runId = await rejectedRun(dir);
+
+      // as if the process died while the swap was being sent
+      const cp = loadCheckpoint(dir, runId)!;
+      cp.completed.push("approve#approval");
+      cp.pending = { key: "execute#0", tool: "swap", ts: Date.now() };
+      saveCheckpoint(dir, cp);
+
+      await expect(resumeWorkflowRun(runId, { w3rtDir: dir, approve: async () => true })).rejects.toThrow(
+        "Broadcast execute#0 (swap) may already have been sent and cannot be checked on chain; refusing to send it again"
+      );
+      const events = readJsonl(join(dir, "runs", runId, "trace.jsonl"));
+      expect(events.filter((e) => e.type === "tool.result" && e.tool === "swap")).toEqual([]);
+    });
+  });
+
+  test("a send after a use action is checked against the sub-run's build and simulation", async () => {
+    await inPolicyCwd(async (dir) => {
+      writeFileSync(
+        join(dir, ".w3rt", "policy.yaml"),
+        `
+networks:
+  mainnet:
+    enabled: true
+    requireApproval: false
+    requireSimulation: true
+  testnet:
+    enabled: true
+    requireApproval: false
+transactions:
+  maxSingleAmountUsd: 1000
+  maxSlippageBps: 500
+  requireConfirmation: large
+allowlist:
+  actions: []
+rules: []
+`
+      );
+      mkdirSync(join(dir, "lib"));
+      writeFileSync(
+        join(dir, "lib", "usdc_transfer_build_simulate.yaml"),
+        `
+name: usdc_transfer_build_simulate
+version: "1.0"
+trigger: manual
+inputs:
+  to:
+    type: string
+outputs:
+  built: built
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_build_transfer_tx
+        params:
+          to: "{{ inputs.to }}"
+          amount: 5000
+          tokenMint: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v
+          createAta: false
+  - name: simulate
+    type: simulation
+    actions:
+      - tool: solana_simulate_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+      );
+      const wf = join(dir, "wf.yaml");
+      writeFileSync(
+        wf,
+        `
+name: usdc_transfer
+version: "1.0"
+trigger: manual
+stages:
+  - name: prepare
+    type: simulation
+    actions:
+      - use: usdc_transfer_build_simulate
+        inputs:
+          to: "${Keypair.generate().publicKey.toBase58()}"
+        outputs:
+          built: built
+  - name: send
+    type: execution
+    actions:
+      - tool: solana_send_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+      );
+
+      const rpc = await startFakeSolanaRpc();
+      process.env.W3RT_SOLANA_RPC_URL = `${rpc.url}/mainnet`;
+      process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(Keypair.generate().secretKey));
+      let runId = "";
+      try {
+        await expect(
+          runWorkflowFromFile(wf, { w3rtDir: dir, approve: async () => false }).catch((e) => {
+            runId = e.runId;
+            throw e;
+          })
+        ).rejects.toThrow("Policy confirm rejected");
+        expect(rpc.calls.sendTransaction).toBeUndefined();
+      } finally {
+        delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+        await rpc.close();
+      }
+
+      const decision = readJsonl(join(dir, "runs", runId, "trace.jsonl")).find((e) => e.type === "policy.decision");
+      expect(decision.data.code).toBe("AMOUNT_LARGE");
+      expect(decision.data.policyContext).toMatchObject({ network: "mainnet", simulationOk: true, amountUsd: 5000, tokenAmount: 5000 });
+    });
   });
 });
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { defaultPolicySpec } from "@w3rt/policy";
+
+import {
+  diffPolicyDocuments,
+  headPolicyRevision,
+  loadPolicyHistory,
+  loadPolicyRevision,
+  policyHistoryDir,
+  policyRevisionId,
+  recordPolicyRevision,
+  resolvePolicyRevision,
+} from "../src/policyHistory.js";
+
+describe("policy history", () => {
+  test("revision ids are content hashes independent of key order", () => {
+    expect(policyRevisionId({ a: 1, b: { c: 2 } })).toBe(policyRevisionId({ b: { c: 2 }, a: 1 }));
+    expect(policyRevisionId({ a: 1 })).not.toBe(policyRevisionId({ a: 2 }));
+  });
+
+  test("records revisions and links parents", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-policy-history-"));
+    const v1 = defaultPolicySpec();
+    const v2 = { ...defaultPolicySpec(), transactions: { maxSingleAmountUsd: 50 } };
+
+    const e1 = recordPolicyRevision(dir, v1, "load", 1_000);
+    // reloading an unchanged policy does not add an entry
+    expect(recordPolicyRevision(dir, v1, "load", 1_500)).toBeNull();
+    const e2 = recordPolicyRevision(dir, v2, "apply", 2_000);
+    const e3 = recordPolicyRevision(dir, v1, "rollback", 3_000);
+
+    expect(e1?.parent).toBeNull();
+    expect(e2?.parent).toBe(e1!.revision);
+    expect(e3?.revision).toBe(e1!.revision);
+    expect(loadPolicyHistory(dir).map((e) => e.source)).toEqual(["load", "apply", "rollback"]);
+    expect(headPolicyRevision(dir)).toBe(e1!.revision);
+
+    expect(resolvePolicyRevision(dir, e2!.revision.slice(0, 8))).toBe(e2!.revision);
+    expect(loadPolicyRevision(dir, e2!.revision).document).toEqual(v2);
+    expect(() => resolvePolicyRevision(dir, "abcdef")).toThrow("Unknown policy revision");
+  });
+
+  test("detects tampered revisions", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-policy-history-"));
+    const e = recordPolicyRevision(dir, defaultPolicySpec(), "apply")!;
+    const p = join(policyHistoryDir(dir), "revisions", `${e.revision}.json`);
+    const rec = JSON.parse(readFileSync(p, "utf-8"));
+    rec.document.networks.mainnet.enabled = false;
+    writeFileSync(p, JSON.stringify(rec));
+
+    expect(() => loadPolicyRevision(dir, e.revision)).toThrow("failed its hash check");
+  });
+
+  test("diffs policy documents by path", () => {
+    const a = defaultPolicySpec();
+    const b = defaultPolicySpec();
+    b.networks.mainnet.maxDailyVolumeUsd = 1000;
+    b.transactions.maxSlippageBps = undefined;
+    b.allowlist.actions = ["swap"];
+    b.rules = [{ field: "amountUsd", op: ">", value: 10, action: "warn" }];
+    (b as any).allowlist.solanaPrograms = ["JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4"];
+
+    expect(diffPolicyDocuments(a, b)).toEqual([
+      { path: "allowlist.actions", change: "changed", from: a.allowlist.actions, to: ["swap"] },
+      { path: "allowlist.solanaPrograms", change: "added", to: ["JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4"] },
+      { path: "networks.mainnet.maxDailyVolumeUsd", change: "changed", from: 500, to: 1000 },
+      { path: "rules", change: "changed", from: [], to: b.rules },
+      { path: "transactions.maxSlippageBps", change: "removed", from: 100 },
+    ]);
+    expect(diffPolicyDocuments(a, defaultPolicySpec())).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import yaml from "js-yaml";
+
+import { startDaemon } from "../src/daemon.js";
+import { policyRevisionId } from "../src/policyHistory.js";
+import {
+  cancelPendingPolicyChange,
+  duePolicyChanges,
+  listPendingPolicyChanges,
+  loadPendingPolicyChanges,
+  pendingPolicyPath,
+  queuePolicyChange,
+  resolvePolicyChange,
+  savePendingPolicyChanges,
+  updatePendingPolicyChanges,
+} from "../src/policyTimelock.js";
+
+const change = {
+  source: "apply" as const,
+  baseRevision: "base",
+  revision: "next",
+  loosenings: [{ path: "transactions.maxSingleAmountUsd", from: 100, to: 1000, message: "transactions.maxSingleAmountUsd raised" }],
+  document: { policySpecVersion: 1 },
+};
+
+describe("policy time lock", () => {
+  test("queued changes become due after the delay", () => {
+    const st = { changes: [] };
+    const c = queuePolicyChange(st, change, 3600, 1_000);
+
+    expect(c.status).toBe("pending");
+    expect(c.effectiveAt).toBe(1_000 + 3_600_000);
+    expect(duePolicyChanges(st, 1_000 + 3_599_999)).toEqual([]);
+    expect(duePolicyChanges(st, 1_000 + 3_600_000).map((x) => x.id)).toEqual([c.id]);
+  });
+
+  test("cancel and persistence", () => {
+    const statePath = pendingPolicyPath(mkdtempSync(join(tmpdir(), "w3rt-timelock-")));
+    const st = loadPendingPolicyChanges(statePath);
+    const a = queuePolicyChange(st, change, 60, 1_000);
+    const b = queuePolicyChange(st, change, 30, 1_000);
+    savePendingPolicyChanges(statePath, st);
+
+    const loaded = loadPendingPolicyChanges(statePath);
+    expect(listPendingPolicyChanges(loaded).map((c) => c.id)).toEqual([b.id, a.id]);
+
+    expect(cancelPendingPolicyChange(loaded, a.id, 2_000)?.status).toBe("cancelled");
+    expect(cancelPendingPolicyChange(loaded, a.id, 2_000)).toBeNull();
+    resolvePolicyChange(loaded.changes.find((c) => c.id === b.id)!, "applied", 3_000);
+    savePendingPolicyChanges(statePath, loaded);
+
+    const after = loadPendingPolicyChanges(statePath);
+    expect(listPendingPolicyChanges(after)).toEqual([]);
+    expect(after.changes.map((c) => c.status).sort()).toEqual(["applied", "cancelled"]);
+  });
+
+  test("updates are saved unless the update throws", () => {
+    const statePath = pendingPolicyPath(mkdtempSync(join(tmpdir(), "w3rt-timelock-")));
+    const a = updatePendingPolicyChanges(statePath, (st) => queuePolicyChange(st, change, 60, 1_000));
+    expect(() =>
+      updatePendingPolicyChanges(statePath, (st) => {
+        cancelPendingPolicyChange(st, a.id);
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+
+    expect(listPendingPolicyChanges(loadPendingPolicyChanges(statePath)).map((c) => c.id)).toEqual([a.id]);
+  });
+
+  test("the daemon supersedes a due change when policy.yaml was rewritten behind it", async () => {
+    const policyDoc = (maxSingleAmountUsd: number) => ({
+      networks: { mainnet: { enabled: false }, testnet: { enabled: true } },
+      transactions: { maxSingleAmountUsd },
+      changeControl: { loosenDelaySeconds: 3600 },
+    });
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-timelock-daemon-"));
+    const policyPath = join(dir, "policy.yaml");
+    writeFileSync(policyPath, yaml.dump(policyDoc(100)));
+    await startDaemon({ port: 0, w3rtDir: dir, schedulesDir: join(dir, "schedules") });
+    const base = readFileSync(join(dir, "daemon.url"), "utf-8").trim();
+
+    // queued against the loaded policy and due now
+    const c = updatePendingPolicyChanges(pendingPolicyPath(dir), (st) =>
+      queuePolicyChange(
+        st,
+        { ...change, baseRevision: policyRevisionId(policyDoc(100)), revision: policyRevisionId(policyDoc(1000)), document: policyDoc(1000) },
+        0,
+        Date.now() - 1_000
+      )
+    );
+    // e.g. `w3rt policy rollback` to a tighter revision while the daemon runs
+    writeFileSync(policyPath, yaml.dump(policyDoc(50)));
+
+    const res = await fetch(`${base}/v1/policy/pending`);
+    expect(((await res.json()) as any).changes).toEqual([]);
+
+    expect(loadPendingPolicyChanges(pendingPolicyPath(dir)).changes.find((x) => x.id === c.id)?.status).toBe("superseded");
+    expect((yaml.load(readFileSync(policyPath, "utf-8")) as any).transactions.maxSingleAmountUsd).toBe(50);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { TraceStore } from "@w3rt/trace";
+import { defaultPolicySpec } from "@w3rt/policy";
+
+import {
+  evaluatePolicyAgainstHistory,
+  loadPolicyEngineFile,
+  parseSince,
+  policyEngineFromDocument,
+  validPolicyConfigFromDocument,
+} from "../src/policyWhatIf.js";
+
+const baseCtx = {
+  chain: "solana",
+  network: "mainnet",
+  action: "swap",
+  sideEffect: "broadcast",
+  simulationOk: true,
+};
+
+function seedTraces(dir: string) {
+  const trace = new TraceStore(dir);
+  trace.emit({ ts: 1_000, type: "policy.decision", runId: "run_a", tool: "solana_send_tx", data: { decision: "allow", policyContext: { ...baseCtx, amountUsd: 20 } } });
+  trace.emit({ ts: 2_000, type: "policy.decision", runId: "run_a", tool: "solana_send_tx", data: { decision: "allow", policyContext: { ...baseCtx, amountUsd: 80 } } });
+  // daemon prepare shape: nested decision + evaluation mode
+  trace.emit({ ts: 3_000, type: "policy.decision", runId: "run_b", data: { decision: { decision: "allow" }, policyContext: { ...baseCtx, action: "transfer", sideEffect: "none" }, evaluationMode: "all" } });
+  // recorded before contexts were traced
+  trace.emit({ ts: 4_000, type: "policy.decision", runId: "run_b", data: { decision: "allow", programIds: [] } });
+}
+
+describe("policy what-if", () => {
+  test("reports decisions that would flip under a candidate policy", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-whatif-"));
+    seedTraces(dir);
+
+    const spec = defaultPolicySpec();
+    spec.networks.mainnet = { enabled: true, requireApproval: false };
+    spec.transactions = { maxSingleAmountUsd: 50, requireConfirmation: "never" };
+    spec.rules = [{ name: "no_big", field: "amountUsd", op: ">", value: 50, action: "block" }];
+
+    const report = evaluatePolicyAgainstHistory(dir, policyEngineFromDocument(spec));
+    expect(report.runsScanned).toBe(2);
+    expect(report.evaluated).toBe(3);
+    expect(report.skipped).toBe(1);
+    expect(report.unchanged).toBe(2);
+    expect(report.transitions).toEqual({ "allow->block": 1 });
+    expect(report.flips).toEqual([
+      { runId: "run_a", ts: 2_000, stepId: undefined, tool: "solana_send_tx", before: "allow", after: "block", code: "RULE_NO_BIG", message: expect.any(String) },
+    ]);
+  });
+
+  test("honors the time window and flip limit", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-whatif-"));
+    seedTraces(dir);
+
+    const engine = policyEngineFromDocument({
+      networks: { mainnet: { enabled: false, requireApproval: true } },
+      transactions: {},
+      allowlist: {},
+      rules: [],
+    });
+    const all = evaluatePolicyAgainstHistory(dir, engine, { limit: 1 });
+    expect(all.transitions).toEqual({ "allow->block": 3 });
+    expect(all.flips.length).toBe(1);
+
+    const windowed = evaluatePolicyAgainstHistory(dir, engine, { fromTs: 2_500 });
+    expect(windowed.evaluated).toBe(1);
+    expect(windowed.flips[0].runId).toBe("run_b");
+  });
+
+  test("loads candidate policy files and parses --from-runs", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-whatif-"));
+    const p = join(dir, "candidate.yaml");
+    writeFileSync(p, "policySpecVersion: 1\nnetworks:\n  mainnet: { enabled: false }\n  testnet: { enabled: true }\ntransactions: {}\nallowlist: {}\n");
+    expect(loadPolicyEngineFile(p).decide(baseCtx as any).decision).toBe("block");
+
+    const now = Date.parse("2026-01-10T00:00:00Z");
+    expect(parseSince("24h", now)).toBe(now - 86_400_000);
+    expect(parseSince("7d", now)).toBe(now - 7 * 86_400_000);
+    expect(parseSince("2026-01-01", now)).toBe(Date.parse("2026-01-01"));
+    expect(() => parseSince("yesterday", now)).toThrow("Invalid --from-runs value");
+  });
+
+  test("refuses policy documents with invalid rules", () => {
+    const cfg = { transactions: {}, allowlist: {}, rules: [{ name: "typo", condition: "amountUSD > 5", action: "block" }] };
+    expect(() => validPolicyConfigFromDocument(cfg)).toThrow(
+      "Invalid policy: rules[0].condition: unknown identifier 'amountUSD' at position 0"
+    );
+    expect(() => policyEngineFromDocument(cfg)).toThrow("Invalid policy");
+
+    const spec = { ...defaultPolicySpec(), rules: [{ name: "x", field: "amountUsd", op: "~", value: 1, action: "warn" }] };
+    expect(() => validPolicyConfigFromDocument(spec)).toThrow("Invalid policy: rules[0].op");
+  });
+});
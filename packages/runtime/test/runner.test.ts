@@ -3,7 +3,10 @@ import { mkdtempSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join, resolve } from "node:path";
 
+import { Keypair } from "@solana/web3.js";
+
 import { runWorkflow } from "../src/runner.js";
+import { startFakeSolanaRpc } from "./fakeSolanaRpc.js";
 
 function readJsonl(path: string) {
   const raw = readFileSync(path, "utf-8");
@@ -111,4 +114,429 @@ rules: []
     expect(result.ok).toBe(false);
     expect(result.error).toContain("ACTION_NOT_ALLOWED");
   });
+
+  test("rejects invalid inputs before the run starts", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: inputs
+version: "1.0"
+trigger: manual
+inputs:
+  tokens:
+    type: string
+  minProfit:
+    type: number
+    min: 0
+stages:
+  - name: check
+    type: analysis
+    actions:
+      - tool: price_check
+        params:
+          tokens: "{{ inputs.tokens }}"
+`
+    );
+
+    await expect(runWorkflow(wf, { w3rtDir: dir, inputs: { minProfit: "-1" } })).rejects.toThrow(
+      "Invalid inputs: missing required input 'tokens'; input 'minProfit' must be at least 0"
+    );
+
+    const result = await runWorkflow(wf, { w3rtDir: dir, inputs: { tokens: "SOL", minProfit: "5" } });
+    expect(result.ok).toBe(true);
+    expect(result.context.inputs).toEqual({ tokens: "SOL", minProfit: 5 });
+  });
+
+  test("traces a use action as a linked sub-run", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    mkdirSync(join(dir, "lib"));
+    writeFileSync(
+      join(dir, "lib", "opportunity.yaml"),
+      `
+name: opportunity
+version: "1.0"
+trigger: manual
+inputs:
+  minProfit:
+    type: number
+outputs:
+  profit: calculate_opportunity.profit
+stages:
+  - name: calc
+    type: analysis
+    actions:
+      - tool: calculate_opportunity
+        params:
+          minProfit: "{{ inputs.minProfit }}"
+`
+    );
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: caller
+version: "1.0"
+trigger: manual
+stages:
+  - name: analyze
+    type: analysis
+    actions:
+      - use: opportunity
+        id: opp
+        inputs:
+          minProfit: 20
+`
+    );
+
+    const result = await runWorkflow(wf, { w3rtDir: dir });
+    expect(result.ok).toBe(true);
+    expect(result.context.steps.opp.result).toEqual({ profit: 25 });
+
+    const events = readJsonl(join(dir, "runs", result.runId, "trace.jsonl"));
+    const called = events.find((e: any) => e.type === "workflow.called");
+    const done = events.find((e: any) => e.type === "workflow.result");
+    expect(called).toMatchObject({ stepId: "analyze", data: { workflow: "opportunity", inputs: { minProfit: 20 } } });
+    expect(done).toMatchObject({ stepId: "analyze", data: { subRunId: called.data.subRunId, ok: true } });
+
+    const sub = readJsonl(join(dir, "runs", called.data.subRunId, "trace.jsonl"));
+    expect(sub[0]).toMatchObject({ type: "run.started", data: { workflow: "opportunity", parentRunId: result.runId, parentStepId: "analyze" } });
+    expect(sub.map((e: any) => e.type)).toEqual(["run.started", "step.started", "tool.called", "tool.result", "step.finished", "run.finished"]);
+  });
+
+  test("checks a transfer against the transfer gates only before building it", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    const to = Keypair.generate().publicKey.toBase58();
+    const rpc = await startFakeSolanaRpc();
+    process.env.W3RT_SOLANA_RPC_URL = rpc.url;
+    process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(Keypair.generate().secretKey));
+
+    writeFileSync(
+      join(dir, "policy.yaml"),
+      `
+networks:
+  mainnet:
+    enabled: false
+    requireApproval: false
+    requireSimulation: true
+  testnet:
+    enabled: true
+    requireApproval: false
+transactions:
+  maxSingleAmountUsd: 1000
+  maxSlippageBps: 500
+  requireConfirmation: never
+allowlist:
+  actions: []
+  solanaPrograms: ["11111111111111111111111111111111"]
+  destinations: ["${to}"]
+rules: []
+`
+    );
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: transfer_simulate_only
+version: "1.0"
+trigger: manual
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_build_transfer_tx
+        params:
+          to: "${to}"
+          amount: 0.001
+  - name: simulate
+    type: simulation
+    actions:
+      - tool: solana_simulate_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+    );
+
+    try {
+      // The program ids are unknown until the transaction is built, so the program allowlist applies after.
+      const result = await runWorkflow(wf, { w3rtDir: dir });
+      expect(result.error).toBeUndefined();
+      expect(result.ok).toBe(true);
+      expect(rpc.calls.simulateTransaction).toBe(1);
+    } finally {
+      delete process.env.W3RT_SOLANA_RPC_URL;
+      delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+      await rpc.close();
+    }
+  });
+
+  test("policy limits apply without legacy aliases and with custom result names", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    const rpc = await startFakeSolanaRpc();
+    process.env.W3RT_SOLANA_RPC_URL = `${rpc.url}/mainnet`;
+    process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(Keypair.generate().secretKey));
+
+    writeFileSync(
+      join(dir, "policy.yaml"),
+      `
+networks:
+  mainnet:
+    enabled: true
+    requireApproval: false
+    requireSimulation: true
+  testnet:
+    enabled: true
+    requireApproval: false
+transactions:
+  maxSingleAmountUsd: 1000
+  maxSlippageBps: 500
+  requireConfirmation: large
+allowlist:
+  actions: []
+rules: []
+`
+    );
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: usdc_transfer
+version: "1.0"
+trigger: manual
+config:
+  legacyAliases: false
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_build_transfer_tx
+        as: transferTx
+        params:
+          to: "${Keypair.generate().publicKey.toBase58()}"
+          amount: 5000
+          tokenMint: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v
+          createAta: false
+  - name: simulate
+    type: simulation
+    actions:
+      - tool: solana_simulate_tx
+        as: check
+        params:
+          txB64: "{{ transferTx.txB64 }}"
+  - name: send
+    type: execution
+    actions:
+      - tool: solana_send_tx
+        params:
+          txB64: "{{ transferTx.txB64 }}"
+`
+    );
+
+    try {
+      const result = await runWorkflow(wf, { w3rtDir: dir });
+      expect(result.ok).toBe(false);
+      expect(rpc.calls.sendTransaction).toBeUndefined();
+
+      const decision = readJsonl(join(dir, "runs", result.runId, "trace.jsonl")).find((e: any) => e.type === "policy.decision");
+      expect(decision.data.code).toBe("AMOUNT_LARGE");
+      expect(decision.data.policyContext).toMatchObject({ network: "mainnet", simulationOk: true, amountUsd: 5000, tokenAmount: 5000 });
+    } finally {
+      delete process.env.W3RT_SOLANA_RPC_URL;
+      delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+      await rpc.close();
+    }
+  });
+
+  test("a send after a use action is checked against the sub-run's build and simulation", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    const rpc = await startFakeSolanaRpc();
+    process.env.W3RT_SOLANA_RPC_URL = `${rpc.url}/mainnet`;
+    process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(Keypair.generate().secretKey));
+
+    writeFileSync(
+      join(dir, "policy.yaml"),
+      `
+networks:
+  mainnet:
+    enabled: true
+    requireApproval: false
+    requireSimulation: true
+  testnet:
+    enabled: true
+    requireApproval: false
+transactions:
+  maxSingleAmountUsd: 1000
+  maxSlippageBps: 500
+  requireConfirmation: large
+allowlist:
+  actions: []
+rules: []
+`
+    );
+    mkdirSync(join(dir, "lib"));
+    writeFileSync(
+      join(dir, "lib", "usdc_transfer_build_simulate.yaml"),
+      `
+name: usdc_transfer_build_simulate
+version: "1.0"
+trigger: manual
+inputs:
+  to:
+    type: string
+outputs:
+  built: built
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_build_transfer_tx
+        params:
+          to: "{{ inputs.to }}"
+          amount: 5000
+          tokenMint: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v
+          createAta: false
+  - name: simulate
+    type: simulation
+    actions:
+      - tool: solana_simulate_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+    );
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: usdc_transfer
+version: "1.0"
+trigger: manual
+stages:
+  - name: prepare
+    type: simulation
+    actions:
+      - use: usdc_transfer_build_simulate
+        inputs:
+          to: "${Keypair.generate().publicKey.toBase58()}"
+        outputs:
+          built: built
+  - name: send
+    type: execution
+    actions:
+      - tool: solana_send_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+    );
+
+    try {
+      const result = await runWorkflow(wf, { w3rtDir: dir });
+      expect(result.ok).toBe(false);
+      expect(rpc.calls.sendTransaction).toBeUndefined();
+
+      const decision = readJsonl(join(dir, "runs", result.runId, "trace.jsonl")).find((e: any) => e.type === "policy.decision");
+      expect(decision.data.code).toBe("AMOUNT_LARGE");
+      expect(decision.data.policyContext).toMatchObject({ network: "mainnet", simulationOk: true, amountUsd: 5000, tokenAmount: 5000 });
+    } finally {
+      delete process.env.W3RT_SOLANA_RPC_URL;
+      delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+      await rpc.close();
+    }
+  });
+
+  test("records the volume of each broadcast of a parallel stage in the shared ledger", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-runner-test-"));
+    const rpc = await startFakeSolanaRpc();
+    const signer = Keypair.generate();
+    process.env.W3RT_SOLANA_RPC_URL = `${rpc.url}/mainnet`;
+    process.env.W3RT_SOLANA_PRIVATE_KEY = JSON.stringify(Array.from(signer.secretKey));
+
+    writeFileSync(
+      join(dir, "policy.yaml"),
+      `
+networks:
+  mainnet:
+    enabled: true
+    requireApproval: false
+    requireSimulation: false
+    maxDailyVolumeUsd: 1000
+  testnet:
+    enabled: true
+    requireApproval: false
+transactions:
+  maxSingleAmountUsd: 1000
+  maxSlippageBps: 500
+  requireConfirmation: never
+allowlist:
+  actions: []
+rules: []
+`
+    );
+    // written by another process
+    writeFileSync(join(dir, "policy_volume_ledger.json"), JSON.stringify({ entries: [{ ts: Date.now(), wallet: "other", amountUsd: 7 }] }));
+    mkdirSync(join(dir, "lib"));
+    writeFileSync(
+      join(dir, "lib", "usdc_transfer.yaml"),
+      `
+name: usdc_transfer
+version: "1.0"
+trigger: manual
+inputs:
+  amount:
+    type: number
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_build_transfer_tx
+        params:
+          to: "${Keypair.generate().publicKey.toBase58()}"
+          amount: "{{ inputs.amount }}"
+          tokenMint: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v
+          createAta: false
+  - name: send
+    type: execution
+    actions:
+      - tool: solana_send_tx
+        params:
+          txB64: "{{ built.txB64 }}"
+`
+    );
+    const wf = join(dir, "wf.yaml");
+    writeFileSync(
+      wf,
+      `
+name: usdc_transfers
+version: "1.0"
+trigger: manual
+stages:
+  - name: send
+    type: execution
+    parallel: true
+    actions:
+      - use: usdc_transfer
+        id: a
+        inputs:
+          amount: 10
+      - use: usdc_transfer
+        id: b
+        inputs:
+          amount: 20
+`
+    );
+
+    try {
+      const result = await runWorkflow(wf, { w3rtDir: dir });
+      expect(result.error).toBeUndefined();
+      expect(rpc.calls.sendTransaction).toBe(2);
+
+      const ledger = JSON.parse(readFileSync(join(dir, "policy_volume_ledger.json"), "utf-8"));
+      const wallet = signer.publicKey.toBase58();
+      expect(ledger.entries.map((e: any) => [e.wallet, e.amountUsd]).sort()).toEqual([[wallet, 10], [wallet, 20], ["other", 7]]);
+    } finally {
+      delete process.env.W3RT_SOLANA_RPC_URL;
+      delete process.env.W3RT_SOLANA_PRIVATE_KEY;
+      await rpc.close();
+    }
+  });
 });
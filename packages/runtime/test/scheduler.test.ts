@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createScheduler, loadScheduleState, schedulesStatePath } from "../src/scheduler.js";
+
+const workflow = (name: string, trigger: string) => `
+name: ${name}
+version: "1.0"
+${trigger}
+stages:
+  - name: check
+    type: analysis
+    actions:
+      - tool: mock_price
+`;
+
+function setup() {
+  const w3rtDir = mkdtempSync(join(tmpdir(), "w3rt-sched-"));
+  const dir = join(w3rtDir, "workflows");
+  mkdirSync(dir);
+  writeFileSync(join(dir, "tick.yaml"), workflow("tick", 'trigger: cron\ntriggerConfig:\n  cron: "*/5 * * * *"'));
+  writeFileSync(join(dir, "manual.yaml"), workflow("manual", "trigger: manual"));
+  writeFileSync(join(dir, "broken.yaml"), workflow("broken", 'trigger: cron\ntriggerConfig:\n  cron: "* *"'));
+  return { w3rtDir, dir };
+}
+
+const t0 = Date.parse("2026-03-01T10:02:00Z");
+
+describe("cron scheduler", () => {
+  test("schedules cron workflows and reports invalid ones", () => {
+    const { w3rtDir, dir } = setup();
+    const scheduler = createScheduler({ w3rtDir, dir, run: async () => ({ ok: true }) });
+
+    const { schedules, errors } = scheduler.list(t0);
+    expect(schedules.map((s) => s.id)).toEqual(["tick"]);
+    expect(schedules[0].nextRunAt).toBe(Date.parse("2026-03-01T10:05:00Z"));
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error).toContain("triggerConfig.cron");
+  });
+
+  test("runs due workflows, records results and skips overlapping slots", async () => {
+    const { w3rtDir, dir } = setup();
+    const calls: string[] = [];
+    const approvalTimeouts: Array<string | undefined> = [];
+    let finish!: () => void;
+    const scheduler = createScheduler({
+      w3rtDir,
+      dir,
+      run: (path, runOpts) => {
+        calls.push(path);
+        approvalTimeouts.push(runOpts.approvalTimeout);
+        return new Promise((res) => (finish = () => res({ runId: "run_1", ok: true })));
+      },
+    });
+
+    scheduler.list(t0);
+    expect(scheduler.tick(t0).started).toEqual([]);
+
+    const t1 = Date.parse("2026-03-01T10:05:00Z");
+    expect(scheduler.tick(t1).started).toEqual(["tick"]);
+    expect(scheduler.list(t1).schedules[0].running).toBe(true);
+    // an unanswered approval gives up by the next slot
+    expect(approvalTimeouts).toEqual(["300000ms"]);
+
+    // still running at the next slot
+    const t2 = Date.parse("2026-03-01T10:10:00Z");
+    expect(scheduler.tick(t2)).toEqual({ started: [], skipped: ["tick"] });
+    expect(calls).toHaveLength(1);
+
+    finish();
+    await scheduler.idle();
+
+    const rec = loadScheduleState(schedulesStatePath(w3rtDir)).schedules.tick;
+    expect(rec.lastRunAt).toBe(t1);
+    expect(rec.lastRunId).toBe("run_1");
+    expect(rec.lastStatus).toBe("ok");
+    expect(rec.skippedOverlaps).toBe(1);
+    expect(rec.nextRunAt).toBe(Date.parse("2026-03-01T10:15:00Z"));
+  });
+
+  test("records failures, and pause/resume persist", async () => {
+    const { w3rtDir, dir } = setup();
+    const scheduler = createScheduler({
+      w3rtDir,
+      dir,
+      run: async () => {
+        throw new Error("rpc down");
+      },
+    });
+    scheduler.list(t0);
+
+    expect(scheduler.pause("tick", t0)?.paused).toBe(true);
+    expect(scheduler.tick(Date.parse("2026-03-01T10:05:00Z")).started).toEqual([]);
+    expect(scheduler.pause("nope")).toBe(null);
+
+    // a fresh scheduler (daemon restart) sees the persisted pause
+    const again = createScheduler({ w3rtDir, dir, run: async () => ({ ok: false, error: "x" }) });
+    expect(again.list(t0).schedules[0].paused).toBe(true);
+
+    const t1 = Date.parse("2026-03-01T10:21:00Z");
+    expect(scheduler.resume("tick", t1)?.nextRunAt).toBe(Date.parse("2026-03-01T10:25:00Z"));
+    expect(scheduler.tick(Date.parse("2026-03-01T10:25:00Z")).started).toEqual(["tick"]);
+    await scheduler.idle();
+
+    const rec = loadScheduleState(schedulesStatePath(w3rtDir)).schedules.tick;
+    expect(rec.lastStatus).toBe("failed");
+    expect(rec.lastError).toBe("rpc down");
+  });
+});
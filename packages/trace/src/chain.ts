@@ -0,0 +1,87 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { canonicalizeJson, sha256Hex } from "./hash.js";
+import type { RunManifest, TraceEvent, TraceVerification } from "./types.js";
+
+// Tamper evidence for trace.jsonl: every event carries the previous event's hash (GENESIS_HASH for the first),
+// so editing, dropping or reordering a line breaks the chain from there on. `run.finished` also seals the run's
+// artifacts into manifest.json; the event's `manifestSha256` ties that manifest into the chain.
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// sha256 of the event's canonical JSON without its own `hash`.
+export function eventHash(e: TraceEvent): string {
+  const { hash: _hash, ...rest } = e;
+  return sha256Hex(canonicalizeJson(rest));
+}
+
+export function manifestDigest(artifacts: RunManifest["artifacts"]): string {
+  return sha256Hex(canonicalizeJson(artifacts));
+}
+
+// Every file in the run's artifacts directory, by name.
+export function hashArtifacts(artifactsDir: string): RunManifest["artifacts"] {
+  if (!existsSync(artifactsDir)) return [];
+  return readdirSync(artifactsDir)
+    .filter((f) => statSync(join(artifactsDir, f)).isFile())
+    .sort()
+    .map((name) => {
+      const data = readFileSync(join(artifactsDir, name));
+      return { name, sha256: sha256Hex(data), bytes: data.length };
+    });
+}
+
+// Checks the chain line by line, then the artifacts against the last seal. Stops at the first problem.
+export function verifyRunDir(runDir: string, runId: string): TraceVerification {
+  const tracePath = join(runDir, "trace.jsonl");
+  if (!existsSync(tracePath)) {
+    return { runId, ok: false, events: 0, sealed: false, error: { kind: "not_found", message: `No trace at ${tracePath}` } };
+  }
+
+  const lines = readFileSync(tracePath, "utf-8").split("\n").filter(Boolean);
+  const fail = (error: TraceVerification["error"], sealed = false): TraceVerification => ({ runId, ok: false, events: lines.length, sealed, error });
+
+  let prev = GENESIS_HASH;
+  let seal: TraceEvent | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    let e: TraceEvent;
+    try {
+      e = JSON.parse(lines[i]);
+    } catch {
+      return fail({ kind: "unreadable", line, message: `line ${line} is not valid JSON` });
+    }
+    if (typeof e.hash !== "string") return fail({ kind: "missing_hash", line, message: `line ${line} (${e.type}) has no hash` });
+    if (e.prevHash !== prev || e.seq !== i) {
+      return fail({ kind: "broken_link", line, message: `line ${line} (${e.type}) does not follow line ${i}: an event was removed, inserted or reordered` });
+    }
+    if (eventHash(e) !== e.hash) return fail({ kind: "hash_mismatch", line, message: `line ${line} (${e.type}) was modified after it was written` });
+    prev = e.hash;
+    if (e.type === "run.finished" && typeof e.manifestSha256 === "string") seal = e;
+  }
+
+  if (!seal) return { runId, ok: true, events: lines.length, sealed: false };
+
+  const manifestPath = join(runDir, "manifest.json");
+  let manifest: RunManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  } catch {
+    return fail({ kind: "manifest_missing", message: `run.finished sealed the run but ${manifestPath} is missing or unreadable` }, true);
+  }
+  if (manifest.lastHash !== seal.hash || manifestDigest(manifest.artifacts ?? []) !== seal.manifestSha256) {
+    return fail({ kind: "manifest_mismatch", message: "manifest.json does not match the run.finished event that sealed it" }, true);
+  }
+
+  const actual = new Map(hashArtifacts(join(runDir, "artifacts")).map((a) => [a.name, a]));
+  for (const a of manifest.artifacts) {
+    const cur = actual.get(a.name);
+    if (!cur) return fail({ kind: "artifact_missing", artifact: a.name, message: `artifact ${a.name} is missing` }, true);
+    if (cur.sha256 !== a.sha256) return fail({ kind: "artifact_mismatch", artifact: a.name, message: `artifact ${a.name} does not match its sealed sha256` }, true);
+    actual.delete(a.name);
+  }
+  const extra = [...actual.keys()][0];
+  if (extra) return fail({ kind: "artifact_unsealed", artifact: extra, message: `artifact ${extra} was added after the run was sealed` }, true);
+
+  return { runId, ok: true, events: lines.length, sealed: true };
+}
@@ -0,0 +1,121 @@
+import { appendFileSync, closeSync, existsSync, openSync, readFileSync, readSync, readdirSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { TraceEvent, TraceEventType } from "./types.js";
+
+// Cross-run event index: one compact line per trace event in <baseDir>/trace_index.jsonl, appended by
+// TraceStore.emit. Queries filter the index and read only the matching events, by byte range, from their
+// run's trace.jsonl. Traces written before the index existed are picked up by rebuildTraceIndex (`w3rt trace reindex`).
+
+export interface TraceIndexEntry {
+  // the event's id (resuming streams, see TraceQuery.follow)
+  id: string;
+  runId: string;
+  ts: number;
+  type: TraceEventType;
+  tool?: string;
+  chain?: string;
+  walletId?: string;
+  // transaction signature / hash the event mentions
+  tx?: string;
+  // the event's line in runs/<runId>/trace.jsonl
+  offset: number;
+  length: number;
+}
+
+export function traceIndexPath(baseDir: string) {
+  return join(baseDir, "trace_index.jsonl");
+}
+
+function eventTx(e: TraceEvent): string | undefined {
+  const d = (e.data ?? {}) as any;
+  const tx = d.signature ?? d.txHash ?? d.result?.signature ?? d.result?.txHash;
+  return typeof tx === "string" ? tx : undefined;
+}
+
+export function indexEntry(e: TraceEvent, offset: number, length: number): TraceIndexEntry {
+  return {
+    id: e.id,
+    runId: e.runId,
+    ts: e.ts,
+    type: e.type,
+    ...(e.tool ? { tool: e.tool } : {}),
+    ...(e.chain ? { chain: e.chain } : {}),
+    ...(e.walletId ? { walletId: e.walletId } : {}),
+    ...(eventTx(e) ? { tx: eventTx(e) } : {}),
+    offset,
+    length,
+  };
+}
+
+export function appendIndexEntry(baseDir: string, entry: TraceIndexEntry) {
+  appendFileSync(traceIndexPath(baseDir), JSON.stringify(entry) + "\n");
+}
+
+// Reads an index line range [fromByte, size); returns the entries and the offset after the last complete line.
+export function readIndexEntries(indexPath: string, fromByte = 0): { entries: TraceIndexEntry[]; size: number } {
+  if (!existsSync(indexPath)) return { entries: [], size: 0 };
+  const size = statSync(indexPath).size;
+  if (size <= fromByte) return { entries: [], size: fromByte };
+
+  const buf = Buffer.alloc(size - fromByte);
+  const fd = openSync(indexPath, "r");
+  try {
+    readSync(fd, buf, 0, buf.length, fromByte);
+  } finally {
+    closeSync(fd);
+  }
+  // a line still being appended is left for the next read
+  const end = buf.lastIndexOf(0x0a) + 1;
+  const entries = buf
+    .subarray(0, end)
+    .toString("utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((l) => JSON.parse(l) as TraceIndexEntry);
+  return { entries, size: fromByte + end };
+}
+
+export function readIndexedEvent(baseDir: string, entry: TraceIndexEntry): TraceEvent {
+  const buf = Buffer.alloc(entry.length);
+  const fd = openSync(join(baseDir, "runs", entry.runId, "trace.jsonl"), "r");
+  try {
+    readSync(fd, buf, 0, entry.length, entry.offset);
+  } finally {
+    closeSync(fd);
+  }
+  return JSON.parse(buf.toString("utf-8"));
+}
+
+// Re-indexes every run's trace.jsonl, ordered by time. Events emitted while it runs may be missing from the result.
+export function rebuildTraceIndex(baseDir: string): { runs: number; events: number } {
+  const runsDir = join(baseDir, "runs");
+  const entries: TraceIndexEntry[] = [];
+  let runs = 0;
+  const runIds = existsSync(runsDir) ? readdirSync(runsDir, { withFileTypes: true }).filter((d) => d.isDirectory()).map((d) => d.name) : [];
+  for (const runId of runIds) {
+    const p = join(runsDir, runId, "trace.jsonl");
+    if (!existsSync(p)) continue;
+    runs++;
+    const buf = readFileSync(p);
+    let offset = 0;
+    while (offset < buf.length) {
+      const nl = buf.indexOf(0x0a, offset);
+      const end = nl === -1 ? buf.length : nl + 1;
+      const line = buf.subarray(offset, end).toString("utf-8").trim();
+      if (line) {
+        try {
+          entries.push(indexEntry(JSON.parse(line), offset, end - offset));
+        } catch {
+          // unreadable line: not indexed (see `w3rt trace verify`)
+        }
+      }
+      offset = end;
+    }
+  }
+  entries.sort((a, b) => a.ts - b.ts);
+
+  const indexPath = traceIndexPath(baseDir);
+  writeFileSync(`${indexPath}.tmp`, entries.map((e) => JSON.stringify(e) + "\n").join(""));
+  renameSync(`${indexPath}.tmp`, indexPath);
+  return { runs, events: entries.length };
+}
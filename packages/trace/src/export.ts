@@ -0,0 +1,310 @@
+import crypto from "node:crypto";
+import type { TraceEvent, TraceEventType } from "./types.js";
+
+// Exports traces as spans: one span per run, per stage (step.started → step.finished) and per tool call
+// (tool.called → tool.result / tool.error). Every other event (tx.*, policy.decision, approval.*, retries)
+// becomes a span event on the innermost open span. Span ids are derived from the runId and the opening event's
+// seq, so exports of the same run, and pushes from a process that resumed it, line up.
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface TraceSpan {
+  traceId: string; // 32 hex
+  spanId: string; // 16 hex
+  parentSpanId?: string;
+  kind: "run" | "step" | "tool";
+  name: string;
+  startTs: number;
+  // unset while the span is still open
+  endTs?: number;
+  // unset when the outcome is unknown (stages, unfinished runs)
+  ok?: boolean;
+  error?: string;
+  attributes: SpanAttributes;
+  events: Array<{ ts: number; name: TraceEventType; attributes: SpanAttributes }>;
+}
+
+export type TraceExportFormat = "otlp" | "chrome";
+
+export const TRACE_EXPORT_FORMATS: TraceExportFormat[] = ["otlp", "chrome"];
+
+function hexId(input: string, length: number) {
+  return crypto.createHash("sha256").update(input).digest("hex").slice(0, length);
+}
+
+export function traceIdFor(runId: string) {
+  return hexId(runId, 32);
+}
+
+// Scalar `data` fields plus the event's chain / wallet / tool, as `w3rt.*` attributes.
+function eventAttributes(e: TraceEvent): SpanAttributes {
+  const out: SpanAttributes = {};
+  if (e.chain) out["w3rt.chain"] = e.chain;
+  if (e.walletId) out["w3rt.wallet_id"] = e.walletId;
+  if (e.tool) out["w3rt.tool"] = e.tool;
+  for (const [k, v] of Object.entries(e.data ?? {})) {
+    if (typeof v === "string" || typeof v === "boolean" || (typeof v === "number" && Number.isFinite(v))) out[`w3rt.${k}`] = v;
+  }
+  return out;
+}
+
+// Spans of one run, in the order they were opened.
+export function buildSpans(events: TraceEvent[]): TraceSpan[] {
+  if (!events.length) return [];
+  const runId = events[0].runId;
+  const traceId = traceIdFor(runId);
+  const started = events.find((e) => e.type === "run.started");
+
+  const run: TraceSpan = {
+    traceId,
+    spanId: hexId(`${runId}:run`, 16),
+    kind: "run",
+    name: `run ${(started?.data?.workflow as string | undefined) ?? runId}`,
+    startTs: events[0].ts,
+    attributes: { "w3rt.run_id": runId, ...(started ? eventAttributes(started) : {}) },
+    events: [],
+  };
+  const spans: TraceSpan[] = [run];
+  // open spans, most recent last
+  const steps = new Map<string, TraceSpan[]>();
+  const tools = new Map<string, TraceSpan[]>();
+  const toolKey = (e: TraceEvent) => `${e.stepId ?? ""}\u0000${e.tool ?? ""}`;
+  const last = <T>(list?: T[]) => list?.[list.length - 1];
+
+  const open = (e: TraceEvent, i: number, kind: "step" | "tool", name: string, parent: TraceSpan) => {
+    const span: TraceSpan = {
+      traceId,
+      spanId: hexId(`${runId}:${kind}:${e.seq ?? i}`, 16),
+      parentSpanId: parent.spanId,
+      kind,
+      name,
+      startTs: e.ts,
+      attributes: eventAttributes(e),
+      events: [],
+    };
+    if (e.stepId) span.attributes["w3rt.step_id"] = e.stepId;
+    spans.push(span);
+    return span;
+  };
+
+  events.forEach((e, i) => {
+    const step = e.stepId ? last(steps.get(e.stepId)) : undefined;
+    switch (e.type) {
+      case "run.started":
+        break;
+      case "run.finished":
+        run.endTs = e.ts;
+        run.ok = e.data?.ok === true;
+        if (typeof e.data?.error === "string") run.error = e.data.error;
+        break;
+      case "step.started": {
+        const parentStep = typeof e.data?.parent === "string" ? last(steps.get(e.data.parent)) : undefined;
+        const span = open(e, i, "step", `stage ${e.stepId}`, parentStep ?? run);
+        steps.set(e.stepId!, [...(steps.get(e.stepId!) ?? []), span]);
+        break;
+      }
+      case "step.finished":
+        if (step) {
+          step.endTs = e.ts;
+          if (e.data?.approved === false) step.ok = false;
+          steps.get(e.stepId!)!.pop();
+        }
+        break;
+      case "tool.called": {
+        const span = open(e, i, "tool", `tool ${e.tool}`, step ?? run);
+        tools.set(toolKey(e), [...(tools.get(toolKey(e)) ?? []), span]);
+        break;
+      }
+      case "tool.result":
+      case "tool.error": {
+        // calls of the same tool in one stage finish in the order they started
+        const span = tools.get(toolKey(e))?.shift();
+        if (!span) break;
+        span.endTs = e.ts;
+        span.ok = e.type === "tool.result";
+        if (e.type === "tool.error") span.error = String(e.data?.error ?? "tool error");
+        break;
+      }
+      default: {
+        const target = (e.tool ? tools.get(toolKey(e))?.[0] : undefined) ?? step ?? run;
+        target.events.push({ ts: e.ts, name: e.type, attributes: eventAttributes(e) });
+      }
+    }
+  });
+  return spans;
+}
+
+function groupByRun(events: TraceEvent[]): TraceEvent[][] {
+  const runs = new Map<string, TraceEvent[]>();
+  for (const e of events) {
+    const list = runs.get(e.runId);
+    if (list) list.push(e);
+    else runs.set(e.runId, [e]);
+  }
+  return [...runs.values()];
+}
+
+function otlpValue(v: string | number | boolean) {
+  if (typeof v === "string") return { stringValue: v };
+  if (typeof v === "boolean") return { boolValue: v };
+  return Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v };
+}
+
+function otlpAttributes(attrs: SpanAttributes) {
+  return Object.entries(attrs).map(([key, v]) => ({ key, value: otlpValue(v) }));
+}
+
+function unixNano(ms: number) {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+// OTLP/JSON ExportTraceServiceRequest for the given spans. Open spans end at `openEndTs`.
+export function otlpRequest(spans: TraceSpan[], opts: { serviceName?: string; openEndTs?: number } = {}) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes({ "service.name": opts.serviceName ?? "w3rt" }) },
+        scopeSpans: [
+          {
+            scope: { name: "@w3rt/trace" },
+            spans: spans.map((s) => ({
+              traceId: s.traceId,
+              spanId: s.spanId,
+              ...(s.parentSpanId ? { parentSpanId: s.parentSpanId } : {}),
+              name: s.name,
+              kind: 1, // SPAN_KIND_INTERNAL
+              startTimeUnixNano: unixNano(s.startTs),
+              endTimeUnixNano: unixNano(s.endTs ?? opts.openEndTs ?? s.startTs),
+              attributes: otlpAttributes(s.attributes),
+              events: s.events.map((ev) => ({
+                timeUnixNano: unixNano(ev.ts),
+                name: ev.name,
+                attributes: otlpAttributes(ev.attributes),
+              })),
+              // STATUS_CODE_UNSET / OK / ERROR
+              status: s.ok === undefined ? { code: 0 } : s.ok ? { code: 1 } : { code: 2, ...(s.error ? { message: s.error } : {}) },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function toOtlpJson(events: TraceEvent[], opts: { serviceName?: string } = {}) {
+  const spans = groupByRun(events).flatMap(buildSpans);
+  return otlpRequest(spans, { ...opts, openEndTs: Math.max(...events.map((e) => e.ts)) });
+}
+
+// Chrome trace event format (chrome://tracing, Perfetto): complete ("X") events for spans and instant ("i")
+// events for span events, one process per run and one thread per top-level stage.
+export function toChromeTrace(events: TraceEvent[]) {
+  const traceEvents: Record<string, unknown>[] = [];
+  groupByRun(events).forEach((runEvents, r) => {
+    const pid = r + 1;
+    const endTs = Math.max(...runEvents.map((e) => e.ts));
+    // span → thread; the run span is thread 0 and every stage directly under it gets a thread of its own
+    const tids = new Map<string, number>();
+    let threads = 0;
+    traceEvents.push({ name: "process_name", ph: "M", pid, tid: 0, args: { name: runEvents[0].runId } });
+
+    for (const s of buildSpans(runEvents)) {
+      let tid = s.parentSpanId ? tids.get(s.parentSpanId) ?? 0 : 0;
+      if (s.kind === "run" || tid === 0) {
+        tid = s.kind === "run" ? 0 : ++threads;
+        traceEvents.push({ name: "thread_name", ph: "M", pid, tid, args: { name: s.kind === "run" ? "run" : s.name } });
+      }
+      tids.set(s.spanId, tid);
+
+      const end = s.endTs ?? endTs;
+      traceEvents.push({
+        name: s.name,
+        cat: s.kind,
+        ph: "X",
+        ts: s.startTs * 1000,
+        dur: (end - s.startTs) * 1000,
+        pid,
+        tid,
+        args: { ...s.attributes, ...(s.ok === false ? { error: s.error ?? true } : {}) },
+      });
+      for (const ev of s.events) {
+        traceEvents.push({ name: ev.name, cat: "event", ph: "i", s: "t", ts: ev.ts * 1000, pid, tid, args: ev.attributes });
+      }
+    }
+  });
+  return { traceEvents, displayTimeUnit: "ms" };
+}
+
+export function exportTrace(events: TraceEvent[], format: TraceExportFormat) {
+  return format === "otlp" ? toOtlpJson(events) : toChromeTrace(events);
+}
+
+// Live OTLP/HTTP push (see OtlpPusher), e.g. to a local collector on http://localhost:4318.
+export interface OtlpPushOptions {
+  // collector base URL; spans are POSTed to `<endpoint>/v1/traces`
+  endpoint: string;
+  serviceName?: string;
+  headers?: Record<string, string>;
+  // a push the collector has not answered by then is dropped (default 5000)
+  timeoutMs?: number;
+}
+
+// W3RT_OTLP_ENDPOINT turns on live push for every TraceStore; W3RT_OTLP_SERVICE_NAME overrides "w3rt".
+export function otlpPushFromEnv(): OtlpPushOptions | undefined {
+  const endpoint = process.env.W3RT_OTLP_ENDPOINT;
+  if (!endpoint) return undefined;
+  return { endpoint, serviceName: process.env.W3RT_OTLP_SERVICE_NAME || undefined };
+}
+
+const CLOSING: TraceEventType[] = ["run.finished", "step.finished", "tool.result", "tool.error"];
+
+// Runs that emit no run.finished here (a run that threw, one parked and resumed by another process) would otherwise
+// keep their events for the life of the process; past this many open runs the least recently active one is dropped.
+const MAX_OPEN_RUNS = 100;
+
+// Pushes spans as they close, from the events TraceStore.emit hands it. Best effort: a missing or failing
+// collector never fails or slows down a run, and spans of events emitted by other processes are not seen. Spans
+// of a run dropped for MAX_OPEN_RUNS that close later are pushed as for a resumed run, from its later events only.
+export class OtlpPusher {
+  private runs = new Map<string, { events: TraceEvent[]; pushed: Set<string> }>();
+  private inflight = new Set<Promise<void>>();
+
+  constructor(private opts: OtlpPushOptions) {}
+
+  push(e: TraceEvent) {
+    const run = this.runs.get(e.runId) ?? { events: [], pushed: new Set<string>() };
+    // re-inserted, so the map stays ordered from least to most recently active
+    this.runs.delete(e.runId);
+    this.runs.set(e.runId, run);
+    if (this.runs.size > MAX_OPEN_RUNS) this.runs.delete(this.runs.keys().next().value!);
+    run.events.push(e);
+    if (!CLOSING.includes(e.type)) return;
+
+    if (e.type === "run.finished") this.runs.delete(e.runId);
+    const spans = buildSpans(run.events).filter((s) => s.endTs !== undefined && !run.pushed.has(s.spanId));
+    if (!spans.length) return;
+    for (const s of spans) run.pushed.add(s.spanId);
+    this.send(otlpRequest(spans, { serviceName: this.opts.serviceName }));
+  }
+
+  // Resolves once every push started so far has completed.
+  async flush() {
+    await Promise.all([...this.inflight]);
+  }
+
+  private send(body: unknown) {
+    const url = this.opts.endpoint.replace(/\/+$/, "").replace(/\/v1\/traces$/, "") + "/v1/traces";
+    const p = fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...this.opts.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 5_000),
+    })
+      .then(async (res) => {
+        await res.body?.cancel();
+      })
+      .catch(() => {})
+      .finally(() => this.inflight.delete(p));
+    this.inflight.add(p);
+  }
+}
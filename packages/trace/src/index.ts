@@ -1,3 +1,7 @@
 export * from "./types.js";
 export * from "./store.js";
 export * from "./query.js";
+export * from "./chain.js";
+export * from "./hash.js";
+export * from "./eventIndex.js";
+export * from "./export.js";
@@ -1,15 +1,36 @@
-import { readFileSync, readdirSync, existsSync } from "node:fs";
+import { readFileSync, readdirSync, existsSync, statSync } from "node:fs";
 import { join } from "node:path";
-import type { TraceEvent, TraceEventType, ArtifactRef } from "./types.js";
+import type { TraceEvent, TraceEventType, ArtifactRef, TraceVerification } from "./types.js";
+import { verifyRunDir } from "./chain.js";
+import { readIndexEntries, readIndexedEvent, rebuildTraceIndex, traceIndexPath, type TraceIndexEntry } from "./eventIndex.js";
 
 export interface TraceFilter {
   runId?: string;
   types?: TraceEventType[];
   chain?: string;
   tool?: string;
+  walletId?: string;
+  // transaction signature / hash
+  tx?: string;
   fromTs?: number;
   toTs?: number;
   limit?: number;
+  // `nextCursor` of the previous page
+  cursor?: string;
+}
+
+export interface TraceFollowOptions {
+  // resume after this event id (SSE Last-Event-ID); events already written after it are delivered first
+  afterId?: string;
+  // without `afterId`, also deliver the matching events already written
+  fromStart?: boolean;
+  pollMs?: number;
+}
+
+export interface TracePage {
+  events: TraceEvent[];
+  // set when `limit` cut the page short
+  nextCursor?: string;
 }
 
 export interface TraceRun {
@@ -46,9 +67,48 @@ export interface AuditReport {
   }>;
 }
 
+const FOLLOW_POLL_MS = 250;
+
+function matches(x: TraceIndexEntry, filter: TraceFilter): boolean {
+  if (filter.runId && x.runId !== filter.runId) return false;
+  if (filter.types && !filter.types.includes(x.type)) return false;
+  if (filter.chain && x.chain !== filter.chain) return false;
+  if (filter.tool && x.tool !== filter.tool) return false;
+  if (filter.walletId && x.walletId !== filter.walletId) return false;
+  if (filter.tx && x.tx !== filter.tx) return false;
+  if (filter.fromTs && x.ts < filter.fromTs) return false;
+  if (filter.toTs && x.ts > filter.toTs) return false;
+  return true;
+}
+
 export class TraceQuery {
+  // index entries read so far; `ino` changes when the index is rebuilt
+  private index?: { ino: number; size: number; entries: TraceIndexEntry[] };
+
   constructor(private baseDir: string) {}
 
+  // The cross-run event index (eventIndex.ts), reading only lines appended since the last call.
+  // Built from the runs on first use when there is none yet.
+  private indexEntries(): TraceIndexEntry[] {
+    const p = traceIndexPath(this.baseDir);
+    if (!existsSync(p)) {
+      if (!this.listRuns().length) return [];
+      rebuildTraceIndex(this.baseDir);
+    }
+    const ino = statSync(p).ino;
+    if (this.index?.ino !== ino) this.index = { ino, size: 0, entries: [] };
+    const { entries, size } = readIndexEntries(p, this.index.size);
+    for (const e of entries) this.index.entries.push(e);
+    this.index.size = size;
+    return this.index.entries;
+  }
+
+  // Re-indexes every run (`w3rt trace reindex`), e.g. for traces written before the index existed.
+  rebuildIndex(): { runs: number; events: number } {
+    this.index = undefined;
+    return rebuildTraceIndex(this.baseDir);
+  }
+
   // List all run IDs
   listRuns(): string[] {
     const runsDir = join(this.baseDir, "runs");
@@ -117,83 +177,114 @@ export class TraceQuery {
     };
   }
 
-  // Query events across all runs with filter
+  // Query events across all runs with filter, in the order they were written
   queryEvents(filter: TraceFilter): TraceEvent[] {
-    const results: TraceEvent[] = [];
-    const runIds = filter.runId ? [filter.runId] : this.listRuns();
-
-    for (const runId of runIds) {
-      const events = this.loadRunEvents(runId);
-
-      for (const e of events) {
-        // Apply filters
-        if (filter.types && !filter.types.includes(e.type)) continue;
-        if (filter.chain && e.chain !== filter.chain) continue;
-        if (filter.tool && e.tool !== filter.tool) continue;
-        if (filter.fromTs && e.ts < filter.fromTs) continue;
-        if (filter.toTs && e.ts > filter.toTs) continue;
+    return this.queryPage(filter).events;
+  }
 
-        results.push(e);
+  // One page of queryEvents; pass `nextCursor` back as `cursor` for the next. Cursors are positions in the
+  // index and do not survive a rebuild.
+  queryPage(filter: TraceFilter): TracePage {
+    const entries = this.indexEntries();
+    const start = filter.cursor !== undefined ? Number(filter.cursor) : 0;
+    if (!Number.isInteger(start) || start < 0) throw new Error(`Invalid cursor: ${filter.cursor}`);
+
+    const events: TraceEvent[] = [];
+    for (let i = start; i < entries.length; i++) {
+      if (!matches(entries[i], filter)) continue;
+      if (filter.limit && events.length >= filter.limit) return { events, nextCursor: String(i) };
+      events.push(readIndexedEvent(this.baseDir, entries[i]));
+    }
+    return { events };
+  }
 
-        if (filter.limit && results.length >= filter.limit) {
-          return results;
+  // Calls `onEvent` for matching events as they are appended to the index, by this or any other process, until
+  // the returned function is called. `fromTs` / `toTs` / `limit` / `cursor` do not apply. An unknown `afterId`
+  // (e.g. an index rebuilt without ids) starts at the current end.
+  follow(filter: TraceFilter, onEvent: (e: TraceEvent) => void, opts: TraceFollowOptions = {}): () => void {
+    const live: TraceFilter = { ...filter, fromTs: undefined, toTs: undefined };
+    let seen = this.indexEntries();
+    const after = (id: string | undefined, entries: TraceIndexEntry[]) => {
+      const i = id ? entries.findIndex((x) => x.id === id) : -1;
+      return i === -1 ? entries.length : i + 1;
+    };
+    let pos = opts.afterId ? after(opts.afterId, seen) : opts.fromStart ? 0 : seen.length;
+    let lastId = pos > 0 ? seen[pos - 1].id : undefined;
+
+    const tick = () => {
+      const entries = this.indexEntries();
+      // the index was (re)built: positions changed, continue after the last event seen
+      if (entries !== seen) {
+        pos = lastId ? after(lastId, entries) : 0;
+        seen = entries;
+      }
+      for (; pos < entries.length; pos++) {
+        const x = entries[pos];
+        lastId = x.id;
+        if (!matches(x, live)) continue;
+        let e: TraceEvent;
+        try {
+          e = readIndexedEvent(this.baseDir, x);
+        } catch {
+          // run removed since it was indexed
+          continue;
         }
+        onEvent(e);
       }
-    }
-
-    return results;
+    };
+    tick();
+    const timer = setInterval(tick, opts.pollMs ?? FOLLOW_POLL_MS);
+    return () => clearInterval(timer);
   }
 
   // Generate audit report for date range
   generateAuditReport(fromTs: number, toTs: number): AuditReport {
-    const runIds = this.listRuns();
+    const byRun = new Map<string, TraceIndexEntry[]>();
+    for (const x of this.indexEntries()) {
+      const list = byRun.get(x.runId);
+      if (list) list.push(x);
+      else byRun.set(x.runId, [x]);
+    }
+
     const runs: AuditReport["runs"] = [];
     const chains = new Set<string>();
     let totalTransactions = 0;
 
-    for (const runId of runIds) {
-      const events = this.loadRunEvents(runId);
-      if (events.length === 0) continue;
-
-      const startEvent = events.find((e) => e.type === "run.started");
-      const finishEvent = events.find((e) => e.type === "run.finished");
-      const startTs = startEvent?.ts ?? events[0]?.ts ?? 0;
+    for (const runId of [...byRun.keys()].sort().reverse()) {
+      const entries = byRun.get(runId)!;
+      const startEntry = entries.find((x) => x.type === "run.started");
+      const finishEntry = entries.find((x) => x.type === "run.finished");
+      const startTs = startEntry?.ts ?? entries[0].ts;
 
       // Filter by date range
       if (startTs < fromTs || startTs > toTs) continue;
 
       // Extract transactions
       const transactions: AuditReport["runs"][0]["transactions"] = [];
+      const confirmed = new Set(entries.filter((x) => x.type === "tx.confirmed" && x.tx).map((x) => x.tx));
 
-      const submittedEvents = events.filter((e) => e.type === "tx.submitted");
-      const confirmedEvents = events.filter((e) => e.type === "tx.confirmed");
-
-      for (const sub of submittedEvents) {
-        const txHash = (sub.data as any)?.signature || (sub.data as any)?.txHash;
+      for (const sub of entries.filter((x) => x.type === "tx.submitted")) {
         const chain = sub.chain;
-        const action = sub.data?.action as string | undefined;
+        const action = readIndexedEvent(this.baseDir, sub).data?.action as string | undefined;
 
         if (chain) chains.add(chain);
 
-        const confirmed = confirmedEvents.find(
-          (c) => (c.data as any)?.signature === txHash || (c.data as any)?.txHash === txHash
-        );
-
         transactions.push({
-          txHash,
+          txHash: sub.tx,
           chain,
           action,
-          status: confirmed ? "confirmed" : "submitted",
+          status: sub.tx && confirmed.has(sub.tx) ? "confirmed" : "submitted",
         });
 
         totalTransactions++;
       }
 
+      const finished = finishEntry ? readIndexedEvent(this.baseDir, finishEntry) : undefined;
       runs.push({
         runId,
         startedAt: startTs,
-        finishedAt: finishEvent?.ts,
-        ok: (finishEvent?.data as any)?.ok ?? false,
+        finishedAt: finishEntry?.ts,
+        ok: (finished?.data as any)?.ok ?? false,
         transactions,
       });
     }
@@ -215,6 +306,11 @@ export class TraceQuery {
     };
   }
 
+  // Check a run's hash chain and sealed artifacts (see chain.ts)
+  verifyRun(runId: string): TraceVerification {
+    return verifyRunDir(join(this.baseDir, "runs", runId), runId);
+  }
+
   // Load artifact content
   loadArtifact(runId: string, name: string): any {
     const path = join(this.baseDir, "runs", runId, "artifacts", `${name}.json`);
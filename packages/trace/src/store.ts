@@ -1,10 +1,28 @@
-import { mkdirSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import crypto from "node:crypto";
-import type { TraceEvent, ArtifactRef } from "./types.js";
+import type { TraceEvent, ArtifactRef, RunManifest } from "./types.js";
+import { GENESIS_HASH, eventHash, hashArtifacts, manifestDigest } from "./chain.js";
+import { appendIndexEntry, indexEntry } from "./eventIndex.js";
+import { OtlpPusher, otlpPushFromEnv, type OtlpPushOptions } from "./export.js";
+
+type ChainHead = { size: number; seq: number; hash: string };
+
+export interface TraceStoreOptions {
+  // live OTLP/HTTP push of spans as they close; defaults to W3RT_OTLP_ENDPOINT (see export.ts)
+  otlp?: OtlpPushOptions;
+}
 
 export class TraceStore {
-  constructor(private baseDir: string) {}
+  // last event per run; reread when trace.jsonl changed size (another store appended to the same run)
+  private heads = new Map<string, ChainHead>();
+
+  private otlp?: OtlpPusher;
+
+  constructor(private baseDir: string, opts: TraceStoreOptions = {}) {
+    const otlp = opts.otlp ?? otlpPushFromEnv();
+    if (otlp) this.otlp = new OtlpPusher(otlp);
+  }
 
   runDir(runId: string) {
     return join(this.baseDir, "runs", runId);
@@ -27,11 +45,56 @@ export class TraceStore {
     return { runId, name, path, sha256, bytes: Buffer.byteLength(data) };
   }
 
+  // Appends the event to the run's hash chain and the cross-run index; `run.finished` also seals the run (manifest.json).
   emit(e: Omit<TraceEvent, "id">): TraceEvent {
-    const full: TraceEvent = { ...e, id: crypto.randomUUID() };
-    const p = join(this.baseDir, "runs", full.runId, "trace.jsonl");
+    const p = join(this.baseDir, "runs", e.runId, "trace.jsonl");
     mkdirSync(dirname(p), { recursive: true });
-    writeFileSync(p, JSON.stringify(full) + "\n", { flag: "a" });
-    return full;
+    const head = this.head(e.runId, p);
+
+    const full: TraceEvent = { ...e, id: crypto.randomUUID(), seq: head.seq + 1, prevHash: head.hash };
+    const artifacts = e.type === "run.finished" ? hashArtifacts(this.artifactsDir(e.runId)) : undefined;
+    if (artifacts) full.manifestSha256 = manifestDigest(artifacts);
+
+    // hashed as it will be read back, so values with toJSON (Buffers, Dates) verify
+    const written: TraceEvent = JSON.parse(JSON.stringify(full));
+    written.hash = eventHash(written);
+    const line = JSON.stringify(written) + "\n";
+    writeFileSync(p, line, { flag: "a" });
+    this.heads.set(e.runId, { size: statSync(p).size, seq: written.seq!, hash: written.hash });
+    appendIndexEntry(this.baseDir, indexEntry(written, head.size, Buffer.byteLength(line)));
+
+    if (artifacts) {
+      const manifest: RunManifest = {
+        version: 1,
+        runId: e.runId,
+        sealedAt: Date.now(),
+        events: written.seq! + 1,
+        lastHash: written.hash,
+        artifacts,
+      };
+      writeFileSync(join(this.runDir(e.runId), "manifest.json"), JSON.stringify(manifest, null, 2));
+    }
+    this.otlp?.push(written);
+    return written;
+  }
+
+  // Waits for pending OTLP pushes, e.g. before the process exits.
+  async flush() {
+    await this.otlp?.flush();
+  }
+
+  private head(runId: string, tracePath: string): ChainHead {
+    const size = existsSync(tracePath) ? statSync(tracePath).size : 0;
+    const cached = this.heads.get(runId);
+    if (cached && cached.size === size) return cached;
+    if (size === 0) return { size, seq: -1, hash: GENESIS_HASH };
+
+    const lines = readFileSync(tracePath, "utf-8").split("\n").filter(Boolean);
+    const last: TraceEvent = JSON.parse(lines[lines.length - 1]);
+    return {
+      size,
+      seq: typeof last.seq === "number" ? last.seq : lines.length - 1,
+      hash: last.hash ?? eventHash(last),
+    };
   }
 }
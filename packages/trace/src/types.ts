@@ -1,12 +1,21 @@
 export type TraceEventType =
   | "run.started"
   | "run.finished"
+  | "run.resumed"
+  | "run.timeout"
   | "step.started"
   | "step.finished"
+  | "step.rollback"
   | "tool.called"
   | "tool.result"
   | "tool.error"
+  | "tool.retry"
+  | "workflow.called"
+  | "workflow.result"
   | "policy.decision"
+  | "approval.requested"
+  | "approval.decided"
+  | "approval.expired"
   | "tx.built"
   | "tx.simulated"
   | "tx.submitted"
@@ -24,6 +33,47 @@ export interface TraceEvent {
   tool?: string;
   data?: Record<string, unknown>;
   artifactRefs?: ArtifactRef[];
+  // Hash chain (see chain.ts): position in the run's trace, the previous event's hash and this event's
+  // sha256 over its canonical JSON without `hash`.
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+  // on `run.finished`: sha256 of the sealed manifest's artifact list
+  manifestSha256?: string;
+}
+
+// runs/<runId>/manifest.json, written when `run.finished` is emitted.
+export interface RunManifest {
+  version: 1;
+  runId: string;
+  sealedAt: number;
+  // events covered, i.e. the sealing event's seq + 1
+  events: number;
+  // hash of the sealing `run.finished` event
+  lastHash: string;
+  artifacts: Array<{ name: string; sha256: string; bytes: number }>;
+}
+
+export type TraceVerifyErrorKind =
+  | "not_found"
+  | "unreadable"
+  | "missing_hash"
+  | "broken_link"
+  | "hash_mismatch"
+  | "manifest_missing"
+  | "manifest_mismatch"
+  | "artifact_missing"
+  | "artifact_mismatch"
+  | "artifact_unsealed";
+
+export interface TraceVerification {
+  runId: string;
+  ok: boolean;
+  events: number;
+  // whether a `run.finished` sealed the run (artifacts are only checked then)
+  sealed: boolean;
+  // the first problem found
+  error?: { kind: TraceVerifyErrorKind; message: string; line?: number; artifact?: string };
 }
 
 export interface ArtifactRef {
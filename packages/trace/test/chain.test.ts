@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { TraceQuery, TraceStore } from "../src/index.js";
+
+function sealedRun() {
+  const dir = mkdtempSync(join(tmpdir(), "w3rt-trace-"));
+  const store = new TraceStore(dir);
+  store.emit({ ts: 1, type: "run.started", runId: "r1", data: { workflow: "w" } });
+  const ref = store.writeArtifact("r1", "quote_q", { outAmount: "100" });
+  store.emit({ ts: 2, type: "tool.result", runId: "r1", stepId: "q", tool: "quote", data: { result: { outAmount: "100" } }, artifactRefs: [ref] });
+  store.emit({ ts: 3, type: "policy.decision", runId: "r1", data: { decision: "allow" } });
+  store.emit({ ts: 4, type: "run.finished", runId: "r1", data: { ok: true } });
+  return { dir, tracePath: join(dir, "runs", "r1", "trace.jsonl"), query: new TraceQuery(dir) };
+}
+
+function editLine(path: string, index: number, edit: (e: any) => any) {
+  const lines = readFileSync(path, "utf-8").split("\n").filter(Boolean);
+  lines[index] = JSON.stringify(edit(JSON.parse(lines[index])));
+  writeFileSync(path, lines.join("\n") + "\n");
+}
+
+describe("hash-chained traces", () => {
+  test("a sealed run verifies, and appending from another store continues the chain", () => {
+    const { dir, query } = sealedRun();
+    expect(query.verifyRun("r1")).toEqual({ runId: "r1", ok: true, events: 4, sealed: true });
+
+    const manifest = JSON.parse(readFileSync(join(dir, "runs", "r1", "manifest.json"), "utf-8"));
+    expect(manifest.artifacts.map((a: any) => a.name)).toEqual(["quote_q.json"]);
+
+    new TraceStore(dir).emit({ ts: 5, type: "run.resumed", runId: "r1" });
+    expect(query.verifyRun("r1")).toMatchObject({ ok: true, events: 5, sealed: true });
+  });
+
+  test("reports an edited event", () => {
+    const { tracePath, query } = sealedRun();
+    editLine(tracePath, 2, (e) => ({ ...e, data: { decision: "block" } }));
+    expect(query.verifyRun("r1").error).toMatchObject({ kind: "hash_mismatch", line: 3 });
+  });
+
+  test("reports a removed event", () => {
+    const { tracePath, query } = sealedRun();
+    const lines = readFileSync(tracePath, "utf-8").split("\n").filter(Boolean);
+    writeFileSync(tracePath, [lines[0], ...lines.slice(2)].join("\n") + "\n");
+    expect(query.verifyRun("r1").error).toMatchObject({ kind: "broken_link", line: 2 });
+  });
+
+  test("reports a changed or added artifact", () => {
+    const { dir, query } = sealedRun();
+    const artifacts = join(dir, "runs", "r1", "artifacts");
+    writeFileSync(join(artifacts, "quote_q.json"), JSON.stringify({ outAmount: "999" }));
+    expect(query.verifyRun("r1").error).toMatchObject({ kind: "artifact_mismatch", artifact: "quote_q.json" });
+
+    const fresh = sealedRun();
+    writeFileSync(join(fresh.dir, "runs", "r1", "artifacts", "extra.json"), "{}");
+    expect(fresh.query.verifyRun("r1").error).toMatchObject({ kind: "artifact_unsealed", artifact: "extra.json" });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { TraceQuery, TraceStore, traceIndexPath } from "../src/index.js";
+
+function tradingRuns() {
+  const dir = mkdtempSync(join(tmpdir(), "w3rt-trace-"));
+  const store = new TraceStore(dir);
+  for (const [i, runId] of ["r1", "r2", "r3"].entries()) {
+    const ts = (i + 1) * 100;
+    const walletId = runId === "r2" ? "hot" : "main";
+    store.emit({ ts, type: "run.started", runId, data: { workflow: "swap" } });
+    store.emit({ ts: ts + 1, type: "tx.submitted", runId, chain: "solana", walletId, data: { signature: `sig-${runId}`, action: "swap" } });
+    store.emit({ ts: ts + 2, type: "tx.confirmed", runId, chain: "solana", walletId, data: { signature: `sig-${runId}` } });
+    store.emit({ ts: ts + 3, type: "run.finished", runId, data: { ok: runId !== "r3" } });
+  }
+  return dir;
+}
+
+describe("trace event index", () => {
+  test("filters by wallet, type and tx signature", () => {
+    const query = new TraceQuery(tradingRuns());
+
+    expect(query.queryEvents({ walletId: "hot" }).map((e) => e.type)).toEqual(["tx.submitted", "tx.confirmed"]);
+    expect(query.queryEvents({ tx: "sig-r3", types: ["tx.confirmed"] })).toMatchObject([{ runId: "r3", ts: 302 }]);
+    expect(query.queryEvents({ chain: "solana", fromTs: 150, toTs: 250 }).map((e) => e.runId)).toEqual(["r2", "r2"]);
+  });
+
+  test("pages through results with a cursor", () => {
+    const query = new TraceQuery(tradingRuns());
+
+    const first = query.queryPage({ types: ["tx.submitted"], limit: 2 });
+    expect(first.events.map((e) => e.runId)).toEqual(["r1", "r2"]);
+    const second = query.queryPage({ types: ["tx.submitted"], limit: 2, cursor: first.nextCursor });
+    expect(second.events.map((e) => e.runId)).toEqual(["r3"]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  test("picks up events appended by another store", () => {
+    const dir = tradingRuns();
+    const query = new TraceQuery(dir);
+    expect(query.queryEvents({ runId: "r4" })).toEqual([]);
+
+    new TraceStore(dir).emit({ ts: 400, type: "run.started", runId: "r4" });
+    expect(query.queryEvents({ runId: "r4" })).toMatchObject([{ type: "run.started" }]);
+  });
+
+  test("rebuilds a missing index and reports from it", () => {
+    const dir = tradingRuns();
+    rmSync(traceIndexPath(dir));
+
+    const query = new TraceQuery(dir);
+    const report = query.generateAuditReport(0, 250);
+    expect(existsSync(traceIndexPath(dir))).toBe(true);
+    expect(report.summary).toMatchObject({ totalRuns: 2, successfulRuns: 2, totalTransactions: 2, chains: ["solana"] });
+    expect(report.runs[0].transactions).toEqual([{ txHash: "sig-r2", chain: "solana", action: "swap", status: "confirmed" }]);
+
+    expect(query.rebuildIndex()).toEqual({ runs: 3, events: 12 });
+  });
+
+  test("follows new events and resumes after an event id", async () => {
+    const dir = tradingRuns();
+    const query = new TraceQuery(dir);
+    const store = new TraceStore(dir);
+    const seen: string[] = [];
+
+    const stop = query.follow({ types: ["tx.submitted"] }, (e) => seen.push(e.runId), { pollMs: 10 });
+    store.emit({ ts: 400, type: "run.started", runId: "r4" });
+    store.emit({ ts: 401, type: "tx.submitted", runId: "r4", chain: "solana", data: { signature: "sig-r4" } });
+    await Bun.sleep(50);
+    stop();
+    expect(seen).toEqual(["r4"]);
+
+    // as a reconnecting SSE client with Last-Event-ID would
+    const [r2Tx] = query.queryEvents({ runId: "r2", types: ["tx.submitted"] });
+    const resumed: string[] = [];
+    query.follow({ types: ["tx.submitted"] }, (e) => resumed.push(e.runId), { afterId: r2Tx.id })();
+    expect(resumed).toEqual(["r3", "r4"]);
+
+    const run: string[] = [];
+    query.follow({ runId: "r1" }, (e) => run.push(e.type), { fromStart: true })();
+    expect(run).toEqual(["run.started", "tx.submitted", "tx.confirmed", "run.finished"]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { OtlpPusher, TraceQuery, TraceStore, buildSpans, toChromeTrace, toOtlpJson, type TraceStoreOptions } from "../src/index.js";
+
+function swapRun(opts?: TraceStoreOptions) {
+  const dir = mkdtempSync(join(tmpdir(), "w3rt-trace-"));
+  const store = new TraceStore(dir, opts);
+  store.emit({ ts: 1000, type: "run.started", runId: "r1", data: { workflow: "swap" } });
+  store.emit({ ts: 1001, type: "step.started", runId: "r1", stepId: "execute" });
+  store.emit({ ts: 1002, type: "tool.called", runId: "r1", stepId: "execute", tool: "quote" });
+  store.emit({ ts: 1010, type: "tool.result", runId: "r1", stepId: "execute", tool: "quote" });
+  store.emit({ ts: 1011, type: "tool.called", runId: "r1", stepId: "execute", tool: "send_tx" });
+  store.emit({ ts: 1012, type: "policy.decision", runId: "r1", stepId: "execute", tool: "send_tx", data: { decision: "allow" } });
+  store.emit({ ts: 1015, type: "tool.error", runId: "r1", stepId: "execute", tool: "send_tx", data: { error: "blockhash expired" } });
+  store.emit({ ts: 1016, type: "tx.submitted", runId: "r1", stepId: "execute", chain: "solana", data: { signature: "sig1" } });
+  store.emit({ ts: 1020, type: "step.finished", runId: "r1", stepId: "execute" });
+  store.emit({ ts: 1021, type: "run.finished", runId: "r1", data: { ok: false, error: "blockhash expired" } });
+  return { store, events: new TraceQuery(dir).loadRunEvents("r1") };
+}
+
+describe("trace export", () => {
+  test("nests tool spans under stages under the run, with other events as span events", () => {
+    const [run, stage, quote, send] = buildSpans(swapRun().events);
+
+    expect(run).toMatchObject({ kind: "run", name: "run swap", startTs: 1000, endTs: 1021, ok: false, error: "blockhash expired" });
+    expect(stage).toMatchObject({ kind: "step", parentSpanId: run.spanId, startTs: 1001, endTs: 1020 });
+    expect(quote).toMatchObject({ kind: "tool", name: "tool quote", parentSpanId: stage.spanId, ok: true });
+    expect(send).toMatchObject({ kind: "tool", parentSpanId: stage.spanId, ok: false, error: "blockhash expired" });
+    expect(send.events).toEqual([{ ts: 1012, name: "policy.decision", attributes: { "w3rt.tool": "send_tx", "w3rt.decision": "allow" } }]);
+    expect(stage.events).toEqual([{ ts: 1016, name: "tx.submitted", attributes: { "w3rt.chain": "solana", "w3rt.signature": "sig1" } }]);
+  });
+
+  test("renders OTLP JSON and Chrome trace format", () => {
+    const { events } = swapRun();
+
+    const otlp = toOtlpJson(events);
+    const spans = otlp.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans).toHaveLength(4);
+    expect(spans[0]).toMatchObject({ startTimeUnixNano: "1000000000", endTimeUnixNano: "1021000000", status: { code: 2 } });
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+    // ids only depend on the run, so re-exports line up
+    expect(toOtlpJson(events)).toEqual(otlp);
+
+    const chrome = toChromeTrace(events).traceEvents;
+    expect(chrome.find((e) => e.name === "tool quote")).toMatchObject({ ph: "X", ts: 1_002_000, dur: 8_000, pid: 1, tid: 1 });
+    expect(chrome.find((e) => e.name === "tx.submitted")).toMatchObject({ ph: "i", tid: 1 });
+  });
+
+  test("pushes spans to an OTLP/HTTP collector as they close", async () => {
+    const bodies: any[] = [];
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        bodies.push({ url: req.url, body: JSON.parse(body) });
+        res.end("{}");
+      });
+    });
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const { store } = swapRun({ otlp: { endpoint: `http://127.0.0.1:${port}`, serviceName: "trader" } });
+      await store.flush();
+
+      expect(bodies.every((b) => b.url === "/v1/traces")).toBe(true);
+      expect(bodies[0].body.resourceSpans[0].resource.attributes).toEqual([{ key: "service.name", value: { stringValue: "trader" } }]);
+      const names = bodies.flatMap((b) => b.body.resourceSpans[0].scopeSpans[0].spans.map((s: any) => s.name));
+      expect(names).toEqual(["tool quote", "tool send_tx", "stage execute", "run swap"]);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("drops a push the collector does not answer in time", async () => {
+    // accepts the request and never answers it
+    const server = createServer(() => {});
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const { store } = swapRun({ otlp: { endpoint: `http://127.0.0.1:${port}`, timeoutMs: 50 } });
+      await store.flush();
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  test("forgets the least recently active run past 100 open runs", async () => {
+    const names: string[] = [];
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        names.push(...JSON.parse(body).resourceSpans[0].scopeSpans[0].spans.map((s: any) => s.name));
+        res.end("{}");
+      });
+    });
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const pusher = new OtlpPusher({ endpoint: `http://127.0.0.1:${port}` });
+      pusher.push({ ts: 1000, type: "run.started", runId: "active" });
+      pusher.push({ ts: 1001, type: "run.started", runId: "old" });
+      pusher.push({ ts: 1002, type: "step.started", runId: "old", stepId: "a" });
+      pusher.push({ ts: 1003, type: "step.started", runId: "active", stepId: "b" });
+      for (let i = 0; i < 99; i++) pusher.push({ ts: 1004, type: "run.started", runId: `r${i}` });
+      // "old" was dropped when the 101st run started; "active" started first but emitted since
+      pusher.push({ ts: 1005, type: "step.finished", runId: "active", stepId: "b" });
+      pusher.push({ ts: 1006, type: "step.finished", runId: "old", stepId: "a" });
+      await pusher.flush();
+
+      expect(names).toEqual(["stage b"]);
+    } finally {
+      server.close();
+    }
+  });
+});
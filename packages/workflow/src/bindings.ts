@@ -0,0 +1,84 @@
+import type { WorkflowAction } from "./types.js";
+import { subWorkflowKey } from "./library.js";
+import { getByPath } from "./expression.js";
+
+// Where action results land in the run context.
+//
+// Always:            ctx[actionResultKey(action)]
+// With `id`:         ctx.steps[id] = { result, outputs }
+// With `as`:         ctx[as] = result
+// With `outputs`:    ctx[name] = value at the given path of the result (also under steps[id].outputs)
+// Legacy aliases:    ctx.quote / built / simulation / submitted, picked by substring of the tool name, and
+//                    ctx.opportunity / prices, picked by the shape of the result. On unless
+//                    `config.legacyAliases: false`.
+
+type Dict = Record<string, any>;
+
+export const LEGACY_ALIAS_KEYS = ["quote", "built", "simulation", "submitted", "opportunity", "prices"] as const;
+
+// Identifiers usable as `id`, `as` and output names, so they can be referenced as template/expression paths.
+export const BINDING_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Context key for an action's result: the tool name without common prefixes, e.g. "quote" for solana_jupiter_quote.
+export function toolResultKey(tool: string): string {
+  return tool
+    .replace(/^solana_/, "")
+    .replace(/^jupiter_/, "")
+    .replace(/_tx$/, "");
+}
+
+// Context key an action's result always lands under: toolResultKey for tools, subWorkflowKey for `use`.
+export function actionResultKey(action: WorkflowAction): string {
+  return action.use !== undefined ? subWorkflowKey(action.use) : toolResultKey(action.tool!);
+}
+
+// Legacy aliases a tool's result is bound to, judged by its name alone (the shape-based ones depend on the result).
+export function legacyToolAliases(tool: string): string[] {
+  const out: string[] = [];
+  if (tool.includes("quote")) out.push("quote");
+  if (tool.includes("build")) out.push("built");
+  if (tool.includes("simulate")) out.push("simulation");
+  if (tool.includes("send")) out.push("submitted");
+  return out;
+}
+
+// Binds `id`, `as` and `outputs`. Runners with their own result conventions call this directly.
+export function bindExplicitOutputs(action: WorkflowAction, ctx: Dict, result: any) {
+  const outputs: Dict = {};
+  for (const [name, path] of Object.entries(action.outputs ?? {})) {
+    outputs[name] = getByPath(result, path);
+    ctx[name] = outputs[name];
+  }
+  if (action.as) ctx[action.as] = result;
+  if (action.id) {
+    if (!ctx.steps || typeof ctx.steps !== "object") ctx.steps = {};
+    ctx.steps[action.id] = action.outputs ? { result, outputs } : { result };
+  }
+}
+
+export function bindActionResult(action: WorkflowAction, ctx: Dict, result: any, opts: { legacyAliases: boolean }) {
+  ctx[actionResultKey(action)] = result;
+
+  // sub-workflow results are only bound by name
+  if (opts.legacyAliases && action.tool) {
+    for (const key of legacyToolAliases(action.tool)) ctx[key] = result;
+    // e.g. calculate_opportunity returning { ok, profit, ... }
+    if (result && typeof result === "object") {
+      if ("profit" in result) ctx.opportunity = result;
+      if ("prices" in result) ctx.prices = result;
+    }
+  }
+
+  // explicit bindings win over aliases on the same key
+  bindExplicitOutputs(action, ctx, result);
+}
+
+// Context paths referenced by `{{ ... }}` templates anywhere in a params value.
+export function templateReferences(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [...value.matchAll(/\{\{\s*([^}]+)\s*\}\}/g)].map((m) => m[1].trim());
+  }
+  if (Array.isArray(value)) return value.flatMap(templateReferences);
+  if (value && typeof value === "object") return Object.values(value).flatMap(templateReferences);
+  return [];
+}
@@ -0,0 +1,130 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week"), evaluated in UTC.
+// Fields accept `*`, numbers, ranges `a-b`, steps `*/n` / `a-b/n`, and comma lists.
+// Day-of-week is 0-6 (Sunday = 0; 7 is also accepted as Sunday). As in classic cron, when both
+// day-of-month and day-of-week are restricted, a day matches if either field does.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+];
+
+function parseField(src: string, field: { name: string; min: number; max: number }): Set<number> {
+  const out = new Set<number>();
+  const num = (s: string) => {
+    if (!/^\d+$/.test(s)) throw new Error(`invalid ${field.name} value '${s}'`);
+    const n = Number(s);
+    if (n < field.min || n > field.max) throw new Error(`${field.name} value ${n} out of range ${field.min}-${field.max}`);
+    return n;
+  };
+
+  for (const part of src.split(",")) {
+    const [range, stepSrc, extra] = part.split("/");
+    if (extra !== undefined || !range) throw new Error(`invalid ${field.name} field '${src}'`);
+    const step = stepSrc === undefined ? 1 : Number(stepSrc);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`invalid ${field.name} step '${stepSrc}'`);
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      lo = field.min;
+      hi = field.max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      lo = num(a);
+      hi = num(b);
+      if (lo > hi) throw new Error(`invalid ${field.name} range '${range}'`);
+    } else {
+      lo = num(range);
+      hi = stepSrc === undefined ? lo : field.max;
+    }
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+// Throws with a readable message for malformed expressions.
+export function parseCron(expression: string): CronSchedule {
+  const src = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = src.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5) throw new Error(`cron expression must have 5 fields, got ${parts.length}: '${expression}'`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*",
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const dom = s.daysOfMonth.has(d.getUTCDate());
+  const dow = s.daysOfWeek.has(d.getUTCDay());
+  if (s.domRestricted && s.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+// Search horizon for nextCronTime; expressions such as "0 0 30 2 *" never match.
+const MAX_SEARCH_YEARS = 5;
+
+// First matching minute strictly after `afterMs`, or null if none within the search horizon.
+export function nextCronTime(schedule: CronSchedule | string, afterMs: number): number | null {
+  const s = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const d = new Date(afterMs);
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+  const limit = afterMs + MAX_SEARCH_YEARS * 366 * 86_400_000;
+
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!s.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1);
+      continue;
+    }
+    return d.getTime();
+  }
+  return null;
+}
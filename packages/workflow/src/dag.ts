@@ -0,0 +1,36 @@
+import type { WorkflowStage } from "./types.js";
+
+// Stage dependency graph. A stage with `dependsOn` waits for exactly those stages (an empty list means it can
+// start right away); a stage without it waits for the stage listed before it, so plain workflows stay sequential.
+
+// Indexes of the stages each stage waits for. Throws on unknown stage names.
+export function stageDependencies(stages: WorkflowStage[]): number[][] {
+  const index = new Map(stages.map((s, i) => [s.name, i] as const));
+  return stages.map((s, i) => {
+    if (!s.dependsOn) return i > 0 ? [i - 1] : [];
+    return s.dependsOn.map((name) => {
+      const d = index.get(name);
+      if (d === undefined) throw new Error(`Stage '${s.name}' depends on unknown stage '${name}'`);
+      return d;
+    });
+  });
+}
+
+// Stages in an order that satisfies every dependency, keeping declared order where the graph allows it.
+// Throws if the dependencies form a cycle.
+export function stageOrder(stages: WorkflowStage[]): WorkflowStage[] {
+  const deps = stageDependencies(stages);
+  const done = new Set<number>();
+  const order: WorkflowStage[] = [];
+
+  while (order.length < stages.length) {
+    const next = stages.findIndex((_, i) => !done.has(i) && deps[i].every((d) => done.has(d)));
+    if (next < 0) {
+      const stuck = stages.filter((_, i) => !done.has(i)).map((s) => s.name);
+      throw new Error(`Stage dependencies form a cycle: ${stuck.join(", ")}`);
+    }
+    done.add(next);
+    order.push(stages[next]);
+  }
+  return order;
+}
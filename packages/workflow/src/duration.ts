@@ -0,0 +1,11 @@
+// Durations in workflow files: "500ms", "30s", "5m", "2h", or a bare number of seconds.
+export function parseDuration(value: string | number): number {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) throw new Error(`invalid duration: ${value}`);
+    return value * 1000;
+  }
+  const m = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/);
+  if (!m) throw new Error(`invalid duration '${value}' (use e.g. 30s, 5m, 2h)`);
+  const unit = { ms: 1, s: 1_000, m: 60_000, h: 3_600_000 }[(m[2] ?? "s") as "ms" | "s" | "m" | "h"];
+  return Math.round(Number(m[1]) * unit);
+}
@@ -1,4 +1,11 @@
 import type { Workflow, WorkflowStage, WorkflowAction } from "./types.js";
+import { parseDuration } from "./duration.js";
+import { evaluateExpression, getByPath } from "./expression.js";
+import { stageDependencies } from "./dag.js";
+import { actionResultKey, bindActionResult } from "./bindings.js";
+import { resolveInputs } from "./inputs.js";
+import { foreachItems, iterationStepId, pollDone, pollExhaustedError, pollSettings } from "./loops.js";
+import { workflowOutputs } from "./library.js";
 
 export type Dict = Record<string, any>;
 
@@ -15,12 +22,45 @@ export interface ToolDefinition {
 
 export interface WorkflowEngineConfig {
   tools: Map<string, ToolDefinition>;
+  // workflows `use` actions can run, keyed by the `use` value (ParseResult.workflows)
+  workflows?: Record<string, Workflow>;
   onStageStart?: (stage: WorkflowStage, ctx: Dict) => Promise<void>;
   onStageEnd?: (stage: WorkflowStage, ctx: Dict, error?: Error) => Promise<void>;
-  onActionStart?: (action: WorkflowAction, tool: ToolDefinition, params: Dict, ctx: Dict) => Promise<void>;
-  onActionEnd?: (action: WorkflowAction, tool: ToolDefinition, result: any, ctx: Dict) => Promise<void>;
+  // Action hooks get the stage last; with parallel stages several stages can be running at once.
+  // Inside a loop that stage's name is the iteration's step id, e.g. "poll[2]" (see loops.ts).
+  onActionStart?: (action: WorkflowAction, tool: ToolDefinition, params: Dict, ctx: Dict, stage: WorkflowStage) => Promise<void>;
+  onActionEnd?: (action: WorkflowAction, tool: ToolDefinition, result: any, ctx: Dict, stage: WorkflowStage) => Promise<void>;
   onApprovalRequired?: (stage: WorkflowStage, ctx: Dict) => Promise<boolean>;
-  onPolicyCheck?: (tool: ToolDefinition, params: Dict, ctx: Dict) => Promise<{ allowed: boolean; reason?: string }>;
+  // `approval.timeout` for approval stages that set none, e.g. so an unattended run cannot wait forever
+  approvalTimeout?: string;
+  // Gets the action and stage last too, so an allowed broadcast can be matched to its onActionEnd.
+  onPolicyCheck?: (
+    tool: ToolDefinition,
+    params: Dict,
+    ctx: Dict,
+    action: WorkflowAction,
+    stage: WorkflowStage
+  ) => Promise<{ allowed: boolean; reason?: string }>;
+  // Called before a failed action is retried; `attempt` counts retries from 1.
+  onActionRetry?: (
+    action: WorkflowAction,
+    tool: ToolDefinition,
+    attempt: number,
+    error: Error,
+    ctx: Dict,
+    stage: WorkflowStage
+  ) => Promise<void>;
+  // Called when the run or a stage exceeds its timeout, before rollback.
+  onTimeout?: (error: WorkflowTimeoutError, ctx: Dict) => Promise<void>;
+  // Called after a stage's rollback actions ran; `error` is set if one of them failed.
+  onRollback?: (stage: WorkflowStage, ctx: Dict, error?: Error) => Promise<void>;
+  // Called around each iteration of a foreach or until/while stage; `index` counts from 0.
+  onIterationStart?: (stage: WorkflowStage, index: number, ctx: Dict) => Promise<void>;
+  onIterationEnd?: (stage: WorkflowStage, index: number, ctx: Dict, error?: Error) => Promise<void>;
+  // Called around a `use` action. `runId` is the sub-run's id; its stages and actions go through the hooks above
+  // with the sub-run's context, whose `__parentRunId` / `__parentStepId` point back at the calling step.
+  onSubWorkflowStart?: (action: WorkflowAction, workflow: Workflow, runId: string, inputs: Dict, ctx: Dict, stage: WorkflowStage) => Promise<void>;
+  onSubWorkflowEnd?: (action: WorkflowAction, workflow: Workflow, result: RunResult, ctx: Dict, stage: WorkflowStage) => Promise<void>;
 }
 
 export interface RunResult {
@@ -28,17 +68,97 @@ export interface RunResult {
   runId: string;
   error?: string;
   context: Dict;
+  timedOut?: boolean;
+  // stages whose rollback actions completed, in the order they ran
+  rolledBack?: string[];
+  rollbackErrors?: string[];
 }
 
-// Get value by dot-path from object
-function getByPath(obj: any, path: string): any {
-  const parts = path.split(".").filter(Boolean);
-  let cur = obj;
-  for (const p of parts) {
-    if (cur == null) return undefined;
-    cur = cur[p];
+// scope "approval": an approval stage's `approval.timeout` passed without a decision.
+export class WorkflowTimeoutError extends Error {
+  scope: "run" | "stage" | "approval";
+  timeoutMs: number;
+  stage?: string;
+
+  constructor(scope: "run" | "stage" | "approval", timeoutMs: number, stage?: string) {
+    super(
+      scope === "run"
+        ? `Workflow timed out after ${timeoutMs}ms`
+        : scope === "stage"
+          ? `Stage '${stage}' timed out after ${timeoutMs}ms`
+          : `Approval for stage '${stage}' expired after ${timeoutMs}ms`
+    );
+    this.name = "WorkflowTimeoutError";
+    this.scope = scope;
+    this.timeoutMs = timeoutMs;
+    this.stage = stage;
   }
-  return cur;
+}
+
+// Per-run settings derived from Workflow.config. The controller is aborted when the run fails or times out;
+// tools can observe it through `ctx.__signal`. `broadcasts` holds the sends in flight, shared with sub-runs.
+type RunState = {
+  controller: AbortController;
+  legacyAliases: boolean;
+  maxRetries: number;
+  backoffMs: number;
+  broadcasts: Set<Promise<unknown>>;
+};
+
+const DEFAULT_RETRY_BACKOFF_MS = 500;
+const MAX_RETRY_BACKOFF_MS = 30_000;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Rejects with a WorkflowTimeoutError (and aborts the run) if `p` does not settle within `ms`. A broadcast already
+// being sent is not abandoned: the rejection waits until it and its onActionEnd have finished, so a send that
+// landed is recorded before onTimeout and rollback run.
+async function withTimeout<T>(p: Promise<T>, ms: number | undefined, run: RunState, err: () => WorkflowTimeoutError): Promise<T> {
+  if (ms === undefined) return p;
+  // the abandoned promise may still reject later
+  p.catch(() => {});
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const e = err();
+      run.controller.abort(e);
+      Promise.allSettled(run.broadcasts).then(() => reject(e));
+    }, ms);
+  });
+  try {
+    return await Promise.race([p, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function newRunId(): string {
+  return `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Context keys a sub-run inherits from its caller: host-provided `__` settings, but not the run's own bookkeeping.
+const RUN_OWN_KEYS = ["__runId", "__workflow", "__signal", "__parentRunId", "__parentStepId"];
+
+function throwIfAborted(run: RunState) {
+  if (run.controller.signal.aborted) throw run.controller.signal.reason;
+}
+
+// Key of an action's entry in a parallel stage's `{ results, errors }`.
+export function parallelResultKey(action: WorkflowAction): string {
+  return action.id ?? actionResultKey(action);
 }
 
 // Render {{ expr }} templates in values
@@ -58,39 +178,6 @@ function renderTemplate(value: any, ctx: Dict): any {
   return value;
 }
 
-// Evaluate simple condition expressions
-// Supports: path op value (op: ==, !=, >, >=, <, <=)
-function evalCondition(expr: string, ctx: Dict): boolean {
-  const m = expr.trim().match(/^([a-zA-Z0-9_\.]+)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
-  if (!m) return false;
-
-  const [, leftPath, op, rightRaw] = m;
-  const left = getByPath(ctx, leftPath);
-
-  let right: any = rightRaw.trim();
-  if (right === "true") right = true;
-  else if (right === "false") right = false;
-  else if (!Number.isNaN(Number(right))) right = Number(right);
-  else right = right.replace(/^['\"]|['\"]$/g, "");
-
-  switch (op) {
-    case "==":
-      return left === right;
-    case "!=":
-      return left !== right;
-    case ">":
-      return Number(left) > Number(right);
-    case ">=":
-      return Number(left) >= Number(right);
-    case "<":
-      return Number(left) < Number(right);
-    case "<=":
-      return Number(left) <= Number(right);
-    default:
-      return false;
-  }
-}
-
 export class WorkflowEngine {
   private config: WorkflowEngineConfig;
 
@@ -98,18 +185,55 @@ export class WorkflowEngine {
     this.config = config;
   }
 
+  // `initialCtx.__runId` sets the run id (hosts that trace under their own ids); otherwise one is generated.
   async run(workflow: Workflow, initialCtx: Dict = {}): Promise<RunResult> {
-    const runId = `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    return this.start(workflow, initialCtx);
+  }
+
+  // `parent`: the calling run of a sub-workflow; aborting it aborts this run too.
+  private async start(workflow: Workflow, initialCtx: Dict, parent?: RunState): Promise<RunResult> {
+    const runId = typeof initialCtx.__runId === "string" ? initialCtx.__runId : newRunId();
+    const cfg = workflow.config ?? {};
+    const run: RunState = {
+      controller: new AbortController(),
+      legacyAliases: cfg.legacyAliases !== false,
+      maxRetries: cfg.maxRetries ?? 0,
+      backoffMs: cfg.retryBackoff !== undefined ? parseDuration(cfg.retryBackoff) : DEFAULT_RETRY_BACKOFF_MS,
+      broadcasts: parent?.broadcasts ?? new Set(),
+    };
+    const onParentAbort = () => run.controller.abort(parent!.controller.signal.reason);
+    parent?.controller.signal.addEventListener("abort", onParentAbort, { once: true });
+    try {
+      return await this.runWorkflow(workflow, initialCtx, runId, run);
+    } finally {
+      parent?.controller.signal.removeEventListener("abort", onParentAbort);
+    }
+  }
+
+  private async runWorkflow(workflow: Workflow, initialCtx: Dict, runId: string, run: RunState): Promise<RunResult> {
+    const cfg = workflow.config ?? {};
+    // `initialCtx.inputs` holds the supplied values; they are replaced by the typed, defaulted ones
+    const inputs = resolveInputs(workflow.inputs, initialCtx.inputs ?? {});
     const ctx: Dict = {
+      steps: {},
       ...initialCtx,
+      inputs: inputs.values,
       __runId: runId,
       __workflow: workflow.name,
+      __signal: run.controller.signal,
     };
+    // stages that ran to completion, for rollback
+    const completed: WorkflowStage[] = [];
+
+    if (inputs.errors.length) {
+      return { ok: false, runId, error: `Invalid inputs: ${inputs.errors.join("; ")}`, context: ctx };
+    }
 
     try {
-      for (const stage of workflow.stages) {
-        await this.runStage(stage, ctx);
-      }
+      const runTimeoutMs = cfg.timeout !== undefined ? parseDuration(cfg.timeout) : undefined;
+      await withTimeout(this.runStages(workflow.stages, ctx, run, completed), runTimeoutMs, run, () =>
+        new WorkflowTimeoutError("run", runTimeoutMs!)
+      );
 
       return {
         ok: true,
@@ -117,21 +241,104 @@ export class WorkflowEngine {
         context: ctx,
       };
     } catch (e: any) {
-      return {
+      if (!run.controller.signal.aborted) run.controller.abort(e);
+      const result: RunResult = {
         ok: false,
         runId,
         error: e?.message ?? String(e),
         context: ctx,
       };
+
+      if (e instanceof WorkflowTimeoutError) {
+        result.timedOut = true;
+        if (this.config.onTimeout) {
+          await this.config.onTimeout(e, ctx);
+        }
+      }
+
+      if (cfg.rollbackOnFailure) {
+        Object.assign(result, await this.rollback(completed, ctx, run));
+      }
+      return result;
+    }
+  }
+
+  // Starts each stage once the stages it depends on have finished. The first failure aborts the run; stages
+  // still running are awaited (they see the aborted signal) before the error is rethrown.
+  private async runStages(stages: WorkflowStage[], ctx: Dict, run: RunState, completed: WorkflowStage[]): Promise<void> {
+    const deps = stageDependencies(stages);
+    const finished = new Set<number>();
+    const started = new Set<number>();
+    const running = new Map<number, Promise<void>>();
+    let failure: { error: unknown } | undefined;
+
+    for (;;) {
+      if (!failure) {
+        stages.forEach((stage, i) => {
+          if (started.has(i) || !deps[i].every((d) => finished.has(d))) return;
+          started.add(i);
+          const p = this.runStage(stage, ctx, run)
+            .then(
+              (ran) => {
+                if (ran) completed.push(stage);
+                finished.add(i);
+              },
+              (error) => {
+                if (failure) return;
+                failure = { error };
+                if (!run.controller.signal.aborted) run.controller.abort(error);
+              }
+            )
+            .finally(() => running.delete(i));
+          running.set(i, p);
+        });
+      }
+      if (!running.size) break;
+      await Promise.race(running.values());
+    }
+
+    if (failure) throw failure.error;
+    if (started.size < stages.length) throw new Error("Stage dependencies form a cycle");
+  }
+
+  // Runs the rollback actions of completed stages, last stage first. Each stage's actions run in declared order;
+  // a failing rollback action stops that stage's rollback but not the others.
+  private async rollback(completed: WorkflowStage[], ctx: Dict, failed: RunState): Promise<Pick<RunResult, "rolledBack" | "rollbackErrors">> {
+    // the failed run's controller is aborted; rollback gets its own
+    const run: RunState = { ...failed, controller: new AbortController() };
+    ctx.__signal = run.controller.signal;
+    const rolledBack: string[] = [];
+    const rollbackErrors: string[] = [];
+
+    for (const stage of [...completed].reverse()) {
+      if (!stage.rollback?.length) continue;
+      let error: Error | undefined;
+      try {
+        for (const action of stage.rollback) {
+          await this.runAction(action, stage, ctx, run, { rollback: true });
+        }
+        rolledBack.push(stage.name);
+      } catch (e: any) {
+        error = e instanceof Error ? e : new Error(String(e));
+        rollbackErrors.push(`${stage.name}: ${error.message}`);
+      }
+      if (this.config.onRollback) {
+        await this.config.onRollback(stage, ctx, error);
+      }
     }
+
+    return { rolledBack, ...(rollbackErrors.length ? { rollbackErrors } : {}) };
   }
 
-  private async runStage(stage: WorkflowStage, ctx: Dict): Promise<void> {
+  // Returns false when the stage was skipped by its `when` condition.
+  private async runStage(stage: WorkflowStage, ctx: Dict, run: RunState): Promise<boolean> {
+    throwIfAborted(run);
+
     // Check `when` condition
     if (stage.when) {
-      const shouldRun = evalCondition(stage.when, ctx);
+      const shouldRun = evaluateExpression(stage.when, ctx);
       if (!shouldRun) {
-        return; // Skip stage
+        return false; // Skip stage
       }
     }
 
@@ -143,19 +350,24 @@ export class WorkflowEngine {
     try {
       // Handle approval stage
       if (stage.type === "approval") {
-        await this.handleApproval(stage, ctx);
-        return;
+        await this.handleApproval(stage, ctx, run);
+        return true;
       }
 
       // Run all actions in stage
-      for (const action of stage.actions) {
-        await this.runAction(action, stage, ctx);
-      }
+      const stageTimeoutMs = stage.timeout !== undefined ? parseDuration(stage.timeout) : undefined;
+      const actions = async () => {
+        if (stage.foreach) return this.runForeach(stage, ctx, run);
+        if (stage.until !== undefined || stage.while !== undefined) return this.runPoll(stage, ctx, run);
+        return this.runActions(stage, ctx, run);
+      };
+      await withTimeout(actions(), stageTimeoutMs, run, () => new WorkflowTimeoutError("stage", stageTimeoutMs!, stage.name));
 
       // Notify stage end
       if (this.config.onStageEnd) {
         await this.config.onStageEnd(stage, ctx);
       }
+      return true;
     } catch (e) {
       if (this.config.onStageEnd) {
         await this.config.onStageEnd(stage, ctx, e as Error);
@@ -164,13 +376,104 @@ export class WorkflowEngine {
     }
   }
 
-  private async handleApproval(stage: WorkflowStage, ctx: Dict): Promise<void> {
+  // One pass over the stage's actions. `step` is what the action hooks see (the iteration inside loops).
+  private async runActions(stage: WorkflowStage, ctx: Dict, run: RunState, step: WorkflowStage = stage): Promise<void> {
+    if (stage.parallel) return this.runParallelActions(stage, ctx, run, step);
+    for (const action of stage.actions) {
+      await this.runAction(action, stage, ctx, run, { step });
+    }
+  }
+
+  private async runIteration(stage: WorkflowStage, index: number, ctx: Dict, run: RunState): Promise<void> {
+    throwIfAborted(run);
+    if (this.config.onIterationStart) {
+      await this.config.onIterationStart(stage, index, ctx);
+    }
+    try {
+      await this.runActions(stage, ctx, run, { ...stage, name: iterationStepId(stage.name, index) });
+    } catch (e) {
+      if (this.config.onIterationEnd) {
+        await this.config.onIterationEnd(stage, index, ctx, e as Error);
+      }
+      throw e;
+    }
+    if (this.config.onIterationEnd) {
+      await this.config.onIterationEnd(stage, index, ctx);
+    }
+  }
+
+  // The current item is `ctx[foreach.as]` (default `item`) and `ctx.loop = { index, count }`; afterwards the
+  // stage key holds the list of per-iteration stage results.
+  private async runForeach(stage: WorkflowStage, ctx: Dict, run: RunState): Promise<void> {
+    const items = foreachItems(stage, ctx);
+    const as = stage.foreach!.as ?? "item";
+    const values: any[] = [];
+    try {
+      for (let i = 0; i < items.length; i++) {
+        ctx[as] = items[i];
+        ctx.loop = { index: i, count: items.length };
+        await this.runIteration(stage, i, ctx, run);
+        values.push(ctx[stage.name]);
+      }
+    } finally {
+      delete ctx[as];
+      delete ctx.loop;
+    }
+    ctx[stage.name] = values;
+  }
+
+  // Re-runs the actions every `interval` until the condition allows stopping; `ctx.loop = { index, count }`.
+  private async runPoll(stage: WorkflowStage, ctx: Dict, run: RunState): Promise<void> {
+    const { maxAttempts, intervalMs } = pollSettings(stage);
+    try {
+      for (let i = 0; i < maxAttempts; i++) {
+        if (i > 0) await sleep(intervalMs, run.controller.signal);
+        ctx.loop = { index: i, count: maxAttempts };
+        await this.runIteration(stage, i, ctx, run);
+        if (pollDone(stage, ctx)) return;
+      }
+    } finally {
+      delete ctx.loop;
+    }
+    throw pollExhaustedError(stage, maxAttempts);
+  }
+
+  // Runs every action of a parallel stage at once. Results are stored after the join, in declared order, so
+  // aliases shared by several tools resolve deterministically; `ctx[stage.name]` becomes
+  // `{ results, errors }` keyed by action id or toolResultKey. With onError "collect" failed actions only land in `errors`.
+  private async runParallelActions(stage: WorkflowStage, ctx: Dict, run: RunState, step: WorkflowStage): Promise<void> {
+    const pending = stage.actions.map((action) => this.runAction(action, stage, ctx, run, { deferStore: true, step }));
+    const settled: PromiseSettledResult<any>[] =
+      stage.onError === "collect"
+        ? await Promise.allSettled(pending)
+        : (await Promise.all(pending)).map((value) => ({ status: "fulfilled", value }));
+    // a timeout or a failure elsewhere is not an action error to collect
+    throwIfAborted(run);
+
+    const results: Dict = {};
+    const errors: Dict = {};
+    settled.forEach((s, i) => {
+      const action = stage.actions[i];
+      const key = parallelResultKey(action);
+      if (s.status === "fulfilled") {
+        results[key] = s.value;
+        bindActionResult(action, ctx, s.value, run);
+      } else {
+        errors[key] = s.reason?.message ?? String(s.reason);
+      }
+    });
+    ctx[stage.name] = { results, errors };
+  }
+
+  // An approver that has not answered within `approval.timeout` expires: the run aborts with a WorkflowTimeoutError
+  // (scope "approval"), which approvers waiting on `ctx.__signal` see as the abort reason.
+  private async handleApproval(stage: WorkflowStage, ctx: Dict, run: RunState): Promise<void> {
     const required = stage.approval?.required ?? false;
     if (!required) return;
 
     // Check auto-approval conditions
     const conditions = stage.approval?.conditions ?? [];
-    const allConditionsMet = conditions.every((c) => evalCondition(c, ctx));
+    const allConditionsMet = conditions.every((c) => evaluateExpression(c, ctx));
 
     if (!allConditionsMet) {
       throw new Error(`Approval conditions failed for stage: ${stage.name}`);
@@ -178,7 +481,11 @@ export class WorkflowEngine {
 
     // Request user approval
     if (this.config.onApprovalRequired) {
-      const approved = await this.config.onApprovalRequired(stage, ctx);
+      const timeout = stage.approval?.timeout ?? this.config.approvalTimeout;
+      const timeoutMs = timeout !== undefined ? parseDuration(timeout) : undefined;
+      const approved = await withTimeout(this.config.onApprovalRequired(stage, ctx), timeoutMs, run, () =>
+        new WorkflowTimeoutError("approval", timeoutMs!, stage.name)
+      );
       if (!approved) {
         throw new Error(`User rejected approval for stage: ${stage.name}`);
       }
@@ -188,8 +495,26 @@ export class WorkflowEngine {
     }
   }
 
-  private async runAction(action: WorkflowAction, stage: WorkflowStage, ctx: Dict): Promise<void> {
-    const tool = this.config.tools.get(action.tool);
+  private async runAction(
+    action: WorkflowAction,
+    stage: WorkflowStage,
+    ctx: Dict,
+    run: RunState,
+    // deferStore: the caller stores the result (parallel stages); step: the stage the hooks see
+    opts: { rollback?: boolean; deferStore?: boolean; step?: WorkflowStage } = {}
+  ): Promise<any> {
+    const step = opts.step ?? stage;
+    throwIfAborted(run);
+    if (action.use !== undefined) {
+      const result = await this.runSubWorkflow(action, ctx, run, step);
+      if (!opts.rollback && !opts.deferStore) {
+        ctx[stage.name] = result;
+        bindActionResult(action, ctx, result, run);
+      }
+      return result;
+    }
+
+    const tool = this.config.tools.get(action.tool!);
     if (!tool) {
       throw new Error(`Unknown tool: ${action.tool}`);
     }
@@ -199,55 +524,101 @@ export class WorkflowEngine {
 
     // Notify action start
     if (this.config.onActionStart) {
-      await this.config.onActionStart(action, tool, params, ctx);
+      await this.config.onActionStart(action, tool, params, ctx, step);
     }
 
     // Policy check for broadcast actions
     if (tool.meta.sideEffect === "broadcast" && this.config.onPolicyCheck) {
-      const check = await this.config.onPolicyCheck(tool, params, ctx);
+      const check = await this.config.onPolicyCheck(tool, params, ctx, action, step);
       if (!check.allowed) {
         throw new Error(`Policy blocked: ${check.reason ?? "unknown"}`);
       }
     }
 
-    // Execute tool
-    const result = await tool.execute(params, ctx);
+    // Execute tool. A broadcast is finished (stored, onActionEnd) even if the run is aborted while it is being sent;
+    // the abort surfaces after that.
+    throwIfAborted(run);
+    const broadcast = tool.meta.sideEffect === "broadcast";
+    const done = (async () => {
+      const result = await this.execute(action, tool, params, ctx, run, step);
+      if (!broadcast) throwIfAborted(run);
+
+      // Rollback results don't overwrite the results of the forward run
+      if (!opts.rollback && !opts.deferStore) {
+        // Store result in context under the stage name
+        ctx[stage.name] = result;
+        bindActionResult(action, ctx, result, run);
+      }
 
-    // Store result in context under the stage name
-    ctx[stage.name] = result;
+      // Notify action end
+      if (this.config.onActionEnd) {
+        await this.config.onActionEnd(action, tool, result, ctx, step);
+      }
+      return result;
+    })();
+    if (broadcast) {
+      run.broadcasts.add(done);
+      done.then(
+        () => run.broadcasts.delete(done),
+        () => run.broadcasts.delete(done)
+      );
+    }
+    const result = await done;
+    throwIfAborted(run);
+    return result;
+  }
 
-    // Also store under tool name for multi-action stages
-    // Strip common prefixes for cleaner access
-    const toolShortName = action.tool
-      .replace(/^solana_/, "")
-      .replace(/^jupiter_/, "")
-      .replace(/_tx$/, "");
-    ctx[toolShortName] = result;
 
-    // Store common aliases for backward compatibility
-    if (action.tool.includes("quote")) {
-      ctx.quote = result;
+  // Runs a `use` action's workflow as a sub-run with the rendered `inputs`; the result is the workflow's `outputs`.
+  // The sub-run inherits the caller's `__` settings (approval, policy, ...) but none of its other context.
+  private async runSubWorkflow(action: WorkflowAction, ctx: Dict, run: RunState, step: WorkflowStage): Promise<Dict> {
+    const workflow = this.config.workflows?.[action.use!];
+    if (!workflow) {
+      throw new Error(`Unknown workflow: ${action.use}`);
     }
-    if (action.tool.includes("build")) {
-      ctx.built = result;
+
+    const inputs = renderTemplate(action.inputs ?? {}, ctx);
+    const runId = newRunId();
+    const subCtx: Dict = {};
+    for (const [k, v] of Object.entries(ctx)) {
+      if (k.startsWith("__") && !RUN_OWN_KEYS.includes(k)) subCtx[k] = v;
     }
-    if (action.tool.includes("simulate")) {
-      ctx.simulation = result;
+    Object.assign(subCtx, { inputs, __runId: runId, __parentRunId: ctx.__runId, __parentStepId: step.name });
+
+    if (this.config.onSubWorkflowStart) {
+      await this.config.onSubWorkflowStart(action, workflow, runId, inputs, ctx, step);
     }
-    if (action.tool.includes("send")) {
-      ctx.submitted = result;
+    const result = await this.start(workflow, subCtx, run);
+    if (this.config.onSubWorkflowEnd) {
+      await this.config.onSubWorkflowEnd(action, workflow, result, ctx, step);
     }
-    
-    // Store under result key names if result has specific keys
-    // This handles cases like calculate_opportunity returning { ok, profit, ... }
-    if (result && typeof result === "object") {
-      if ("profit" in result) ctx.opportunity = result;
-      if ("prices" in result) ctx.prices = result;
+    throwIfAborted(run);
+    if (!result.ok) {
+      throw new Error(`Workflow '${action.use}' failed: ${result.error}`);
     }
+    return workflowOutputs(workflow, result.context);
+  }
 
-    // Notify action end
-    if (this.config.onActionEnd) {
-      await this.config.onActionEnd(action, tool, result, ctx);
+  // Broadcasts are never retried: a failed send may still have landed.
+  private async execute(
+    action: WorkflowAction,
+    tool: ToolDefinition,
+    params: Dict,
+    ctx: Dict,
+    run: RunState,
+    stage: WorkflowStage
+  ): Promise<any> {
+    const retries = tool.meta.sideEffect === "broadcast" ? 0 : run.maxRetries;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await tool.execute(params, ctx);
+      } catch (e) {
+        if (attempt >= retries || run.controller.signal.aborted) throw e;
+        if (this.config.onActionRetry) {
+          await this.config.onActionRetry(action, tool, attempt + 1, e as Error, ctx, stage);
+        }
+        await sleep(Math.min(run.backoffMs * 2 ** attempt, MAX_RETRY_BACKOFF_MS), run.controller.signal);
+      }
     }
   }
 }
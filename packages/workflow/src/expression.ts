@@ -0,0 +1,338 @@
+// Expression language for stage `when` and approval `conditions`.
+//
+//   expr       := or
+//   or         := and (("||" | "or") and)*
+//   and        := not (("&&" | "and") not)*
+//   not        := ("!" | "not") not | comparison
+//   comparison := operand (("==" | "!=" | ">" | ">=" | "<" | "<=") operand)?
+//   operand    := literal | path | "exists" "(" path ")" | "(" expr ")"
+//
+// Literals are numbers, 'strings' / "strings", true, false and null. Paths are dotted context lookups
+// (`simulation.ok`, `quote.routes.0.label`); a bare path is tested for truthiness, and a missing path
+// is `undefined`, which compares unequal to every literal and fails every ordering comparison.
+
+export type Expression =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "path"; path: string }
+  | { kind: "exists"; path: string }
+  | { kind: "not"; arg: Expression }
+  | { kind: "and" | "or"; left: Expression; right: Expression }
+  | { kind: "compare"; op: CompareOp; left: Expression; right: Expression };
+
+export type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+// `position` is a 0-based character offset into the expression.
+export class ExpressionParseError extends Error {
+  position: number;
+
+  constructor(position: number, expected: string, found: string) {
+    super(`Parse error at position ${position}: expected ${expected} but found ${found}`);
+    this.name = "ExpressionParseError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: "ident"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "keyword"; value: "true" | "false" | "null" | "exists"; pos: number }
+  | { type: "op"; value: CompareOp; pos: number }
+  | { type: "and" | "or" | "not" | "lparen" | "rparen" | "eof"; pos: number };
+
+const KEYWORDS: Record<string, Token["type"] | "keyword"> = {
+  and: "and",
+  or: "or",
+  not: "not",
+  true: "keyword",
+  false: "keyword",
+  null: "keyword",
+  exists: "keyword",
+};
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+    const pos = i;
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    const two = src.slice(i, i + 2);
+    if (two === "&&" || two === "||") {
+      tokens.push({ type: two === "&&" ? "and" : "or", pos });
+      i += 2;
+      continue;
+    }
+    if (two === "==" || two === "!=" || two === ">=" || two === "<=") {
+      tokens.push({ type: "op", value: two, pos });
+      i += 2;
+      continue;
+    }
+    if (c === ">" || c === "<") {
+      tokens.push({ type: "op", value: c, pos });
+      i++;
+      continue;
+    }
+    if (c === "!") {
+      tokens.push({ type: "not", pos });
+      i++;
+      continue;
+    }
+    if (c === "(" || c === ")") {
+      tokens.push({ type: c === "(" ? "lparen" : "rparen", pos });
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let value = "";
+      i++;
+      while (i < src.length && src[i] !== c) {
+        if (src[i] === "\\" && i + 1 < src.length) i++;
+        value += src[i];
+        i++;
+      }
+      if (i >= src.length) throw new ExpressionParseError(i, `closing ${c}`, "end of input");
+      i++;
+      tokens.push({ type: "string", value, pos });
+      continue;
+    }
+
+    if (/[0-9]/.test(c) || (c === "-" && /[0-9]/.test(src[i + 1] ?? ""))) {
+      let j = i + 1;
+      while (j < src.length && /[0-9.]/.test(src[j])) j++;
+      const raw = src.slice(i, j);
+      const value = Number(raw);
+      if (!Number.isFinite(value)) throw new ExpressionParseError(pos, "number", `'${raw}'`);
+      tokens.push({ type: "number", value, pos });
+      i = j;
+      continue;
+    }
+
+    if (/[a-zA-Z_$]/.test(c)) {
+      let j = i + 1;
+      while (j < src.length && /[a-zA-Z0-9_$.]/.test(src[j])) j++;
+      const word = src.slice(i, j);
+      const kw = KEYWORDS[word];
+      if (kw === "keyword") tokens.push({ type: "keyword", value: word as any, pos });
+      else if (kw) tokens.push({ type: kw as "and" | "or" | "not", pos });
+      else {
+        if (word.endsWith(".") || word.includes("..")) throw new ExpressionParseError(pos, "path", `'${word}'`);
+        tokens.push({ type: "ident", value: word, pos });
+      }
+      i = j;
+      continue;
+    }
+
+    throw new ExpressionParseError(pos, "expression", `'${c}'`);
+  }
+
+  tokens.push({ type: "eof", pos: src.length });
+  return tokens;
+}
+
+function describeToken(t: Token): string {
+  switch (t.type) {
+    case "eof":
+      return "end of input";
+    case "ident":
+      return `identifier '${t.value}'`;
+    case "number":
+      return `number ${t.value}`;
+    case "string":
+      return `string ${JSON.stringify(t.value)}`;
+    case "keyword":
+    case "op":
+      return `'${t.value}'`;
+    default:
+      return `'${{ and: "&&", or: "||", not: "!", lparen: "(", rparen: ")" }[t.type]}'`;
+  }
+}
+
+class Parser {
+  private i = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.i];
+  }
+
+  private next(): Token {
+    const t = this.tokens[this.i];
+    if (t.type !== "eof") this.i++;
+    return t;
+  }
+
+  private expect(type: Token["type"], expected: string): Token {
+    const t = this.peek();
+    if (t.type !== type) throw new ExpressionParseError(t.pos, expected, describeToken(t));
+    return this.next();
+  }
+
+  parse(): Expression {
+    const e = this.or();
+    const t = this.peek();
+    if (t.type !== "eof") throw new ExpressionParseError(t.pos, "end of expression", describeToken(t));
+    return e;
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.peek().type === "or") {
+      this.next();
+      left = { kind: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.not();
+    while (this.peek().type === "and") {
+      this.next();
+      left = { kind: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Expression {
+    if (this.peek().type === "not") {
+      this.next();
+      return { kind: "not", arg: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Expression {
+    const left = this.operand();
+    const t = this.peek();
+    if (t.type === "op") {
+      this.next();
+      return { kind: "compare", op: t.value, left, right: this.operand() };
+    }
+    return left;
+  }
+
+  private operand(): Expression {
+    const t = this.next();
+    switch (t.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: t.value };
+      case "ident":
+        return { kind: "path", path: t.value };
+      case "keyword":
+        if (t.value === "exists") {
+          this.expect("lparen", "'('");
+          const p = this.expect("ident", "path");
+          this.expect("rparen", "')'");
+          return { kind: "exists", path: (p as Extract<Token, { type: "ident" }>).value };
+        }
+        return { kind: "literal", value: t.value === "null" ? null : t.value === "true" };
+      case "lparen": {
+        const e = this.or();
+        this.expect("rparen", "')'");
+        return e;
+      }
+      default:
+        throw new ExpressionParseError(t.pos, "value, path or '('", describeToken(t));
+    }
+  }
+}
+
+// Throws ExpressionParseError for malformed input.
+export function parseExpression(src: string): Expression {
+  if (typeof src !== "string") throw new ExpressionParseError(0, "expression string", typeof src);
+  return new Parser(tokenize(src)).parse();
+}
+
+// Context paths an expression reads, in source order.
+export function expressionPaths(e: Expression): string[] {
+  switch (e.kind) {
+    case "literal":
+      return [];
+    case "path":
+    case "exists":
+      return [e.path];
+    case "not":
+      return expressionPaths(e.arg);
+    default:
+      return [...expressionPaths(e.left), ...expressionPaths(e.right)];
+  }
+}
+
+// Value at a dot path such as `quote.outAmount`; undefined once a segment is missing. Shared by templates,
+// expressions, `outputs`, and foreach items.
+export function getByPath(obj: any, path: string): any {
+  let cur = obj;
+  for (const p of path.split(".").filter(Boolean)) {
+    if (cur == null) return undefined;
+    cur = cur[p];
+  }
+  return cur;
+}
+
+function value(e: Expression, ctx: Record<string, any>): any {
+  switch (e.kind) {
+    case "literal":
+      return e.value;
+    case "path":
+      return getByPath(ctx, e.path);
+    default:
+      return evaluate(e, ctx);
+  }
+}
+
+function evaluate(e: Expression, ctx: Record<string, any>): boolean {
+  switch (e.kind) {
+    case "literal":
+    case "path":
+      return Boolean(value(e, ctx));
+    case "exists": {
+      const v = getByPath(ctx, e.path);
+      return v !== undefined && v !== null;
+    }
+    case "not":
+      return !evaluate(e.arg, ctx);
+    case "and":
+      return evaluate(e.left, ctx) && evaluate(e.right, ctx);
+    case "or":
+      return evaluate(e.left, ctx) || evaluate(e.right, ctx);
+    case "compare": {
+      const l = value(e.left, ctx);
+      const r = value(e.right, ctx);
+      switch (e.op) {
+        case "==":
+          return l === r;
+        case "!=":
+          return l !== r;
+        default: {
+          const a = Number(l);
+          const b = Number(r);
+          if (l == null || r == null || Number.isNaN(a) || Number.isNaN(b)) return false;
+          return e.op === ">" ? a > b : e.op === ">=" ? a >= b : e.op === "<" ? a < b : a <= b;
+        }
+      }
+    }
+  }
+}
+
+const parsed = new Map<string, Expression>();
+
+// Evaluates a `when` / approval condition against the run context. Throws ExpressionParseError if it does not parse.
+export function evaluateExpression(expr: string | Expression, ctx: Record<string, any>): boolean {
+  if (typeof expr !== "string") return evaluate(expr, ctx);
+  let e = parsed.get(expr);
+  if (!e) {
+    e = parseExpression(expr);
+    if (parsed.size >= 500) parsed.clear();
+    parsed.set(expr, e);
+  }
+  return evaluate(e, ctx);
+}
@@ -1,3 +1,11 @@
 export * from "./types.js";
 export * from "./engine.js";
 export * from "./parser.js";
+export * from "./cron.js";
+export * from "./duration.js";
+export * from "./expression.js";
+export * from "./dag.js";
+export * from "./bindings.js";
+export * from "./inputs.js";
+export * from "./loops.js";
+export * from "./library.js";
@@ -0,0 +1,201 @@
+import type { WorkflowInput, WorkflowInputType } from "./types.js";
+
+// Typed workflow inputs. Values arrive as strings from the CLI (`--input amount=0.1`) or as JSON from the daemon;
+// resolveInputs coerces them to the declared type, applies defaults and exposes them to the run as `inputs.<name>`.
+
+export const INPUT_TYPES: WorkflowInputType[] = ["string", "number", "boolean", "amount", "mint", "address", "bps"];
+
+// Symbols accepted for `mint` inputs (Solana mainnet).
+export const MINT_SYMBOLS: Record<string, string> = {
+  SOL: "So11111111111111111111111111111111111111112",
+  WSOL: "So11111111111111111111111111111111111111112",
+  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+};
+
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const DECIMAL = /^\d+(\.\d+)?$/;
+const INPUT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type InputValue = string | number | boolean;
+
+function toNumber(raw: unknown): number | undefined {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : undefined;
+  if (typeof raw === "string" && raw.trim() !== "") {
+    const n = Number(raw.trim());
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function checkRange(n: number, spec: WorkflowInput): string | null {
+  if (spec.min !== undefined && n < spec.min) return `must be at least ${spec.min}`;
+  if (spec.max !== undefined && n > spec.max) return `must be at most ${spec.max}`;
+  return null;
+}
+
+// Returns the typed value, or an error message.
+export function coerceInput(spec: WorkflowInput, raw: unknown): { value: InputValue } | { error: string } {
+  let value: InputValue;
+  switch (spec.type) {
+    case "string":
+      if (typeof raw !== "string" && typeof raw !== "number" && typeof raw !== "boolean") return { error: "must be a string" };
+      value = String(raw);
+      break;
+    case "number": {
+      const n = toNumber(raw);
+      if (n === undefined) return { error: "must be a number" };
+      const err = checkRange(n, spec);
+      if (err) return { error: err };
+      value = n;
+      break;
+    }
+    case "amount": {
+      const s = typeof raw === "number" ? String(raw) : typeof raw === "string" ? raw.trim() : "";
+      if (!DECIMAL.test(s) || Number(s) <= 0) return { error: "must be a positive decimal amount" };
+      const err = checkRange(Number(s), spec);
+      if (err) return { error: err };
+      value = Number(s);
+      break;
+    }
+    case "bps": {
+      const n = toNumber(raw);
+      if (n === undefined || !Number.isInteger(n) || n < 0 || n > 10_000) return { error: "must be an integer number of basis points (0-10000)" };
+      const err = checkRange(n, spec);
+      if (err) return { error: err };
+      value = n;
+      break;
+    }
+    case "boolean": {
+      const s = String(raw).toLowerCase();
+      if (raw === true || ["true", "yes", "1"].includes(s)) value = true;
+      else if (raw === false || ["false", "no", "0"].includes(s)) value = false;
+      else return { error: "must be true or false" };
+      break;
+    }
+    case "mint": {
+      if (typeof raw !== "string") return { error: "must be a mint address or symbol" };
+      const s = raw.trim();
+      const mint = MINT_SYMBOLS[s.toUpperCase()] ?? s;
+      if (!BASE58_ADDRESS.test(mint)) {
+        return { error: `must be a mint address or one of ${Object.keys(MINT_SYMBOLS).join(", ")}` };
+      }
+      value = mint;
+      break;
+    }
+    case "address": {
+      if (typeof raw !== "string" || !(BASE58_ADDRESS.test(raw.trim()) || EVM_ADDRESS.test(raw.trim()))) {
+        return { error: "must be a Solana (base58) or EVM (0x) address" };
+      }
+      value = raw.trim();
+      break;
+    }
+    default:
+      return { error: `unknown input type '${(spec as any).type}'` };
+  }
+
+  if (spec.enum && !spec.enum.includes(value as any)) return { error: `must be one of ${spec.enum.join(", ")}` };
+  return { value };
+}
+
+// Structural checks for the `inputs:` section.
+export function validateInputSpecs(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (typeof raw !== "object" || Array.isArray(raw)) return ["inputs: must map input names to definitions"];
+
+  const errors: string[] = [];
+  for (const [name, spec] of Object.entries<any>(raw)) {
+    const prefix = `inputs.${name}`;
+    if (!INPUT_NAME.test(name)) errors.push(`${prefix}: name must be an identifier (letters, digits, _)`);
+    if (!spec || typeof spec !== "object") {
+      errors.push(`${prefix}: must be an object with a 'type'`);
+      continue;
+    }
+    if (!INPUT_TYPES.includes(spec.type)) {
+      errors.push(`${prefix}.type: must be one of ${INPUT_TYPES.join(", ")}`);
+      continue;
+    }
+    if (spec.description !== undefined && typeof spec.description !== "string") errors.push(`${prefix}.description: must be a string`);
+    if (spec.required !== undefined && typeof spec.required !== "boolean") errors.push(`${prefix}.required: must be a boolean`);
+    for (const key of ["min", "max"]) {
+      if (spec[key] !== undefined && typeof spec[key] !== "number") errors.push(`${prefix}.${key}: must be a number`);
+    }
+    if (spec.enum !== undefined && (!Array.isArray(spec.enum) || spec.enum.length === 0)) errors.push(`${prefix}.enum: must be a non-empty list`);
+    if (spec.default !== undefined) {
+      const r = coerceInput(spec, spec.default);
+      if ("error" in r) errors.push(`${prefix}.default: ${r.error}`);
+    }
+  }
+  return errors;
+}
+
+// Coerces supplied values and fills in defaults. An input without a default is required unless `required: false`.
+export function resolveInputs(
+  specs: Record<string, WorkflowInput> | undefined,
+  supplied: Record<string, unknown> = {}
+): { values: Record<string, InputValue>; errors: string[] } {
+  const values: Record<string, InputValue> = {};
+  const errors: string[] = [];
+  const declared = specs ?? {};
+
+  for (const name of Object.keys(supplied)) {
+    if (!(name in declared)) errors.push(`unknown input '${name}'`);
+  }
+  for (const [name, spec] of Object.entries(declared)) {
+    const raw = supplied[name] ?? spec.default;
+    if (raw === undefined || raw === null) {
+      if (spec.required !== false) errors.push(`missing required input '${name}'`);
+      continue;
+    }
+    const r = coerceInput(spec, raw);
+    if ("error" in r) errors.push(`input '${name}' ${r.error}`);
+    else values[name] = r.value;
+  }
+  return { values, errors };
+}
+
+export type InputSchema = {
+  type: "object";
+  properties: Record<string, Record<string, unknown>>;
+  required: string[];
+  additionalProperties: false;
+};
+
+// JSON Schema for the inputs, for hosts that render forms. `format` carries the workflow type for
+// amount/mint/address/bps so a host can pick a suitable widget.
+export function inputSchema(specs: Record<string, WorkflowInput> | undefined): InputSchema {
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+
+  for (const [name, spec] of Object.entries(specs ?? {})) {
+    const p: Record<string, unknown> = {};
+    switch (spec.type) {
+      case "string":
+      case "boolean":
+      case "number":
+        p.type = spec.type;
+        break;
+      case "amount":
+        Object.assign(p, { type: "number", exclusiveMinimum: 0, format: "amount" });
+        break;
+      case "bps":
+        Object.assign(p, { type: "integer", minimum: 0, maximum: 10_000, format: "bps" });
+        break;
+      case "mint":
+        Object.assign(p, { type: "string", format: "mint", examples: Object.keys(MINT_SYMBOLS) });
+        break;
+      case "address":
+        Object.assign(p, { type: "string", format: "address" });
+        break;
+    }
+    if (spec.min !== undefined) p.minimum = spec.min;
+    if (spec.max !== undefined) p.maximum = spec.max;
+    if (spec.description) p.description = spec.description;
+    if (spec.enum) p.enum = spec.enum;
+    if (spec.default !== undefined) p.default = spec.default;
+    properties[name] = p;
+    if (spec.default === undefined && spec.required !== false) required.push(name);
+  }
+  return { type: "object", properties, required, additionalProperties: false };
+}
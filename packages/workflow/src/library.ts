@@ -0,0 +1,55 @@
+import { existsSync, statSync } from "node:fs";
+import { basename, delimiter, dirname, extname, join, resolve } from "node:path";
+import type { Workflow, WorkflowAction } from "./types.js";
+import { getByPath } from "./expression.js";
+
+// Sub-workflows: an action `use: <name>` runs another workflow file with `inputs:` and returns that workflow's
+// `outputs:`. Names are looked up in the library path: the directories in W3RT_WORKFLOW_PATH, then `lib/`
+// next to the workflow being run, then that workflow's own directory. `parseWorkflowFile` resolves the whole
+// tree up front, so missing files and cycles are parse errors.
+
+export const WORKFLOW_PATH_ENV = "W3RT_WORKFLOW_PATH";
+
+export function workflowLibraryPath(workflowFile: string, env: Record<string, string | undefined> = process.env): string[] {
+  const dir = dirname(resolve(workflowFile));
+  const fromEnv = (env[WORKFLOW_PATH_ENV] ?? "").split(delimiter).filter(Boolean).map((d) => resolve(d));
+  return [...fromEnv, join(dir, "lib"), dir];
+}
+
+// Absolute path of the workflow file `ref` names, trying `ref`, `ref.yaml` and `ref.yml` in each directory.
+export function resolveWorkflowRef(ref: string, libraryPath: string[]): string | undefined {
+  for (const dir of libraryPath) {
+    for (const candidate of [ref, `${ref}.yaml`, `${ref}.yml`]) {
+      const p = resolve(dir, candidate);
+      if (existsSync(p) && statSync(p).isFile()) return p;
+    }
+  }
+  return undefined;
+}
+
+// Context key for a `use` action's result: the workflow name without directories and extension,
+// e.g. "quote_build_simulate" for `use: solana/quote_build_simulate.yaml`.
+export function subWorkflowKey(ref: string): string {
+  return basename(ref, extname(ref));
+}
+
+// The `use` actions of a workflow, with their position for error messages.
+export function workflowUses(workflow: Workflow): Array<{ action: WorkflowAction; label: string }> {
+  const out: Array<{ action: WorkflowAction; label: string }> = [];
+  workflow.stages.forEach((stage, i) => {
+    stage.actions.forEach((action, j) => {
+      if (action.use) out.push({ action, label: `stages[${i}].actions[${j}]` });
+    });
+    (stage.rollback ?? []).forEach((action, j) => {
+      if (action.use) out.push({ action, label: `stages[${i}].rollback[${j}]` });
+    });
+  });
+  return out;
+}
+
+// What a finished sub-workflow hands back to the `use` action.
+export function workflowOutputs(workflow: Workflow, ctx: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [name, path] of Object.entries(workflow.outputs ?? {})) out[name] = getByPath(ctx, path);
+  return out;
+}
@@ -0,0 +1,46 @@
+import type { WorkflowStage } from "./types.js";
+import { parseDuration } from "./duration.js";
+import { evaluateExpression, getByPath } from "./expression.js";
+
+// Stage loops: `foreach` runs the stage's actions once per item of a context list; `until` / `while` re-run a
+// monitor stage's actions until the condition holds (or stops holding), checked after each attempt.
+// Both are bounded. Each iteration is traced as its own step, `<stage>[<index>]`.
+
+export const DEFAULT_MAX_ITERATIONS = 100;
+export const DEFAULT_MAX_ATTEMPTS = 10;
+export const DEFAULT_POLL_INTERVAL = "5s";
+// upper bound for foreach.maxIterations and maxAttempts
+export const MAX_LOOP_BOUND = 1000;
+
+export function iterationStepId(stage: string, index: number): string {
+  return `${stage}[${index}]`;
+}
+
+// The list a foreach stage iterates over. Throws if it is not a list or exceeds the stage's bound.
+export function foreachItems(stage: WorkflowStage, ctx: Record<string, any>): unknown[] {
+  const fe = stage.foreach!;
+  const items = getByPath(ctx, fe.items);
+  if (!Array.isArray(items)) throw new Error(`Stage '${stage.name}': foreach items '${fe.items}' is not a list`);
+  const max = fe.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  if (items.length > max) {
+    throw new Error(`Stage '${stage.name}': ${items.length} items exceed foreach.maxIterations (${max})`);
+  }
+  return items;
+}
+
+export function pollSettings(stage: WorkflowStage): { maxAttempts: number; intervalMs: number } {
+  return {
+    maxAttempts: stage.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    intervalMs: parseDuration(stage.interval ?? DEFAULT_POLL_INTERVAL),
+  };
+}
+
+// Whether a polling stage can stop after the attempt that just ran.
+export function pollDone(stage: WorkflowStage, ctx: Record<string, any>): boolean {
+  return stage.until !== undefined ? evaluateExpression(stage.until, ctx) : !evaluateExpression(stage.while!, ctx);
+}
+
+export function pollExhaustedError(stage: WorkflowStage, attempts: number): Error {
+  const cond = stage.until !== undefined ? `until (${stage.until})` : `while (${stage.while})`;
+  return new Error(`Stage '${stage.name}': ${cond} not satisfied after ${attempts} attempts`);
+}
@@ -1,11 +1,26 @@
 import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
 import yaml from "js-yaml";
 import type { Workflow, WorkflowStage, WorkflowAction } from "./types.js";
+import { parseCron } from "./cron.js";
+import { parseDuration } from "./duration.js";
+import { expressionPaths, parseExpression } from "./expression.js";
+import { stageOrder } from "./dag.js";
+import { coerceInput, inputSchema, validateInputSpecs, type InputSchema } from "./inputs.js";
+import { resolveWorkflowRef, workflowLibraryPath, workflowUses } from "./library.js";
+import { MAX_LOOP_BOUND } from "./loops.js";
+import { BINDING_NAME, LEGACY_ALIAS_KEYS, actionResultKey, legacyToolAliases, templateReferences } from "./bindings.js";
 
 export interface ParseResult {
   ok: boolean;
   workflow?: Workflow;
   errors?: string[];
+  // problems that don't stop the workflow from running, e.g. ambiguous context references
+  warnings?: string[];
+  // JSON Schema of `inputs`, for hosts that render forms
+  inputSchema?: InputSchema;
+  // parseWorkflowFile: every workflow reachable through `use` actions, keyed by the `use` value
+  workflows?: Record<string, Workflow>;
 }
 
 export function parseWorkflow(content: string): ParseResult {
@@ -35,10 +50,26 @@ export function parseWorkflow(content: string): ParseResult {
     errors.push("Missing or invalid 'trigger' field (must be 'manual' or 'cron')");
   }
 
+  if (raw.trigger === "cron") {
+    const cron = raw.triggerConfig?.cron;
+    if (typeof cron !== "string" || !cron.trim()) {
+      errors.push("Missing 'triggerConfig.cron' for cron trigger");
+    } else {
+      try {
+        parseCron(cron);
+      } catch (e: any) {
+        errors.push(`Invalid 'triggerConfig.cron': ${e?.message ?? e}`);
+      }
+    }
+  }
+
   if (!Array.isArray(raw.stages) || raw.stages.length === 0) {
     errors.push("Missing or empty 'stages' array");
   }
 
+  errors.push(...validateInputSpecs(raw.inputs));
+  errors.push(...validateOutputs(raw.outputs));
+
   if (errors.length > 0) {
     return { ok: false, errors };
   }
@@ -56,15 +87,37 @@ export function parseWorkflow(content: string): ParseResult {
     stages.push({
       name: s.name,
       type: s.type,
-      actions: (s.actions || []).map((a: any) => ({
-        tool: a.tool,
-        params: a.params,
-      })),
+      actions: (s.actions || []).map(parseAction),
       when: s.when,
       approval: s.approval,
+      ...(s.timeout !== undefined ? { timeout: s.timeout } : {}),
+      ...(s.dependsOn !== undefined ? { dependsOn: s.dependsOn } : {}),
+      ...(s.parallel !== undefined ? { parallel: s.parallel } : {}),
+      ...(s.onError !== undefined ? { onError: s.onError } : {}),
+      ...(s.foreach !== undefined ? { foreach: s.foreach } : {}),
+      ...(s.until !== undefined ? { until: s.until } : {}),
+      ...(s.while !== undefined ? { while: s.while } : {}),
+      ...(s.interval !== undefined ? { interval: s.interval } : {}),
+      ...(s.maxAttempts !== undefined ? { maxAttempts: s.maxAttempts } : {}),
+      ...(s.rollback !== undefined
+        ? {
+            rollback: s.rollback.map((a: any) =>
+              a.use !== undefined ? { use: a.use, inputs: a.inputs } : { tool: a.tool, params: a.params }
+            ),
+          }
+        : {}),
     });
   }
 
+  const warnings: string[] = [];
+  if (errors.length === 0) {
+    errors.push(...validateDependencies(stages));
+    const refs = checkReferences(stages, raw.config?.legacyAliases !== false, Object.keys(raw.inputs ?? {}));
+    errors.push(...refs.errors);
+    warnings.push(...refs.warnings);
+  }
+  errors.push(...validateConfig(raw.config));
+
   if (errors.length > 0) {
     return { ok: false, errors };
   }
@@ -75,11 +128,266 @@ export function parseWorkflow(content: string): ParseResult {
     description: raw.description,
     trigger: raw.trigger,
     triggerConfig: raw.triggerConfig,
+    ...(raw.inputs ? { inputs: raw.inputs } : {}),
+    ...(raw.outputs ? { outputs: raw.outputs } : {}),
     stages,
     config: raw.config,
   };
 
-  return { ok: true, workflow };
+  return { ok: true, workflow, inputSchema: inputSchema(workflow.inputs), ...(warnings.length ? { warnings } : {}) };
+}
+
+function parseAction(a: any): WorkflowAction {
+  return {
+    ...(a.use !== undefined ? { use: a.use, inputs: a.inputs } : { tool: a.tool, params: a.params }),
+    ...(a.id !== undefined ? { id: a.id } : {}),
+    ...(a.as !== undefined ? { as: a.as } : {}),
+    ...(a.outputs !== undefined ? { outputs: a.outputs } : {}),
+  };
+}
+
+function durationError(value: unknown, label: string): string | null {
+  try {
+    parseDuration(value as any);
+    return null;
+  } catch (e: any) {
+    return `${label}: ${e?.message ?? e}`;
+  }
+}
+
+function expressionError(value: unknown, label: string): string | null {
+  if (typeof value !== "string") return `${label}: must be a string`;
+  try {
+    parseExpression(value);
+    return null;
+  } catch (e: any) {
+    return `${label}: ${e?.message ?? e}`;
+  }
+}
+
+function validateDependencies(stages: WorkflowStage[]): string[] {
+  if (!stages.some((s) => s.dependsOn)) return [];
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  stages.forEach((s, i) => {
+    if (names.has(s.name)) errors.push(`stages[${i}]: duplicate stage name '${s.name}' (names must be unique with dependsOn)`);
+    names.add(s.name);
+  });
+  stages.forEach((s, i) => {
+    for (const d of s.dependsOn ?? []) {
+      if (d === s.name) errors.push(`stages[${i}].dependsOn: stage cannot depend on itself`);
+      else if (!names.has(d)) errors.push(`stages[${i}].dependsOn: unknown stage '${d}'`);
+    }
+  });
+  if (errors.length) return errors;
+
+  try {
+    stageOrder(stages);
+  } catch (e: any) {
+    errors.push(String(e?.message ?? e));
+  }
+  return errors;
+}
+
+// Errors for duplicate action ids and `steps.<id>` / `inputs.<name>` references to undeclared names; warnings for references to keys
+// more than one action binds, and to legacy alias keys when legacy aliases are off.
+function checkReferences(
+  stages: WorkflowStage[],
+  legacyAliases: boolean,
+  inputs: string[]
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const ids = new Set<string>();
+  const producers = new Map<string, Set<string>>();
+  const produce = (key: string, by: string) => {
+    if (!producers.has(key)) producers.set(key, new Set());
+    producers.get(key)!.add(by);
+  };
+
+  const refs: Array<{ where: string; path: string }> = [];
+  stages.forEach((s, i) => {
+    const label = (j: number) => {
+      const a = s.actions[j];
+      return `stages[${i}].actions[${j}] (${a.use !== undefined ? `use ${a.use}` : a.tool})`;
+    };
+    // the stage key holds the last action's result, or { results, errors } for parallel stages
+    if (s.actions.length) produce(s.name, s.parallel ? `stages[${i}] (${s.name})` : label(s.actions.length - 1));
+
+    s.actions.forEach((a, j) => {
+      if (a.id) {
+        if (ids.has(a.id)) errors.push(`stages[${i}].actions[${j}].id: duplicate id '${a.id}'`);
+        ids.add(a.id);
+      }
+      produce(actionResultKey(a), label(j));
+      if (legacyAliases && a.tool) for (const key of legacyToolAliases(a.tool)) produce(key, label(j));
+      if (a.as) produce(a.as, label(j));
+      for (const name of Object.keys(a.outputs ?? {})) produce(name, label(j));
+      for (const path of templateReferences(a.params)) refs.push({ where: `stages[${i}].actions[${j}].params`, path });
+      for (const path of templateReferences(a.inputs)) refs.push({ where: `stages[${i}].actions[${j}].inputs`, path });
+    });
+    (s.rollback ?? []).forEach((a, j) => {
+      for (const path of templateReferences(a.params)) refs.push({ where: `stages[${i}].rollback[${j}].params`, path });
+      for (const path of templateReferences(a.inputs)) refs.push({ where: `stages[${i}].rollback[${j}].inputs`, path });
+    });
+    if (s.foreach) refs.push({ where: `stages[${i}].foreach.items`, path: s.foreach.items });
+    for (const key of ["when", "until", "while"] as const) {
+      const expr = s[key];
+      if (expr) for (const path of expressionPaths(parseExpression(expr))) refs.push({ where: `stages[${i}].${key}`, path });
+    }
+    (s.approval?.conditions ?? []).forEach((c, k) => {
+      for (const path of expressionPaths(parseExpression(c))) refs.push({ where: `stages[${i}].approval.conditions[${k}]`, path });
+    });
+  });
+
+  const warned = new Set<string>();
+  for (const { where, path } of refs) {
+    const [root, id] = path.split(".");
+    if (root === "steps") {
+      if (!id || !ids.has(id)) errors.push(`${where}: '${path}' references unknown step id '${id ?? ""}'`);
+      continue;
+    }
+    if (root === "inputs") {
+      if (!id || !inputs.includes(id)) errors.push(`${where}: '${path}' references undeclared input '${id ?? ""}'`);
+      continue;
+    }
+    if (warned.has(root)) continue;
+
+    const by = producers.get(root);
+    if (by && by.size > 1) {
+      warned.add(root);
+      warnings.push(`${where}: '${root}' is bound by ${[...by].join(", ")}; give the action an id and reference steps.<id>.result`);
+    } else if (!by && !legacyAliases && (LEGACY_ALIAS_KEYS as readonly string[]).includes(root)) {
+      warned.add(root);
+      warnings.push(`${where}: '${root}' is only set by legacy aliases, which config.legacyAliases: false turns off`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+function validateConfig(c: any): string[] {
+  if (c === undefined || c === null) return [];
+  if (typeof c !== "object") return ["config: must be an object"];
+
+  const errors: string[] = [];
+  if (c.maxRetries !== undefined && !(Number.isInteger(c.maxRetries) && c.maxRetries >= 0)) {
+    errors.push("config.maxRetries: must be a non-negative integer");
+  }
+  for (const key of ["rollbackOnFailure", "legacyAliases"]) {
+    if (c[key] !== undefined && typeof c[key] !== "boolean") errors.push(`config.${key}: must be a boolean`);
+  }
+  for (const key of ["timeout", "retryBackoff"]) {
+    if (c[key] === undefined) continue;
+    const err = durationError(c[key], `config.${key}`);
+    if (err) errors.push(err);
+  }
+  return errors;
+}
+
+// An action calls either a tool (`tool`, `params`) or a library workflow (`use`, `inputs`).
+function validateActionTarget(a: any, prefix: string): string[] {
+  if (a?.use === undefined) {
+    const errors = !a?.tool || typeof a.tool !== "string" ? [`${prefix}: missing or invalid 'tool'`] : [];
+    if (a?.inputs !== undefined) errors.push(`${prefix}.inputs: only applies to 'use' actions (tools take 'params')`);
+    return errors;
+  }
+  const errors: string[] = [];
+  if (typeof a.use !== "string" || !a.use.trim()) errors.push(`${prefix}.use: must be a workflow name`);
+  if (a.tool !== undefined || a.params !== undefined) errors.push(`${prefix}: 'use' cannot be combined with 'tool' or 'params'`);
+  if (a.inputs !== undefined && (!a.inputs || typeof a.inputs !== "object" || Array.isArray(a.inputs))) {
+    errors.push(`${prefix}.inputs: must map input names to values`);
+  }
+  return errors;
+}
+
+// `outputs:` maps names to context paths of the finished run.
+function validateOutputs(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (typeof raw !== "object" || Array.isArray(raw)) return ["outputs: must map names to context paths"];
+  const errors: string[] = [];
+  for (const [name, path] of Object.entries(raw)) {
+    if (!BINDING_NAME.test(name)) errors.push(`outputs: '${name}' must be an identifier (letters, digits, _)`);
+    if (typeof path !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/.test(path)) {
+      errors.push(`outputs.${name}: must be a context path, e.g. built.txB64`);
+    }
+  }
+  return errors;
+}
+
+function validateBindings(a: any, prefix: string): string[] {
+  if (!a || typeof a !== "object") return [];
+  const errors: string[] = [];
+  const name = (v: unknown) => typeof v === "string" && BINDING_NAME.test(v) && !v.startsWith("__") && v !== "steps";
+
+  if (a.id !== undefined && !name(a.id)) errors.push(`${prefix}.id: must be an identifier (letters, digits, _)`);
+  if (a.as !== undefined && !name(a.as)) errors.push(`${prefix}.as: must be an identifier (letters, digits, _) other than 'steps'`);
+  if (a.outputs !== undefined) {
+    if (!a.outputs || typeof a.outputs !== "object" || Array.isArray(a.outputs)) {
+      errors.push(`${prefix}.outputs: must map names to result paths`);
+    } else {
+      for (const [k, v] of Object.entries(a.outputs)) {
+        if (!name(k)) errors.push(`${prefix}.outputs: '${k}' must be an identifier (letters, digits, _)`);
+        if (typeof v !== "string" || !v) errors.push(`${prefix}.outputs.${k}: must be a path into the result`);
+      }
+    }
+  }
+  return errors;
+}
+
+function loopBoundError(value: unknown, label: string): string | null {
+  if (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_LOOP_BOUND) return null;
+  return `${label}: must be an integer from 1 to ${MAX_LOOP_BOUND}`;
+}
+
+function validateLoops(s: any, prefix: string): string[] {
+  const errors: string[] = [];
+  const polling = s.until !== undefined || s.while !== undefined;
+
+  if (s.foreach !== undefined) {
+    const fe = s.foreach;
+    if (!fe || typeof fe !== "object" || Array.isArray(fe)) {
+      errors.push(`${prefix}.foreach: must be an object with 'items'`);
+    } else {
+      if (typeof fe.items !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/.test(fe.items)) {
+        errors.push(`${prefix}.foreach.items: must be a context path, e.g. pools.items`);
+      }
+      if (fe.as !== undefined && (typeof fe.as !== "string" || !BINDING_NAME.test(fe.as) || ["steps", "inputs", "loop"].includes(fe.as))) {
+        errors.push(`${prefix}.foreach.as: must be an identifier other than steps, inputs and loop`);
+      }
+      if (fe.maxIterations !== undefined) {
+        const err = loopBoundError(fe.maxIterations, `${prefix}.foreach.maxIterations`);
+        if (err) errors.push(err);
+      }
+    }
+    if (s.type === "approval") errors.push(`${prefix}.foreach: approval stages have no actions to repeat`);
+    if (polling) errors.push(`${prefix}: foreach cannot be combined with until/while`);
+  }
+
+  if (polling) {
+    if (s.until !== undefined && s.while !== undefined) errors.push(`${prefix}: use either until or while, not both`);
+    if (s.type !== "monitor") errors.push(`${prefix}: until/while are only supported on monitor stages`);
+    for (const key of ["until", "while"]) {
+      if (s[key] === undefined) continue;
+      const err = expressionError(s[key], `${prefix}.${key}`);
+      if (err) errors.push(err);
+    }
+  }
+
+  for (const key of ["interval", "maxAttempts"]) {
+    if (s[key] !== undefined && !polling) errors.push(`${prefix}.${key}: only applies with until/while`);
+  }
+  if (polling && s.interval !== undefined) {
+    const err = durationError(s.interval, `${prefix}.interval`);
+    if (err) errors.push(err);
+  }
+  if (polling && s.maxAttempts !== undefined) {
+    const err = loopBoundError(s.maxAttempts, `${prefix}.maxAttempts`);
+    if (err) errors.push(err);
+  }
+  return errors;
 }
 
 function validateStage(s: any, index: number): string[] {
@@ -106,31 +414,148 @@ function validateStage(s: any, index: number): string[] {
     } else {
       for (let j = 0; j < s.actions.length; j++) {
         const a = s.actions[j];
-        if (!a?.tool || typeof a.tool !== "string") {
-          errors.push(`${prefix}.actions[${j}]: missing or invalid 'tool'`);
-        }
+        errors.push(...validateActionTarget(a, `${prefix}.actions[${j}]`));
+        errors.push(...validateBindings(a, `${prefix}.actions[${j}]`));
       }
     }
   }
 
+  if (s.dependsOn !== undefined) {
+    if (!Array.isArray(s.dependsOn) || s.dependsOn.some((d: unknown) => typeof d !== "string")) {
+      errors.push(`${prefix}.dependsOn: must be an array of stage names`);
+    }
+  }
+
+  if (s.parallel !== undefined) {
+    if (typeof s.parallel !== "boolean") {
+      errors.push(`${prefix}.parallel: must be a boolean`);
+    } else if (s.parallel && s.type === "approval") {
+      errors.push(`${prefix}.parallel: approval stages have no actions to run in parallel`);
+    } else if (s.parallel && Array.isArray(s.actions)) {
+      // parallel results are keyed by id or tool, so two unnamed actions of the same tool would collide
+      const keys = new Set<string>();
+      s.actions.forEach((a: any, j: number) => {
+        if (typeof a?.tool !== "string" && typeof a?.use !== "string") return;
+        const key = typeof a.id === "string" ? a.id : actionResultKey(a);
+        if (keys.has(key)) errors.push(`${prefix}.actions[${j}]: duplicate result key '${key}' in parallel stage`);
+        keys.add(key);
+      });
+    }
+  }
+
+  if (s.onError !== undefined) {
+    if (s.onError !== "fail-fast" && s.onError !== "collect") {
+      errors.push(`${prefix}.onError: must be 'fail-fast' or 'collect'`);
+    } else if (s.parallel !== true) {
+      errors.push(`${prefix}.onError: only applies to parallel stages`);
+    }
+  }
+
+  errors.push(...validateLoops(s, prefix));
+
+  if (s.timeout !== undefined) {
+    const err = durationError(s.timeout, `${prefix}.timeout`);
+    if (err) errors.push(err);
+  }
+
+  if (s.rollback !== undefined) {
+    if (!Array.isArray(s.rollback)) {
+      errors.push(`${prefix}.rollback: must be an array of actions`);
+    } else {
+      for (let j = 0; j < s.rollback.length; j++) {
+        errors.push(...validateActionTarget(s.rollback[j], `${prefix}.rollback[${j}]`));
+      }
+    }
+  }
+
+  if (s.when !== undefined) {
+    const err = expressionError(s.when, `${prefix}.when`);
+    if (err) errors.push(err);
+  }
+
   // Validate approval config if present
   if (s.type === "approval" && s.approval) {
     if (typeof s.approval.required !== "boolean") {
       errors.push(`${prefix}.approval: 'required' must be a boolean`);
     }
+    if (s.approval.timeout !== undefined) {
+      const err = durationError(s.approval.timeout, `${prefix}.approval.timeout`);
+      if (err) errors.push(err);
+    }
     if (s.approval.conditions && !Array.isArray(s.approval.conditions)) {
       errors.push(`${prefix}.approval: 'conditions' must be an array`);
+    } else {
+      (s.approval.conditions ?? []).forEach((c: unknown, j: number) => {
+        const err = expressionError(c, `${prefix}.approval.conditions[${j}]`);
+        if (err) errors.push(err);
+      });
     }
   }
 
   return errors;
 }
 
-export function parseWorkflowFile(path: string): ParseResult {
+// Parses a workflow file and every library workflow it reaches through `use` (see library.ts).
+export function parseWorkflowFile(path: string, opts: { libraryPath?: string[] } = {}): ParseResult {
+  const workflows: Record<string, Workflow> = {};
+  const result = parseFile(resolve(path), opts.libraryPath ?? workflowLibraryPath(path), [], workflows);
+  if (!result.ok || !Object.keys(workflows).length) return result;
+  return { ...result, workflows };
+}
+
+function parseFile(path: string, libraryPath: string[], stack: string[], workflows: Record<string, Workflow>): ParseResult {
+  let result: ParseResult;
   try {
-    const content = readFileSync(path, "utf-8");
-    return parseWorkflow(content);
+    result = parseWorkflow(readFileSync(path, "utf-8"));
   } catch (e: any) {
     return { ok: false, errors: [`Failed to read file: ${e?.message ?? e}`] };
   }
+  if (!result.ok || !result.workflow) return result;
+
+  const errors: string[] = [];
+  const chain = [...stack, path];
+  for (const { action, label } of workflowUses(result.workflow)) {
+    const ref = action.use!;
+    const subPath = resolveWorkflowRef(ref, libraryPath);
+    if (!subPath) {
+      errors.push(`${label}: workflow '${ref}' not found in library path (${libraryPath.join(", ")})`);
+      continue;
+    }
+    if (chain.includes(subPath)) {
+      const cycle = [...chain.slice(chain.indexOf(subPath)), subPath];
+      errors.push(`${label}: workflow cycle: ${cycle.join(" -> ")}`);
+      continue;
+    }
+    const sub = parseFile(subPath, libraryPath, chain, workflows);
+    if (!sub.ok || !sub.workflow) {
+      errors.push(...(sub.errors ?? []).map((e) => `${label} (use ${ref}): ${e}`));
+      continue;
+    }
+    workflows[ref] = sub.workflow;
+    errors.push(...checkSubWorkflowInputs(action, sub.workflow, label));
+  }
+  return errors.length ? { ok: false, errors } : result;
+}
+
+// `inputs` of a `use` action against the inputs the workflow declares. Templated values are checked at run time.
+function checkSubWorkflowInputs(action: WorkflowAction, sub: Workflow, label: string): string[] {
+  const errors: string[] = [];
+  const specs = sub.inputs ?? {};
+  const supplied = action.inputs ?? {};
+  for (const [name, value] of Object.entries(supplied)) {
+    const spec = specs[name];
+    if (!spec) {
+      errors.push(`${label}.inputs.${name}: workflow '${action.use}' has no input '${name}'`);
+      continue;
+    }
+    if (templateReferences(value).length) continue;
+    const r = coerceInput(spec, value);
+    if ("error" in r) errors.push(`${label}.inputs.${name}: ${r.error}`);
+  }
+  for (const [name, spec] of Object.entries(specs)) {
+    if (!(name in supplied) && spec.default === undefined && spec.required !== false) {
+      errors.push(`${label}.inputs: missing required input '${name}' of workflow '${action.use}'`);
+    }
+  }
+  return errors;
 }
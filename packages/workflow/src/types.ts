@@ -4,19 +4,66 @@ export interface Workflow {
   description?: string;
   trigger: "manual" | "cron";
   triggerConfig?: { cron?: string };
+  // run parameters, available as `inputs.<name>` (see inputs.ts)
+  inputs?: Record<string, WorkflowInput>;
+  // what a `use:` action running this workflow gets back: name -> context path, e.g. { txB64: built.txB64 }
+  outputs?: Record<string, string>;
   stages: WorkflowStage[];
   config?: {
+    // extra attempts for failed actions of non-broadcast tools
     maxRetries?: number;
+    // base delay before the first retry, doubled per attempt (default "500ms")
+    retryBackoff?: string;
+    // whole-run timeout, e.g. "10m"
     timeout?: string;
+    // on failure, run the `rollback` actions of completed stages in reverse stage order
     rollbackOnFailure?: boolean;
+    // also bind results to quote/built/simulation/submitted/opportunity/prices by tool name and result shape
+    // (default true; see bindings.ts)
+    legacyAliases?: boolean;
   };
 }
 
+export type WorkflowInputType = "string" | "number" | "boolean" | "amount" | "mint" | "address" | "bps";
+
+export interface WorkflowInput {
+  type: WorkflowInputType;
+  description?: string;
+  default?: string | number | boolean;
+  // defaults to true for inputs without a default
+  required?: boolean;
+  enum?: Array<string | number>;
+  // number, amount and bps
+  min?: number;
+  max?: number;
+}
+
 export interface WorkflowStage {
   name: string;
   type: "analysis" | "simulation" | "approval" | "execution" | "monitor";
   actions: WorkflowAction[];
-  when?: string; // TODO: DSL / CEL
+  when?: string; // see expression.ts
+  // stages that must finish first (see dag.ts); without it the stage waits for the one listed before it
+  dependsOn?: string[];
+  // run the actions concurrently; the stage finishes once all of them have
+  parallel?: boolean;
+  // parallel stages: "fail-fast" (default) fails on the first error, "collect" waits for every action
+  // and records failures instead
+  onError?: "fail-fast" | "collect";
+  timeout?: string;
+  // run the actions once per item of a context list (see loops.ts)
+  foreach?: {
+    items: string; // context path, e.g. "pools.items"
+    as?: string; // name of the current item (default "item")
+    maxIterations?: number; // default 100; more items fail the stage
+  };
+  // monitor stages: re-run the actions until the condition holds / while it holds, checked after each attempt
+  until?: string;
+  while?: string;
+  interval?: string; // between attempts (default "5s")
+  maxAttempts?: number; // default 10; running out fails the stage
+  // undo actions for this stage, run when a later stage fails and config.rollbackOnFailure is set
+  rollback?: WorkflowAction[];
   approval?: {
     required: boolean;
     timeout?: string;
@@ -24,7 +71,17 @@ export interface WorkflowStage {
   };
 }
 
+// Either a tool call (`tool` + `params`) or a sub-workflow call (`use` + `inputs`, see library.ts).
 export interface WorkflowAction {
-  tool: string;
+  tool?: string;
   params?: Record<string, unknown>;
+  // library workflow to run; its `outputs` are the action's result
+  use?: string;
+  inputs?: Record<string, unknown>;
+  // result is available as `steps.<id>.result`
+  id?: string;
+  // context key the result is bound to
+  as?: string;
+  // context keys bound to paths inside the result, e.g. { txB64: "txB64" }
+  outputs?: Record<string, string>;
 }
@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { nextCronTime, parseCron } from "../src/cron.js";
+
+const at = (iso: string) => Date.parse(iso);
+const iso = (ms: number | null) => (ms == null ? null : new Date(ms).toISOString());
+
+describe("cron", () => {
+  test("parses ranges, steps, lists and macros", () => {
+    const s = parseCron("*/15 9-17 * * 1-5");
+    expect([...s.minutes]).toEqual([0, 15, 30, 45]);
+    expect(s.hours.size).toBe(9);
+    expect([...s.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCron("@hourly").minutes]).toEqual([0]);
+    expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+  });
+
+  test("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("minute value 60 out of range 0-59");
+    expect(() => parseCron("* * * * mon")).toThrow("invalid day-of-week value 'mon'");
+    expect(() => parseCron("*/0 * * * *")).toThrow("invalid minute step");
+  });
+
+  test("computes the next matching minute in UTC", () => {
+    expect(iso(nextCronTime("*/5 * * * *", at("2026-03-01T10:02:30Z")))).toBe("2026-03-01T10:05:00.000Z");
+    expect(iso(nextCronTime("*/5 * * * *", at("2026-03-01T10:05:00Z")))).toBe("2026-03-01T10:10:00.000Z");
+    expect(iso(nextCronTime("0 9 * * *", at("2026-03-01T10:00:00Z")))).toBe("2026-03-02T09:00:00.000Z");
+    expect(iso(nextCronTime("30 0 1 * *", at("2026-12-15T00:00:00Z")))).toBe("2027-01-01T00:30:00.000Z");
+    // 2026-03-02 is a Monday
+    expect(iso(nextCronTime("0 12 * * 1", at("2026-02-28T00:00:00Z")))).toBe("2026-03-02T12:00:00.000Z");
+  });
+
+  test("day-of-month and day-of-week match either when both are set", () => {
+    // the 15th, or any Sunday (2026-03-08 is a Sunday)
+    expect(iso(nextCronTime("0 0 15 * 0", at("2026-03-02T00:00:00Z")))).toBe("2026-03-08T00:00:00.000Z");
+  });
+
+  test("returns null for expressions that never match", () => {
+    expect(nextCronTime("0 0 30 2 *", at("2026-01-01T00:00:00Z"))).toBe(null);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { WorkflowEngine, createToolMap, type ToolDefinition, type Dict } from "../src/engine.js";
+import { WorkflowEngine, WorkflowTimeoutError, createToolMap, type ToolDefinition, type Dict } from "../src/engine.js";
 import type { Workflow } from "../src/types.js";
 
 describe("WorkflowEngine", () => {
@@ -202,6 +202,58 @@ describe("WorkflowEngine", () => {
     expect(result.error).toContain("conditions failed");
   });
 
+  test("approval expires after approval.timeout", async () => {
+    let signal: AbortSignal | undefined;
+    const timeouts: WorkflowTimeoutError[] = [];
+    const engine = new WorkflowEngine({
+      tools: createToolMap(mockTools),
+      // an approver that never answers
+      onApprovalRequired: (_stage, ctx) => {
+        signal = ctx.__signal;
+        return new Promise(() => {});
+      },
+      onTimeout: async (e) => {
+        timeouts.push(e);
+      },
+    });
+
+    const result = await engine.run({
+      name: "test",
+      version: "1.0",
+      trigger: "manual",
+      stages: [
+        { name: "approve", type: "approval", actions: [], approval: { required: true, timeout: "20ms" } },
+        { name: "after", type: "analysis", actions: [{ tool: "get_price", params: { token: "SOL" } }] },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.error).toBe("Approval for stage 'approve' expired after 20ms");
+    expect(timeouts[0]).toMatchObject({ scope: "approval", stage: "approve", timeoutMs: 20 });
+    expect(signal?.reason).toBe(timeouts[0]);
+    expect(result.context.after).toBeUndefined();
+  });
+
+  test("approvalTimeout applies to approval stages without their own timeout", async () => {
+    const engine = new WorkflowEngine({
+      tools: createToolMap(mockTools),
+      approvalTimeout: "20ms",
+      onApprovalRequired: () => new Promise(() => {}),
+    });
+
+    const result = await engine.run({
+      name: "test",
+      version: "1.0",
+      trigger: "manual",
+      stages: [
+        { name: "approve", type: "approval", actions: [], approval: { required: true } },
+        { name: "approve_later", type: "approval", actions: [], approval: { required: true, timeout: "1h" } },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe("Approval for stage 'approve' expired after 20ms");
+  });
+
   test("policy check blocks broadcast", async () => {
     const workflow: Workflow = {
       name: "test",
@@ -290,4 +342,606 @@ describe("WorkflowEngine", () => {
     expect(result.ok).toBe(false);
     expect(result.error).toContain("Unknown tool");
   });
+
+  describe("workflow config", () => {
+    const flaky = (failures: number, sideEffect: "none" | "broadcast" = "none") => {
+      let calls = 0;
+      const tool: ToolDefinition = {
+        name: sideEffect === "none" ? "flaky_read" : "flaky_send",
+        meta: { action: "test", sideEffect },
+        async execute() {
+          calls++;
+          if (calls <= failures) throw new Error(`fail #${calls}`);
+          return { calls };
+        },
+      };
+      return { tool, calls: () => calls };
+    };
+
+    const single = (tool: string, config: Workflow["config"]): Workflow => ({
+      name: "cfg",
+      version: "1.0",
+      trigger: "manual",
+      stages: [{ name: "step", type: "analysis", actions: [{ tool }] }],
+      config,
+    });
+
+    test("retries non-broadcast actions with backoff", async () => {
+      const f = flaky(2);
+      const retries: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([f.tool]),
+        onActionRetry: async (_a, _t, attempt, error) => {
+          retries.push(`${attempt}:${error.message}`);
+        },
+      });
+
+      const result = await engine.run(single("flaky_read", { maxRetries: 2, retryBackoff: "1ms" }));
+      expect(result.ok).toBe(true);
+      expect(result.context.step).toEqual({ calls: 3 });
+      expect(retries).toEqual(["1:fail #1", "2:fail #2"]);
+
+      const g = flaky(5);
+      const failed = await new WorkflowEngine({ tools: createToolMap([g.tool]) }).run(
+        single("flaky_read", { maxRetries: 1, retryBackoff: "1ms" })
+      );
+      expect(failed.ok).toBe(false);
+      expect(g.calls()).toBe(2);
+    });
+
+    test("never retries broadcasts", async () => {
+      const f = flaky(1, "broadcast");
+      const engine = new WorkflowEngine({ tools: createToolMap([f.tool]) });
+      const result = await engine.run(single("flaky_send", { maxRetries: 3, retryBackoff: "1ms" }));
+      expect(result.ok).toBe(false);
+      expect(f.calls()).toBe(1);
+    });
+
+    test("stage and run timeouts abort the run", async () => {
+      let signal: AbortSignal | undefined;
+      const slow: ToolDefinition = {
+        name: "slow",
+        meta: { action: "test", sideEffect: "none" },
+        execute: (_p, ctx) => {
+          signal = ctx.__signal;
+          return new Promise((res) => setTimeout(() => res({ late: true }), 200));
+        },
+      };
+      const timeouts: WorkflowTimeoutError[] = [];
+      const stageEnds: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([slow, ...mockTools]),
+        onTimeout: async (e) => {
+          timeouts.push(e);
+        },
+        onStageEnd: async (stage, _ctx, error) => {
+          stageEnds.push(`${stage.name}:${error?.message ?? "ok"}`);
+        },
+      });
+
+      const wf: Workflow = {
+        name: "t",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          { name: "wait", type: "analysis", timeout: "20ms", actions: [{ tool: "slow" }] },
+          { name: "after", type: "analysis", actions: [{ tool: "get_price" }] },
+        ],
+      };
+      const result = await engine.run(wf);
+      expect(result.ok).toBe(false);
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toBe("Stage 'wait' timed out after 20ms");
+      expect(timeouts[0].scope).toBe("stage");
+      expect(signal?.aborted).toBe(true);
+      expect(stageEnds).toEqual(["wait:Stage 'wait' timed out after 20ms"]);
+
+      const whole = await engine.run({ ...wf, stages: [{ ...wf.stages[0], timeout: undefined }], config: { timeout: "20ms" } });
+      expect(whole.timedOut).toBe(true);
+      expect(whole.error).toBe("Workflow timed out after 20ms");
+      expect(timeouts[1].scope).toBe("run");
+
+      // the abandoned action finishing later does not write into the context
+      await new Promise((res) => setTimeout(res, 250));
+      expect(whole.context.wait).toBeUndefined();
+    });
+
+    test("a timeout waits for a broadcast in flight and its onActionEnd before rollback", async () => {
+      const events: string[] = [];
+      const tool = (name: string, sideEffect: "none" | "broadcast", ms = 0): ToolDefinition => ({
+        name,
+        meta: { action: "test", sideEffect },
+        async execute() {
+          await new Promise((res) => setTimeout(res, ms));
+          events.push(`executed:${name}`);
+          return { ok: true, from: name };
+        },
+      });
+      const engine = new WorkflowEngine({
+        tools: createToolMap([tool("open", "none"), tool("close", "none"), tool("send", "broadcast", 60)]),
+        onActionEnd: async (_action, t) => {
+          events.push(`end:${t.name}`);
+        },
+        onTimeout: async (e) => {
+          events.push(`timeout:${e.scope}`);
+        },
+      });
+
+      const result = await engine.run({
+        name: "t",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          { name: "prepare", type: "analysis", actions: [{ tool: "open" }], rollback: [{ tool: "close" }] },
+          { name: "execute", type: "execution", timeout: "20ms", actions: [{ tool: "send" }] },
+        ],
+        config: { rollbackOnFailure: true },
+      });
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toBe("Stage 'execute' timed out after 20ms");
+      expect(result.context.execute).toEqual({ ok: true, from: "send" });
+      expect(events).toEqual([
+        "executed:open",
+        "end:open",
+        "executed:send",
+        "end:send",
+        "timeout:stage",
+        "executed:close",
+        "end:close",
+      ]);
+    });
+
+    test("rolls back completed stages in reverse order", async () => {
+      const calls: string[] = [];
+      const rec = (name: string, fail = false): ToolDefinition => ({
+        name,
+        meta: { action: "test", sideEffect: "none" },
+        async execute(params) {
+          calls.push(params.tag ? `${name}:${params.tag}` : name);
+          if (fail) throw new Error(`${name} failed`);
+          return { ok: true };
+        },
+      });
+      const rolled: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([rec("open"), rec("close"), rec("boom", true)]),
+        onRollback: async (stage, _ctx, error) => {
+          rolled.push(`${stage.name}:${error ? "error" : "ok"}`);
+        },
+      });
+
+      const wf: Workflow = {
+        name: "rb",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          { name: "a", type: "execution", actions: [{ tool: "open", params: { tag: "a" } }], rollback: [{ tool: "close", params: { tag: "a" } }] },
+          { name: "b", type: "execution", actions: [{ tool: "open", params: { tag: "b" } }], rollback: [{ tool: "close", params: { tag: "b" } }] },
+          { name: "c", type: "execution", actions: [{ tool: "boom" }], rollback: [{ tool: "close", params: { tag: "c" } }] },
+        ],
+        config: { rollbackOnFailure: true },
+      };
+
+      const result = await engine.run(wf);
+      expect(result.ok).toBe(false);
+      expect(result.error).toBe("boom failed");
+      expect(calls).toEqual(["open:a", "open:b", "boom", "close:b", "close:a"]);
+      expect(result.rolledBack).toEqual(["b", "a"]);
+      expect(rolled).toEqual(["b:ok", "a:ok"]);
+
+      calls.length = 0;
+      const off = await engine.run({ ...wf, config: {} });
+      expect(off.rolledBack).toBeUndefined();
+      expect(calls).toEqual(["open:a", "open:b", "boom"]);
+    });
+  });
+
+  describe("parallel stages and dependsOn", () => {
+    // resolves after `ms`; records start/end order
+    const timed = (name: string, ms: number, log: string[], fail = false): ToolDefinition => ({
+      name,
+      meta: { action: "test", sideEffect: "none" },
+      async execute() {
+        log.push(`start:${name}`);
+        await new Promise((res) => setTimeout(res, ms));
+        log.push(`end:${name}`);
+        if (fail) throw new Error(`${name} failed`);
+        return { from: name };
+      },
+    });
+
+    test("runs a parallel stage's actions concurrently and joins their results", async () => {
+      const log: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([timed("jupiter_quote", 30, log), timed("meteora_quote", 10, log), timed("raydium_quote", 20, log)]),
+      });
+      const result = await engine.run({
+        name: "p",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          {
+            name: "quotes",
+            type: "analysis",
+            parallel: true,
+            actions: [{ tool: "jupiter_quote" }, { tool: "meteora_quote" }, { tool: "raydium_quote" }],
+          },
+        ],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(log.slice(0, 3)).toEqual(["start:jupiter_quote", "start:meteora_quote", "start:raydium_quote"]);
+      expect(result.context.quotes).toEqual({
+        results: { quote: { from: "jupiter_quote" }, meteora_quote: { from: "meteora_quote" }, raydium_quote: { from: "raydium_quote" } },
+        errors: {},
+      });
+      expect(result.context.meteora_quote).toEqual({ from: "meteora_quote" });
+      // the shared alias follows declared order, not completion order
+      expect(result.context.quote).toEqual({ from: "raydium_quote" });
+    });
+
+    test("fail-fast fails on the first error, collect records it", async () => {
+      const log: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([timed("slow_quote", 40, log), timed("bad_quote", 5, log, true)]),
+      });
+      const wf = (onError?: "fail-fast" | "collect"): Workflow => ({
+        name: "p",
+        version: "1.0",
+        trigger: "manual",
+        stages: [{ name: "quotes", type: "analysis", parallel: true, onError, actions: [{ tool: "slow_quote" }, { tool: "bad_quote" }] }],
+      });
+
+      const fast = await engine.run(wf());
+      expect(fast.ok).toBe(false);
+      expect(fast.error).toBe("bad_quote failed");
+      expect(log).not.toContain("end:slow_quote");
+
+      await new Promise((res) => setTimeout(res, 50));
+      const collected = await engine.run(wf("collect"));
+      expect(collected.ok).toBe(true);
+      expect(collected.context.quotes).toEqual({ results: { slow_quote: { from: "slow_quote" } }, errors: { bad_quote: "bad_quote failed" } });
+      expect(collected.context.bad_quote).toBeUndefined();
+    });
+
+    test("starts stages once their dependencies finish", async () => {
+      const log: string[] = [];
+      const stageLog: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([timed("a", 30, log), timed("b", 10, log), timed("c", 5, log)]),
+        onActionEnd: async (_a, tool, _r, _ctx, stage) => {
+          stageLog.push(`${stage.name}:${tool.name}`);
+        },
+      });
+      const result = await engine.run({
+        name: "dag",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          { name: "join", type: "analysis", dependsOn: ["left", "right"], actions: [{ tool: "c" }] },
+          { name: "left", type: "analysis", dependsOn: [], actions: [{ tool: "a" }] },
+          { name: "right", type: "analysis", dependsOn: [], actions: [{ tool: "b" }] },
+        ],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(log).toEqual(["start:a", "start:b", "end:b", "end:a", "start:c", "end:c"]);
+      expect(stageLog).toEqual(["right:b", "left:a", "join:c"]);
+    });
+
+    test("a failing stage stops dependents and waits for running siblings", async () => {
+      const log: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([timed("a", 20, log), timed("boom", 5, log, true), timed("c", 5, log)]),
+      });
+      const result = await engine.run({
+        name: "dag",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          { name: "left", type: "analysis", dependsOn: [], actions: [{ tool: "a" }] },
+          { name: "right", type: "analysis", dependsOn: [], actions: [{ tool: "boom" }] },
+          { name: "join", type: "analysis", dependsOn: ["left", "right"], actions: [{ tool: "c" }] },
+        ],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toBe("boom failed");
+      expect(log).toEqual(["start:a", "start:boom", "end:boom", "end:a"]);
+      expect(result.context.left).toBeUndefined();
+    });
+  });
+
+  test("binds results by id, as and outputs; legacy aliases can be turned off", async () => {
+    const engine = new WorkflowEngine({ tools: createToolMap(mockTools) });
+    const wf = (legacyAliases?: boolean): Workflow => ({
+      name: "bind",
+      version: "1.0",
+      trigger: "manual",
+      stages: [
+        {
+          name: "quote_stage",
+          type: "analysis",
+          actions: [{ tool: "get_price", id: "sol", as: "solPrice", outputs: { px: "price" }, params: { token: "SOL" } }],
+        },
+        {
+          name: "send",
+          type: "execution",
+          actions: [{ tool: "send_tx", id: "send", params: { amount: "{{ steps.sol.result.price }}/{{ px }}" } }],
+        },
+      ],
+      config: { legacyAliases },
+    });
+
+    const legacy = await engine.run(wf());
+    expect(legacy.ok).toBe(true);
+    expect(legacy.context.steps.sol).toEqual({ result: { price: 100, token: "SOL" }, outputs: { px: 100 } });
+    expect(legacy.context.solPrice).toEqual({ price: 100, token: "SOL" });
+    expect(legacy.context.steps.send.result).toEqual({ txHash: "mock_tx_123", amount: "100/100" });
+    expect(legacy.context.submitted?.txHash).toBe("mock_tx_123");
+
+    const explicit = await engine.run(wf(false));
+    expect(explicit.ok).toBe(true);
+    expect(explicit.context.steps.send.result.amount).toBe("100/100");
+    expect(explicit.context.submitted).toBeUndefined();
+    // deterministic keys stay
+    expect(explicit.context.send).toEqual(explicit.context.steps.send.result);
+  });
+
+  test("exposes typed inputs and rejects invalid ones before any stage runs", async () => {
+    const calls: Dict[] = [];
+    const engine = new WorkflowEngine({
+      tools: createToolMap([
+        {
+          name: "record",
+          meta: { action: "test", sideEffect: "none" },
+          async execute(params) {
+            calls.push(params);
+            return { ok: true };
+          },
+        },
+      ]),
+    });
+    const wf: Workflow = {
+      name: "inputs",
+      version: "1.0",
+      trigger: "manual",
+      inputs: { amount: { type: "amount" }, slippageBps: { type: "bps", default: 50 } },
+      stages: [
+        {
+          name: "go",
+          type: "analysis",
+          when: "inputs.amount < 1",
+          actions: [{ tool: "record", params: { amount: "{{ inputs.amount }}", bps: "{{ inputs.slippageBps }}" } }],
+        },
+      ],
+    };
+
+    const ok = await engine.run(wf, { inputs: { amount: "0.25" } });
+    expect(ok.ok).toBe(true);
+    expect(ok.context.inputs).toEqual({ amount: 0.25, slippageBps: 50 });
+    expect(calls).toEqual([{ amount: "0.25", bps: "50" }]);
+
+    const bad = await engine.run(wf, { inputs: { amount: "-1" } });
+    expect(bad.ok).toBe(false);
+    expect(bad.error).toBe("Invalid inputs: input 'amount' must be a positive decimal amount");
+    expect(calls).toHaveLength(1);
+  });
+
+  describe("loops", () => {
+    const echo = (calls: Dict[]): ToolDefinition => ({
+      name: "echo",
+      meta: { action: "test", sideEffect: "none" },
+      async execute(params) {
+        calls.push(params);
+        return { ...params };
+      },
+    });
+
+    test("foreach runs the actions once per item and collects the stage results", async () => {
+      const calls: Dict[] = [];
+      const iterations: string[] = [];
+      const steps: string[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([echo(calls)]),
+        onIterationStart: async (stage, i) => {
+          iterations.push(`start:${stage.name}:${i}`);
+        },
+        onIterationEnd: async (stage, i, _ctx, error) => {
+          iterations.push(`end:${stage.name}:${i}${error ? ":error" : ""}`);
+        },
+        onActionStart: async (_action, _tool, _params, _ctx, step) => {
+          steps.push(step.name);
+        },
+      });
+      const wf: Workflow = {
+        name: "each",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          {
+            name: "quotes",
+            type: "analysis",
+            foreach: { items: "pairs", as: "pair" },
+            actions: [{ tool: "echo", params: { mint: "{{ pair.mint }}", i: "{{ loop.index }}", n: "{{ loop.count }}" } }],
+          },
+        ],
+      };
+
+      const result = await engine.run(wf, { pairs: [{ mint: "A" }, { mint: "B" }] });
+      expect(result.ok).toBe(true);
+      expect(calls).toEqual([
+        { mint: "A", i: "0", n: "2" },
+        { mint: "B", i: "1", n: "2" },
+      ]);
+      expect(result.context.quotes).toEqual(calls);
+      expect(result.context.pair).toBeUndefined();
+      expect(result.context.loop).toBeUndefined();
+      expect(iterations).toEqual(["start:quotes:0", "end:quotes:0", "start:quotes:1", "end:quotes:1"]);
+      expect(steps).toEqual(["quotes[0]", "quotes[1]"]);
+    });
+
+    test("foreach fails the stage when the items are not a list or exceed maxIterations", async () => {
+      const calls: Dict[] = [];
+      const engine = new WorkflowEngine({ tools: createToolMap([echo(calls)]) });
+      const wf: Workflow = {
+        name: "each",
+        version: "1.0",
+        trigger: "manual",
+        stages: [{ name: "go", type: "analysis", foreach: { items: "list", maxIterations: 2 }, actions: [{ tool: "echo" }] }],
+      };
+
+      const tooMany = await engine.run(wf, { list: [1, 2, 3] });
+      expect(tooMany.ok).toBe(false);
+      expect(tooMany.error).toBe("Stage 'go': 3 items exceed foreach.maxIterations (2)");
+
+      const notList = await engine.run(wf, { list: "x" });
+      expect(notList.ok).toBe(false);
+      expect(notList.error).toBe("Stage 'go': foreach items 'list' is not a list");
+      expect(calls).toHaveLength(0);
+    });
+
+    test("until re-runs a monitor stage until the condition holds", async () => {
+      let n = 0;
+      const engine = new WorkflowEngine({
+        tools: createToolMap([
+          {
+            name: "solana_get_status",
+            meta: { action: "test", sideEffect: "none" },
+            async execute() {
+              n++;
+              return { confirmed: n >= 3 };
+            },
+          },
+        ]),
+      });
+      const wf = (maxAttempts: number): Workflow => ({
+        name: "poll",
+        version: "1.0",
+        trigger: "manual",
+        stages: [
+          {
+            name: "confirm",
+            type: "monitor",
+            until: "get_status.confirmed == true",
+            interval: "1ms",
+            maxAttempts,
+            actions: [{ tool: "solana_get_status" }],
+          },
+        ],
+      });
+
+      const ok = await engine.run(wf(5));
+      expect(ok.ok).toBe(true);
+      expect(n).toBe(3);
+      expect(ok.context.loop).toBeUndefined();
+
+      n = 0;
+      const exhausted = await engine.run(wf(2));
+      expect(exhausted.ok).toBe(false);
+      expect(exhausted.error).toBe("Stage 'confirm': until (get_status.confirmed == true) not satisfied after 2 attempts");
+      expect(n).toBe(2);
+    });
+
+    test("while polls as long as the condition holds", async () => {
+      let n = 0;
+      const engine = new WorkflowEngine({
+        tools: createToolMap([
+          {
+            name: "pending",
+            meta: { action: "test", sideEffect: "none" },
+            async execute() {
+              n++;
+              return { count: 2 - n };
+            },
+          },
+        ]),
+      });
+      const result = await engine.run({
+        name: "poll",
+        version: "1.0",
+        trigger: "manual",
+        stages: [{ name: "drain", type: "monitor", while: "pending.count > 0", interval: "1ms", actions: [{ tool: "pending" }] }],
+      });
+      expect(result.ok).toBe(true);
+      expect(n).toBe(2);
+    });
+  });
+
+  describe("sub-workflows", () => {
+    const double: ToolDefinition = {
+      name: "double",
+      meta: { action: "test", sideEffect: "none" },
+      async execute(params) {
+        if (Number(params.n) < 0) throw new Error("negative");
+        return { value: Number(params.n) * 2 };
+      },
+    };
+    const lib: Workflow = {
+      name: "doubler",
+      version: "1.0",
+      trigger: "manual",
+      inputs: { n: { type: "number" } },
+      outputs: { doubled: "double.value" },
+      stages: [{ name: "work", type: "analysis", actions: [{ tool: "double", params: { n: "{{ inputs.n }}" } }] }],
+    };
+    const caller = (n: string): Workflow => ({
+      name: "caller",
+      version: "1.0",
+      trigger: "manual",
+      stages: [
+        {
+          name: "prep",
+          type: "analysis",
+          actions: [{ use: "lib/doubler", inputs: { n }, outputs: { twice: "doubled" } }],
+        },
+        { name: "use_it", type: "analysis", actions: [{ tool: "double", params: { n: "{{ twice }}" } }] },
+      ],
+    });
+
+    test("runs the workflow as a linked sub-run and binds its outputs", async () => {
+      const calls: string[] = [];
+      const subRuns: Dict[] = [];
+      const engine = new WorkflowEngine({
+        tools: createToolMap([double]),
+        workflows: { "lib/doubler": lib },
+        onStageStart: async (stage, ctx) => {
+          calls.push(`${ctx.__runId}:${stage.name}`);
+        },
+        onSubWorkflowStart: async (action, workflow, runId, inputs, ctx, stage) => {
+          subRuns.push({ workflow: workflow.name, runId, inputs, parent: ctx.__runId, step: stage.name });
+        },
+        onSubWorkflowEnd: async (action, workflow, result) => {
+          subRuns.push({ ok: result.ok, runId: result.runId, parentRunId: result.context.__parentRunId, host: result.context.__host });
+        },
+      });
+
+      const result = await engine.run(caller("{{ start }}"), { __runId: "run_main", __host: "cli", start: 3 });
+      expect(result.ok).toBe(true);
+      expect(result.runId).toBe("run_main");
+      expect(result.context.doubler).toEqual({ doubled: 6 });
+      expect(result.context.twice).toBe(6);
+      expect(result.context.double).toEqual({ value: 12 });
+
+      const [start, end] = subRuns;
+      expect(start).toEqual({ workflow: "doubler", runId: expect.any(String), inputs: { n: "3" }, parent: "run_main", step: "prep" });
+      expect(end).toEqual({ ok: true, runId: start.runId, parentRunId: "run_main", host: "cli" });
+      expect(calls).toEqual(["run_main:prep", `${start.runId}:work`, "run_main:use_it"]);
+    });
+
+    test("fails the calling action when the sub-run fails", async () => {
+      const engine = new WorkflowEngine({ tools: createToolMap([double]), workflows: { "lib/doubler": lib } });
+
+      const failed = await engine.run(caller("-1"));
+      expect(failed.ok).toBe(false);
+      expect(failed.error).toBe("Workflow 'lib/doubler' failed: negative");
+
+      const invalid = await engine.run(caller("lots"));
+      expect(invalid.ok).toBe(false);
+      expect(invalid.error).toBe("Workflow 'lib/doubler' failed: Invalid inputs: input 'n' must be a number");
+
+      const unknown = await new WorkflowEngine({ tools: createToolMap([double]) }).run(caller("1"));
+      expect(unknown.error).toBe("Unknown workflow: lib/doubler");
+    });
+  });
 });
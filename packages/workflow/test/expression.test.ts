@@ -0,0 +1,47 @@
+import { describe, test, expect } from "bun:test";
+import { evaluateExpression, ExpressionParseError, parseExpression } from "../src/expression.js";
+
+const ctx = {
+  simulation: { ok: true, profitUsd: 75, status: "done" },
+  opportunity: { profit: 12, minProfit: 10, sourceChain: "sui" },
+  quote: { routes: [{ label: "Orca" }] },
+  empty: null,
+};
+
+describe("workflow expressions", () => {
+  test("keeps the single comparison form", () => {
+    expect(evaluateExpression("simulation.ok == true", ctx)).toBe(true);
+    expect(evaluateExpression("opportunity.profit > 10", ctx)).toBe(true);
+    expect(evaluateExpression("simulation.status == 'done'", ctx)).toBe(true);
+    expect(evaluateExpression("simulation.status != \"done\"", ctx)).toBe(false);
+  });
+
+  test("combines with && || ! and parentheses", () => {
+    expect(evaluateExpression("simulation.ok && simulation.profitUsd > 50", ctx)).toBe(true);
+    expect(evaluateExpression("!simulation.ok || opportunity.profit >= 100", ctx)).toBe(false);
+    expect(evaluateExpression("not (simulation.ok and opportunity.sourceChain == 'bnb')", ctx)).toBe(true);
+    expect(evaluateExpression("(opportunity.profit > 100 || simulation.ok) && quote.routes.0.label == 'Orca'", ctx)).toBe(true);
+  });
+
+  test("compares two context paths", () => {
+    expect(evaluateExpression("opportunity.profit > opportunity.minProfit", ctx)).toBe(true);
+    expect(evaluateExpression("opportunity.profit <= opportunity.minProfit", ctx)).toBe(false);
+  });
+
+  test("existence checks and missing paths", () => {
+    expect(evaluateExpression("exists(simulation.status)", ctx)).toBe(true);
+    expect(evaluateExpression("exists(empty)", ctx)).toBe(false);
+    expect(evaluateExpression("exists(nope.deeper)", ctx)).toBe(false);
+    expect(evaluateExpression("nope.value > -1", ctx)).toBe(false);
+    expect(evaluateExpression("nope.value != 1", ctx)).toBe(true);
+    expect(evaluateExpression("empty == null", ctx)).toBe(true);
+  });
+
+  test("reports parse errors with a position", () => {
+    expect(() => parseExpression("simulation.ok ==")).toThrow("Parse error at position 16: expected value, path or '(' but found end of input");
+    expect(() => parseExpression("(a > 1")).toThrow("expected ')'");
+    expect(() => parseExpression("a > 1 b")).toThrow("expected end of expression but found identifier 'b'");
+    expect(() => parseExpression("a = 1")).toThrow(ExpressionParseError);
+    expect(() => evaluateExpression("exists(1)", ctx)).toThrow("expected path but found number 1");
+  });
+});
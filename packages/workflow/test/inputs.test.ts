@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import { MINT_SYMBOLS, coerceInput, inputSchema, resolveInputs, validateInputSpecs } from "../src/inputs.js";
+import type { WorkflowInput } from "../src/types.js";
+
+describe("workflow inputs", () => {
+  const specs: Record<string, WorkflowInput> = {
+    amount: { type: "amount", default: 0.01, max: 5 },
+    outputMint: { type: "mint", default: "USDC" },
+    to: { type: "address" },
+    slippageBps: { type: "bps", default: 50 },
+    dryRun: { type: "boolean", required: false },
+    venue: { type: "string", enum: ["jupiter", "meteora"], default: "jupiter" },
+  };
+  const to = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+  test("coerces CLI strings to the declared types", () => {
+    expect(coerceInput({ type: "amount" }, "0.1")).toEqual({ value: 0.1 });
+    expect(coerceInput({ type: "amount" }, "0")).toEqual({ error: "must be a positive decimal amount" });
+    expect(coerceInput({ type: "amount" }, "1e3")).toEqual({ error: "must be a positive decimal amount" });
+    expect(coerceInput({ type: "bps" }, "75")).toEqual({ value: 75 });
+    expect(coerceInput({ type: "bps" }, "10001")).toHaveProperty("error");
+    expect(coerceInput({ type: "bps" }, "7.5")).toHaveProperty("error");
+    expect(coerceInput({ type: "mint" }, "usdc")).toEqual({ value: MINT_SYMBOLS.USDC });
+    expect(coerceInput({ type: "mint" }, "BONK")).toEqual({ error: "must be a mint address or one of SOL, WSOL, USDC, USDT" });
+    expect(coerceInput({ type: "address" }, `0x${"ab".repeat(20)}`)).toEqual({ value: `0x${"ab".repeat(20)}` });
+    expect(coerceInput({ type: "address" }, "0OIl")).toHaveProperty("error");
+    expect(coerceInput({ type: "boolean" }, "yes")).toEqual({ value: true });
+    expect(coerceInput({ type: "number", min: 1 }, "0.5")).toEqual({ error: "must be at least 1" });
+  });
+
+  test("applies defaults and reports missing, unknown and invalid values", () => {
+    expect(resolveInputs(specs, { to, amount: "0.5", outputMint: "SOL" })).toEqual({
+      values: { amount: 0.5, outputMint: MINT_SYMBOLS.SOL, to, slippageBps: 50, venue: "jupiter" },
+      errors: [],
+    });
+    expect(resolveInputs(specs, { amount: "9", venue: "raydium", extra: "1" }).errors).toEqual([
+      "unknown input 'extra'",
+      "input 'amount' must be at most 5",
+      "missing required input 'to'",
+      "input 'venue' must be one of jupiter, meteora",
+    ]);
+  });
+
+  test("validates input definitions", () => {
+    expect(validateInputSpecs(specs)).toEqual([]);
+    expect(
+      validateInputSpecs({
+        "bad-name": { type: "string" },
+        amount: { type: "money" },
+        slippageBps: { type: "bps", default: 20000, required: "no" },
+      })
+    ).toEqual([
+      "inputs.bad-name: name must be an identifier (letters, digits, _)",
+      "inputs.amount.type: must be one of string, number, boolean, amount, mint, address, bps",
+      "inputs.slippageBps.required: must be a boolean",
+      "inputs.slippageBps.default: must be an integer number of basis points (0-10000)",
+    ]);
+  });
+
+  test("describes inputs as JSON Schema", () => {
+    const schema = inputSchema(specs);
+    expect(schema.required).toEqual(["to"]);
+    expect(schema.properties.amount).toEqual({ type: "number", exclusiveMinimum: 0, format: "amount", maximum: 5, default: 0.01 });
+    expect(schema.properties.venue).toEqual({ type: "string", enum: ["jupiter", "meteora"], default: "jupiter" });
+    expect(schema.properties.outputMint.format).toBe("mint");
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, test, expect } from "bun:test";
-import { parseWorkflow } from "../src/parser.js";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseWorkflow, parseWorkflowFile } from "../src/parser.js";
 
 describe("parseWorkflow", () => {
   test("parses valid workflow", () => {
@@ -70,6 +73,24 @@ stages:
     expect(result.workflow?.stages[0].approval?.conditions).toHaveLength(2);
   });
 
+  test("validates approval.timeout", () => {
+    const yaml = `
+name: with_approval
+version: "1.0"
+trigger: manual
+stages:
+  - name: approve
+    type: approval
+    approval:
+      required: true
+      timeout: soon
+`;
+
+    const result = parseWorkflow(yaml);
+    expect(result.ok).toBe(false);
+    expect(result.errors).toEqual(["stages[0].approval.timeout: invalid duration 'soon' (use e.g. 30s, 5m, 2h)"]);
+  });
+
   test("rejects missing name", () => {
     const yaml = `
 version: "1.0"
@@ -160,4 +181,552 @@ name: test
     // Either YAML parse error or validation error
     expect(result.errors?.length).toBeGreaterThan(0);
   });
+
+  test("validates cron triggers", () => {
+    const wf = (trigger: string) => `
+name: tick
+version: "1.0"
+${trigger}
+stages:
+  - name: check
+    type: analysis
+    actions:
+      - tool: get_price
+`;
+
+    const ok = parseWorkflow(wf(`trigger: cron\ntriggerConfig:\n  cron: "*/5 * * * *"`));
+    expect(ok.ok).toBe(true);
+    expect(ok.workflow?.triggerConfig?.cron).toBe("*/5 * * * *");
+
+    expect(parseWorkflow(wf("trigger: cron")).errors).toContain("Missing 'triggerConfig.cron' for cron trigger");
+    const bad = parseWorkflow(wf(`trigger: cron\ntriggerConfig:\n  cron: "61 * * * *"`));
+    expect(bad.errors?.[0]).toContain("Invalid 'triggerConfig.cron': minute value 61 out of range");
+  });
+
+  test("validates config, stage timeouts and rollback actions", () => {
+    const wf = (extra: string) => `
+name: cfg
+version: "1.0"
+trigger: manual
+stages:
+  - name: open
+    type: execution
+    timeout: 30s
+    actions:
+      - tool: open_position
+    rollback:
+      - tool: close_position
+${extra}
+`;
+
+    const ok = parseWorkflow(wf("config:\n  maxRetries: 2\n  timeout: 10m\n  rollbackOnFailure: true"));
+    expect(ok.ok).toBe(true);
+    expect(ok.workflow?.stages[0].timeout).toBe("30s");
+    expect(ok.workflow?.stages[0].rollback).toEqual([{ tool: "close_position", params: undefined }]);
+
+    const bad = parseWorkflow(wf("config:\n  maxRetries: -1\n  timeout: soon\n  rollbackOnFailure: yes please"));
+    expect(bad.ok).toBe(false);
+    expect(bad.errors).toEqual([
+      "config.maxRetries: must be a non-negative integer",
+      "config.rollbackOnFailure: must be a boolean",
+      "config.timeout: invalid duration 'soon' (use e.g. 30s, 5m, 2h)",
+    ]);
+  });
+
+  test("reports unparsable when and approval conditions", () => {
+    const result = parseWorkflow(`
+name: bad_when
+version: "1.0"
+trigger: manual
+stages:
+  - name: check
+    type: analysis
+    when: "opportunity.profit >"
+    actions:
+      - tool: get_price
+  - name: approve
+    type: approval
+    approval:
+      required: true
+      conditions:
+        - "simulation.ok == true"
+        - "simulation.ok = true"
+`);
+    expect(result.ok).toBe(false);
+    expect(result.errors).toEqual([
+      "stages[0].when: Parse error at position 20: expected value, path or '(' but found end of input",
+      "stages[1].approval.conditions[1]: Parse error at position 14: expected expression but found '='",
+    ]);
+  });
+
+  test("validates parallel stages and dependsOn", () => {
+    const ok = parseWorkflow(`
+name: quotes
+version: "1.0"
+trigger: manual
+stages:
+  - name: jupiter
+    type: analysis
+    dependsOn: []
+    parallel: true
+    onError: collect
+    actions:
+      - tool: solana_jupiter_quote
+      - tool: meteora_quote
+  - name: raydium
+    type: analysis
+    dependsOn: []
+    actions:
+      - tool: raydium_quote
+  - name: compare
+    type: analysis
+    dependsOn: [jupiter, raydium]
+    actions:
+      - tool: calculate_opportunity
+`);
+    expect(ok.ok).toBe(true);
+    expect(ok.workflow?.stages[0]).toMatchObject({ dependsOn: [], parallel: true, onError: "collect" });
+    expect(ok.workflow?.stages[2].dependsOn).toEqual(["jupiter", "raydium"]);
+
+    const bad = parseWorkflow(`
+name: bad
+version: "1.0"
+trigger: manual
+stages:
+  - name: a
+    type: analysis
+    dependsOn: [b, a, nope]
+    onError: collect
+    actions:
+      - tool: get_price
+  - name: b
+    type: analysis
+    parallel: true
+    actions:
+      - tool: solana_jupiter_quote
+      - tool: jupiter_quote
+`);
+    expect(bad.errors).toEqual([
+      "stages[0].onError: only applies to parallel stages",
+      "stages[1].actions[1]: duplicate result key 'quote' in parallel stage",
+    ]);
+
+    const refs = parseWorkflow(`
+name: refs
+version: "1.0"
+trigger: manual
+stages:
+  - name: a
+    type: analysis
+    dependsOn: [c, a, nope]
+    actions:
+      - tool: get_price
+  - name: b
+    type: analysis
+    actions:
+      - tool: get_price
+  - name: c
+    type: analysis
+    actions:
+      - tool: get_price
+`);
+    expect(refs.errors).toEqual(["stages[0].dependsOn: stage cannot depend on itself", "stages[0].dependsOn: unknown stage 'nope'"]);
+
+    const loop = parseWorkflow(`
+name: cycle
+version: "1.0"
+trigger: manual
+stages:
+  - name: a
+    type: analysis
+    dependsOn: [c]
+    actions:
+      - tool: get_price
+  - name: b
+    type: analysis
+    actions:
+      - tool: get_price
+  - name: c
+    type: analysis
+    actions:
+      - tool: get_price
+`);
+    expect(loop.errors).toEqual(["Stage dependencies form a cycle: a, b, c"]);
+  });
+
+  test("validates output bindings and warns on ambiguous references", () => {
+    const bad = parseWorkflow(`
+name: bind
+version: "1.0"
+trigger: manual
+stages:
+  - name: quotes
+    type: analysis
+    actions:
+      - tool: get_price
+        id: price
+        as: steps
+        outputs: { "not-a-name": price }
+      - tool: get_price
+        id: price
+        params:
+          token: "{{ steps.nope.result }}"
+`);
+    expect(bad.errors).toEqual([
+      "stages[0].actions[0].as: must be an identifier (letters, digits, _) other than 'steps'",
+      "stages[0].actions[0].outputs: 'not-a-name' must be an identifier (letters, digits, _)",
+    ]);
+
+    const refs = parseWorkflow(`
+name: bind
+version: "1.0"
+trigger: manual
+stages:
+  - name: quotes
+    type: analysis
+    actions:
+      - tool: solana_jupiter_quote
+        id: jup
+      - tool: meteora_quote
+        id: met
+      - tool: get_price
+        id: jup
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_jupiter_build_tx
+        params:
+          quoteId: "{{ quote.quoteId }}"
+          other: "{{ steps.met.result.quoteId }} {{ steps.nope.result }}"
+`);
+    expect(refs.errors).toEqual([
+      "stages[0].actions[2].id: duplicate id 'jup'",
+      "stages[1].actions[0].params: 'steps.nope.result' references unknown step id 'nope'",
+    ]);
+
+    const explicit = parseWorkflow(`
+name: bind
+version: "1.0"
+trigger: manual
+stages:
+  - name: quotes
+    type: analysis
+    parallel: true
+    actions:
+      - tool: solana_jupiter_quote
+        id: jup
+      - tool: meteora_quote
+        id: met
+  - name: approve
+    type: approval
+    approval:
+      required: true
+      conditions:
+        - "quote.ok == true && steps.met.result.ok"
+config:
+  legacyAliases: false
+`);
+    // without legacy aliases only solana_jupiter_quote binds `quote`
+    expect(explicit.ok).toBe(true);
+    expect(explicit.warnings).toBeUndefined();
+
+    const legacy = parseWorkflow(`
+name: bind
+version: "1.0"
+trigger: manual
+stages:
+  - name: quotes
+    type: analysis
+    parallel: true
+    actions:
+      - tool: solana_jupiter_quote
+      - tool: meteora_quote
+  - name: approve
+    type: approval
+    approval:
+      required: true
+      conditions:
+        - "quote.ok == true"
+        - "simulation.ok == true"
+`);
+    expect(legacy.ok).toBe(true);
+    expect(legacy.warnings).toEqual([
+      "stages[1].approval.conditions[0]: 'quote' is bound by stages[0].actions[0] (solana_jupiter_quote), stages[0].actions[1] (meteora_quote); give the action an id and reference steps.<id>.result",
+    ]);
+
+    const off = parseWorkflow(`
+name: bind
+version: "1.0"
+trigger: manual
+stages:
+  - name: check
+    type: approval
+    approval:
+      required: true
+      conditions:
+        - "simulation.ok == true"
+config:
+  legacyAliases: false
+`);
+    expect(off.warnings).toEqual([
+      "stages[0].approval.conditions[0]: 'simulation' is only set by legacy aliases, which config.legacyAliases: false turns off",
+    ]);
+  });
+
+  test("parses inputs and returns their schema", () => {
+    const result = parseWorkflow(`
+name: swap
+version: "1.0"
+trigger: manual
+inputs:
+  amount:
+    type: amount
+    description: SOL to swap
+  outputMint:
+    type: mint
+    default: USDC
+stages:
+  - name: quote
+    type: analysis
+    actions:
+      - tool: solana_jupiter_quote
+        params:
+          amount: "{{ inputs.amount }}"
+          outputMint: "{{ inputs.outputMint }}"
+`);
+    expect(result.ok).toBe(true);
+    expect(result.workflow?.inputs?.amount).toEqual({ type: "amount", description: "SOL to swap" });
+    expect(result.inputSchema).toEqual({
+      type: "object",
+      properties: {
+        amount: { type: "number", exclusiveMinimum: 0, format: "amount", description: "SOL to swap" },
+        outputMint: { type: "string", format: "mint", examples: ["SOL", "WSOL", "USDC", "USDT"], default: "USDC" },
+      },
+      required: ["amount"],
+      additionalProperties: false,
+    });
+
+    const bad = parseWorkflow(`
+name: swap
+version: "1.0"
+trigger: manual
+inputs:
+  amount:
+    type: amount
+    default: lots
+stages:
+  - name: quote
+    type: analysis
+    when: "inputs.slippage > 10"
+    actions:
+      - tool: solana_jupiter_quote
+`);
+    expect(bad.errors).toEqual(["inputs.amount.default: must be a positive decimal amount"]);
+
+    const undeclared = parseWorkflow(`
+name: swap
+version: "1.0"
+trigger: manual
+stages:
+  - name: quote
+    type: analysis
+    when: "inputs.slippage > 10"
+    actions:
+      - tool: solana_jupiter_quote
+`);
+    expect(undeclared.errors).toEqual(["stages[0].when: 'inputs.slippage' references undeclared input 'slippage'"]);
+  });
+
+  test("validates foreach and until/while loops", () => {
+    const ok = parseWorkflow(`
+name: loops
+version: "1.0"
+trigger: manual
+stages:
+  - name: scan
+    type: analysis
+    foreach:
+      items: pools.items
+      as: pool
+      maxIterations: 20
+    actions:
+      - tool: meteora_dlmm_quote
+        params:
+          pool: "{{ pool.address }}"
+  - name: confirm
+    type: monitor
+    until: "status.confirmed == true"
+    interval: 2s
+    maxAttempts: 30
+    actions:
+      - tool: solana_get_status
+`);
+    expect(ok.ok).toBe(true);
+    expect(ok.workflow!.stages[0].foreach).toEqual({ items: "pools.items", as: "pool", maxIterations: 20 });
+    expect(ok.workflow!.stages[1].until).toBe("status.confirmed == true");
+    expect(ok.workflow!.stages[1].maxAttempts).toBe(30);
+
+    const bad = parseWorkflow(`
+name: loops
+version: "1.0"
+trigger: manual
+stages:
+  - name: scan
+    type: analysis
+    foreach:
+      items: "pools[0]"
+      as: loop
+      maxIterations: 5000
+    until: "done == true"
+    actions:
+      - tool: meteora_dlmm_quote
+  - name: confirm
+    type: monitor
+    until: "status.confirmed == true"
+    while: "status.pending == true"
+    interval: soon
+    actions:
+      - tool: solana_get_status
+  - name: wait
+    type: analysis
+    maxAttempts: 3
+    actions:
+      - tool: solana_get_status
+`);
+    expect(bad.ok).toBe(false);
+    expect(bad.errors).toEqual([
+      "stages[0].foreach.items: must be a context path, e.g. pools.items",
+      "stages[0].foreach.as: must be an identifier other than steps, inputs and loop",
+      "stages[0].foreach.maxIterations: must be an integer from 1 to 1000",
+      "stages[0]: foreach cannot be combined with until/while",
+      "stages[0]: until/while are only supported on monitor stages",
+      "stages[1]: use either until or while, not both",
+      "stages[1].interval: invalid duration 'soon' (use e.g. 30s, 5m, 2h)",
+      "stages[2].maxAttempts: only applies with until/while",
+    ]);
+  });
+
+  test("validates use actions and workflow outputs", () => {
+    const bad = parseWorkflow(`
+name: caller
+version: "1.0"
+trigger: manual
+stages:
+  - name: prep
+    type: simulation
+    actions:
+      - use: quote_build_simulate
+        tool: solana_jupiter_quote
+        inputs: [1]
+      - tool: solana_simulate_tx
+        inputs:
+          txB64: abc
+`);
+    expect(bad.ok).toBe(false);
+    expect(bad.errors).toEqual([
+      "stages[0].actions[0]: 'use' cannot be combined with 'tool' or 'params'",
+      "stages[0].actions[0].inputs: must map input names to values",
+      "stages[0].actions[1].inputs: only applies to 'use' actions (tools take 'params')",
+    ]);
+
+    const outputs = parseWorkflow(`
+name: lib
+version: "1.0"
+trigger: manual
+outputs:
+  tx: "built.txB64 "
+  2nd: built
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - tool: solana_jupiter_build_tx
+`);
+    expect(outputs.errors).toEqual([
+      "outputs.tx: must be a context path, e.g. built.txB64",
+      "outputs: '2nd' must be an identifier (letters, digits, _)",
+    ]);
+  });
+});
+
+describe("parseWorkflowFile", () => {
+  const write = (dir: string, name: string, body: string) => {
+    const p = join(dir, name);
+    mkdirSync(join(p, ".."), { recursive: true });
+    writeFileSync(p, body);
+    return p;
+  };
+  const lib = (name: string, use?: string) => `
+name: ${name}
+version: "1.0"
+trigger: manual
+inputs:
+  amount:
+    type: amount
+outputs:
+  txB64: built.txB64
+stages:
+  - name: build
+    type: simulation
+    actions:
+      - ${use ? `use: ${use}\n        inputs:\n          amount: "{{ inputs.amount }}"` : "tool: solana_jupiter_build_tx"}
+`;
+  const caller = (use: string, inputs: string) => `
+name: caller
+version: "1.0"
+trigger: manual
+stages:
+  - name: prep
+    type: simulation
+    actions:
+      - use: ${use}
+        inputs: ${inputs}
+  - name: send
+    type: execution
+    actions:
+      - tool: solana_send_tx
+        params:
+          txB64: "{{ quote_build.txB64 }}"
+`;
+
+  test("resolves use actions from lib/ and the library path", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-lib-"));
+    const extra = mkdtempSync(join(tmpdir(), "w3rt-lib-extra-"));
+    write(dir, "lib/quote_build.yaml", lib("quote_build", "sign_only"));
+    write(extra, "sign_only.yml", lib("sign_only"));
+
+    const path = write(dir, "swap.yaml", caller("quote_build", "{ amount: 0.5 }"));
+    const result = parseWorkflowFile(path, { libraryPath: [extra, join(dir, "lib"), dir] });
+    expect(result.errors).toBeUndefined();
+    expect(result.ok).toBe(true);
+    expect(Object.keys(result.workflows!).sort()).toEqual(["quote_build", "sign_only"]);
+    expect(result.workflows!.quote_build.outputs).toEqual({ txB64: "built.txB64" });
+
+    // without the extra directory sign_only cannot be found
+    const missing = parseWorkflowFile(path);
+    expect(missing.ok).toBe(false);
+    expect(missing.errors).toEqual([
+      `stages[0].actions[0] (use quote_build): stages[0].actions[0]: workflow 'sign_only' not found in library path (${join(dir, "lib")}, ${dir})`,
+    ]);
+  });
+
+  test("checks inputs against the used workflow and rejects cycles", () => {
+    const dir = mkdtempSync(join(tmpdir(), "w3rt-lib-"));
+    write(dir, "lib/quote_build.yaml", lib("quote_build"));
+    const badInputs = parseWorkflowFile(write(dir, "swap.yaml", caller("quote_build", "{ amount: -1, slippage: 50 }")));
+    expect(badInputs.errors).toEqual([
+      "stages[0].actions[0].inputs.amount: must be a positive decimal amount",
+      "stages[0].actions[0].inputs.slippage: workflow 'quote_build' has no input 'slippage'",
+    ]);
+    const noInputs = parseWorkflowFile(write(dir, "swap.yaml", caller("quote_build", "{}")));
+    expect(noInputs.errors).toEqual(["stages[0].actions[0].inputs: missing required input 'amount' of workflow 'quote_build'"]);
+
+    write(dir, "lib/a.yaml", lib("a", "b"));
+    write(dir, "lib/b.yaml", lib("b", "a"));
+    const cycle = parseWorkflowFile(write(dir, "swap.yaml", caller("a", "{ amount: 1 }")));
+    const [a, b] = [join(dir, "lib", "a.yaml"), join(dir, "lib", "b.yaml")];
+    expect(cycle.errors).toEqual([
+      `stages[0].actions[0] (use a): stages[0].actions[0] (use b): stages[0].actions[0]: workflow cycle: ${a} -> ${b} -> ${a}`,
+    ]);
+  });
 });